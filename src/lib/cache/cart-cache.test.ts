@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CartCache } from './cart-cache.js';
+import type { CartAbandonedEvent, CartItem } from './cart-cache.js';
+import { MemoryCartStore } from './cart-store.js';
+import { InventoryCache } from './inventory-cache.js';
+import { getProductById } from '../product-catalog.js';
+
+const MINUTE = 60 * 1000;
+const IDLE_TTL_MS = 60 * MINUTE;
+
+const cheese = getProductById('cheese')!;  // 24 in stock
+
+function cheeseItem(quantity: number): CartItem {
+  return { id: 'cheese', name: cheese.name, price: cheese.price, quantity, totalPrice: cheese.price * quantity };
+}
+
+describe('CartCache abandoned cart sweeper', () => {
+  let clock: Date;
+  let store: MemoryCartStore;
+  let inventory: InventoryCache;
+  let cache: CartCache;
+
+  // Move the shared fake clock forward
+  function advance(ms: number): void {
+    clock = new Date(clock.getTime() + ms);
+  }
+
+  beforeEach(async () => {
+    clock = new Date('2025-01-15T10:00:00Z');
+    const now = () => clock;
+    inventory = new InventoryCache({ now, reservationTtlMs: 2 * IDLE_TTL_MS });
+    store = new MemoryCartStore();
+    cache = new CartCache({ store, inventory, now, idleTtlMs: IDLE_TTL_MS });
+    await cache.clearAllCarts();
+  });
+
+  afterEach(async () => {
+    cache.stopSweeper();
+    await cache.clearAllCarts();
+    vi.useRealTimers();
+  });
+
+  it('evicts only carts idle for longer than the TTL', async () => {
+    await cache.addItemToCart('alice', cheeseItem(1));
+    advance(30 * MINUTE);
+    await cache.addItemToCart('bob', cheeseItem(1));
+
+    advance(IDLE_TTL_MS - 30 * MINUTE - 1);
+    expect(await cache.sweepAbandonedCarts()).toBe(0);
+    expect(await cache.getCartCount()).toBe(2);
+
+    advance(1);
+    expect(await cache.sweepAbandonedCarts()).toBe(1);
+    expect(await cache.getUserCart('alice')).toBeNull();
+    expect(await cache.getUserCart('bob')).not.toBeNull();
+    expect(await cache.getCartCount()).toBe(1);
+    expect(cache.getAbandonedCartCount()).toBe(1);
+  });
+
+  it('keeps carts that were updated since they went quiet', async () => {
+    await cache.addItemToCart('alice', cheeseItem(1));
+    advance(IDLE_TTL_MS - MINUTE);
+    await cache.updateItemQuantity('alice', 'cheese', 2);
+    advance(2 * MINUTE);
+
+    expect(await cache.sweepAbandonedCarts()).toBe(0);
+  });
+
+  it('emits cart.abandoned with the cart snapshot before evicting it', async () => {
+    await cache.addItemToCart('alice', cheeseItem(2));
+    const events: CartAbandonedEvent[] = [];
+    cache.on('cart.abandoned', (event: CartAbandonedEvent) => {
+      events.push(event);
+    });
+
+    advance(IDLE_TTL_MS + 5 * MINUTE);
+    await cache.sweepAbandonedCarts();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].cart.userId).toBe('alice');
+    expect(events[0].cart.items).toEqual([expect.objectContaining({ id: 'cheese', quantity: 2 })]);
+    expect(events[0].idleMs).toBe(IDLE_TTL_MS + 5 * MINUTE);
+  });
+
+  it('releases the stock reserved by evicted carts', async () => {
+    await cache.addItemToCart('alice', cheeseItem(20));
+    expect(inventory.getAvailable(cheese, 'bob')).toBe(4);
+
+    advance(IDLE_TTL_MS);
+    await cache.sweepAbandonedCarts();
+
+    expect(inventory.getReserved('alice', 'cheese')).toBe(0);
+    expect(inventory.getAvailable(cheese, 'bob')).toBe(24);
+  });
+
+  it('expires reservations on the same clock', async () => {
+    await cache.addItemToCart('alice', cheeseItem(20));
+
+    advance(2 * IDLE_TTL_MS - 1);
+    expect(inventory.getReserved('alice', 'cheese')).toBe(20);
+    advance(1);
+    expect(inventory.getReserved('alice', 'cheese')).toBe(0);
+  });
+
+  it('sweeps on an interval until stopped', async () => {
+    vi.useFakeTimers();
+    await cache.addItemToCart('alice', cheeseItem(1));
+    await cache.addItemToCart('bob', cheeseItem(1));
+    cache.startSweeper(5 * MINUTE);
+
+    advance(IDLE_TTL_MS);
+    await cache.updateItemQuantity('bob', 'cheese', 2);
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(await cache.getUserCart('alice')).toBeNull();
+
+    cache.stopSweeper();
+    advance(IDLE_TTL_MS);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(await cache.getUserCart('bob')).not.toBeNull();
+  });
+});
+
+describe('CartCache instances', () => {
+  it('keep their own carts and reservations', async () => {
+    const first = new CartCache({ store: new MemoryCartStore(), inventory: new InventoryCache() });
+    const secondInventory = new InventoryCache();
+    const second = new CartCache({ store: new MemoryCartStore(), inventory: secondInventory });
+
+    await first.addItemToCart('alice', cheeseItem(24));
+
+    expect(await second.getUserCart('alice')).toBeNull();
+    expect(secondInventory.getAvailable(cheese, 'bob')).toBe(24);
+    await expect(second.addItemToCart('bob', cheeseItem(24))).resolves.toBeUndefined();
+  });
+});
@@ -1,5 +1,15 @@
+import { EventEmitter } from 'events';
+
+import { inventoryCache } from './inventory-cache.js';
+import type { CartLine, InventoryCache } from './inventory-cache.js';
+import { fromDollars, multiplyMoney, sumMoney, toDollars } from '../pricing/money.js';
+import { CartVersionConflictError, createCartStoreFromEnv } from './cart-store.js';
+import type { CartStore } from './cart-store.js';
+
 interface CartItem {
   id: string;
+  name?: string;
+  category?: string;   // Used for tax rates (see pricing/pricing-engine.ts)
   price: number;
   quantity: number;
   totalPrice: number;
@@ -10,111 +20,379 @@ interface Cart {
   items: CartItem[];
   totalItems: number;
   totalValue: number;
+  coupons?: string[];  // Coupon codes, in the order they were applied
+  version: number;     // Incremented on every change; 0 means no cart yet
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Use globalThis to ensure persistence across API calls
-const globalForCart = globalThis as unknown as {
-  cartStore: Map<string, Cart> | undefined;
-};
+interface CartAbandonedEvent {
+  cart: Cart;        // Snapshot of the cart as it was evicted
+  idleMs: number;    // Time since the cart was last updated
+}
+
+interface CartUpdatedEvent {
+  userId: string;
+  cart: Cart | null;   // Snapshot after the change; null when the cart was removed
+}
+
+interface CartCacheOptions {
+  store?: CartStore;
+  inventory?: InventoryCache;  // Default: the shared inventoryCache
+  now?: () => Date;            // Clock, replaceable in tests (give `inventory` the same one)
+  idleTtlMs?: number;          // Default: CART_IDLE_TTL_MINUTES (1440)
+}
+
+// Line and cart totals are summed in cents, then stored in dollars
+function recalculateTotals(cart: Cart, now: Date): void {
+  const lineTotals = cart.items.map(item => multiplyMoney(fromDollars(item.price), item.quantity));
+  cart.items.forEach((item, index) => {
+    item.totalPrice = toDollars(lineTotals[index]);
+  });
+  cart.totalItems = cart.items.reduce((total, item) => total + item.quantity, 0);
+  cart.totalValue = toDollars(sumMoney(lineTotals));
+  cart.version += 1;
+  cart.updatedAt = now;
+}
+
+// Mutations may pass the version they last saw; a missing cart is version 0
+function checkVersion(userId: string, cart: Cart | null, expectedVersion?: number): void {
+  const currentVersion = cart?.version ?? 0;
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw new CartVersionConflictError(userId, expectedVersion, currentVersion);
+  }
+}
+
+/**
+ * Carts per user, persisted through a CartStore (see cart-store.ts)
+ *
+ * Mutations take an optional expectedVersion for optimistic concurrency:
+ * they throw CartVersionConflictError instead of overwriting a newer cart.
+ * So do writes that a shared store refuses because another replica changed
+ * the cart first; their stock reservations are undone.
+ *
+ * Carts idle for longer than the TTL are evicted by sweepAbandonedCarts(),
+ * run periodically by startSweeper(). Each eviction emits 'cart.abandoned'
+ * with a CartAbandonedEvent before the cart is deleted.
+ *
+ * Every change to a cart (including clearing or evicting it) emits
+ * 'cart.updated' with a CartUpdatedEvent once it has been stored.
+ */
+class CartCache extends EventEmitter {
+  private store: CartStore | null;
+  private opened: Promise<CartStore> | null = null;
+  private readonly inventory: InventoryCache;
+  private readonly now: () => Date;
+  private readonly idleTtlMs?: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private abandonedCount = 0;
+
+  // Tail of the pending updates per user; updates to one cart run in order
+  private locks = new Map<string, Promise<unknown>>();
+
+  // The store is created on first use so configuration loaded after
+  // import (dotenv) is honoured
+  constructor(options: CartCacheOptions = {}) {
+    super();
+    this.store = options.store || null;
+    this.inventory = options.inventory || inventoryCache;
+    this.now = options.now || (() => new Date());
+    this.idleTtlMs = options.idleTtlMs;
+  }
+
+  getIdleTtlMs(): number {
+    return this.idleTtlMs ?? Number(process.env.CART_IDLE_TTL_MINUTES || 1440) * 60 * 1000;
+  }
+
+  /**
+   * Open the cart store and restore the stock reservations of the carts it
+   * holds, so they survive restarts with a persistent store. Runs on first
+   * use; servers call it at startup, once the catalog is loaded.
+   */
+  open(): Promise<CartStore> {
+    if (!this.opened) {
+      this.opened = this.restoreReservations().catch(error => {
+        this.opened = null;
+        throw error;
+      });
+    }
+    return this.opened;
+  }
+
+  private async restoreReservations(): Promise<CartStore> {
+    if (!this.store) {
+      this.store = createCartStoreFromEnv();
+      console.error(`[cart-cache] Using ${this.store.description} cart store`);
+    }
+
+    const carts = await this.store.list();
+    carts.forEach(cart => this.inventory.restore(cart.userId, cart.items, cart.updatedAt));
+    if (carts.length > 0) {
+      console.error(`[cart-cache] Restored stock reservations of ${carts.length} stored cart${carts.length === 1 ? '' : 's'}`);
+    }
+    return this.store;
+  }
 
-class CartCache {
-  private carts: Map<string, Cart>;
+  // Read-modify-write of a cart, serialized per user within this process
+  private withCartLock<T>(userId: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(userId) || Promise.resolve();
+    const next = previous.catch(() => {}).then(update);
+    const tail = next.catch(() => {});
+    this.locks.set(userId, tail);
+    tail.then(() => {
+      if (this.locks.get(userId) === tail) {
+        this.locks.delete(userId);
+      }
+    });
+    return next;
+  }
 
-  constructor() {
-    if (!globalForCart.cartStore) {
-      globalForCart.cartStore = new Map<string, Cart>();
+  // Listeners must not break the mutation that triggered them
+  private emitUpdated(userId: string, cart: Cart | null): void {
+    const event: CartUpdatedEvent = { userId, cart: cart && structuredClone(cart) };
+    try {
+      this.emit('cart.updated', event);
+    } catch (error) {
+      console.error(`[cart-cache] cart.updated listener failed for ${userId}:`, error);
     }
-    this.carts = globalForCart.cartStore;
+  }
+
+  // Store a changed cart. If the store refuses it (CartVersionConflictError:
+  // another replica wrote the cart first), `undo` reverts the reservation
+  // taken for the change
+  private async saveCart(store: CartStore, cart: Cart, undo?: () => void): Promise<void> {
+    try {
+      await store.set(cart);
+    } catch (error) {
+      undo?.();
+      throw error;
+    }
+    this.emitUpdated(cart.userId, cart);
+  }
+
+  // Reserve a cart's lines as they will be after a change (lines whose
+  // reservation lapsed are held again); returns the undo for saveCart
+  private reserveLines(userId: string, lines: CartLine[]): () => void {
+    const held = this.inventory.getReservedItems(userId);
+    this.inventory.reserveCart(userId, lines);
+    return () => this.inventory.restore(userId, held, this.now());
   }
 
   // ...existing code...
-  async addItemToCart(userId: string, item: CartItem): Promise<void> {
-    if (!this.carts.has(userId)) {
-      this.carts.set(userId, {
+  // Reserves stock for the new line quantity first; throws
+  // InsufficientStockError (see inventory-cache.ts) without changing the cart
+  async addItemToCart(userId: string, item: CartItem, expectedVersion?: number): Promise<void> {
+    await this.withCartLock(userId, async () => {
+      const store = await this.open();
+      const existingCart = await store.get(userId);
+      checkVersion(userId, existingCart, expectedVersion);
+
+      const cart = existingCart || {
         userId: userId,
         items: [],
         totalItems: 0,
         totalValue: 0,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-    }
+        version: 0,
+        createdAt: this.now(),
+        updatedAt: this.now(),
+      };
 
-    const cart = this.carts.get(userId)!;
-    
-    // Check if item already exists in cart
-    const existingItemIndex = cart.items.findIndex(cartItem => cartItem.id === item.id);
-    
-    if (existingItemIndex >= 0) {
-      // Update existing item quantity
-      cart.items[existingItemIndex].quantity += item.quantity;
-    } else {
-      // Add new item to cart
-      cart.items.push(item);
-    }
+      // Check if item already exists in cart
+      const existingItem = cart.items.find(cartItem => cartItem.id === item.id);
+      const undo = this.reserveLines(userId, [
+        ...cart.items.filter(cartItem => cartItem.id !== item.id),
+        { id: item.id, quantity: (existingItem?.quantity || 0) + item.quantity },
+      ]);
 
-    // Recalculate totals
-    cart.totalItems = cart.items.reduce((total, item) => total + item.quantity, 0);
-    cart.totalValue = cart.items.reduce((total, item) => total + (item.price * item.quantity), 0);
-    cart.updatedAt = new Date();
-    
-    this.carts.set(userId, cart);
+      if (existingItem) {
+        // Update existing item quantity
+        existingItem.quantity += item.quantity;
+      } else {
+        // Add new item to cart
+        cart.items.push(item);
+      }
+
+      recalculateTotals(cart, this.now());
+      await this.saveCart(store, cart, undo);
+    });
   }
 
-  async removeItemFromCart(userId: string, itemId: string): Promise<void> {
-    const cart = this.carts.get(userId);
-    if (!cart) return;
+  async removeItemFromCart(userId: string, itemId: string, expectedVersion?: number): Promise<void> {
+    await this.withCartLock(userId, async () => {
+      const store = await this.open();
+      const cart = await store.get(userId);
+      checkVersion(userId, cart, expectedVersion);
+      if (!cart) return;
 
-    cart.items = cart.items.filter(item => item.id !== itemId);
-    cart.totalItems = cart.items.reduce((total, item) => total + item.quantity, 0);
-    cart.totalValue = cart.items.reduce((total, item) => total + (item.price * item.quantity), 0);
-    cart.updatedAt = new Date();
-    
-    this.carts.set(userId, cart);
+      cart.items = cart.items.filter(item => item.id !== itemId);
+      recalculateTotals(cart, this.now());
+      await this.saveCart(store, cart);
+      this.inventory.release(userId, itemId);
+    });
   }
 
-  async updateItemQuantity(userId: string, itemId: string, quantity: number): Promise<void> {
-    const cart = this.carts.get(userId);
-    if (!cart) return;
+  async updateItemQuantity(userId: string, itemId: string, quantity: number, expectedVersion?: number): Promise<void> {
+    await this.withCartLock(userId, async () => {
+      const store = await this.open();
+      const cart = await store.get(userId);
+      checkVersion(userId, cart, expectedVersion);
+      if (!cart) return;
 
-    const itemIndex = cart.items.findIndex(item => item.id === itemId);
-    if (itemIndex >= 0) {
-      if (quantity <= 0) {
-        cart.items.splice(itemIndex, 1);
-      } else {
-        cart.items[itemIndex].quantity = quantity;
+      const itemIndex = cart.items.findIndex(item => item.id === itemId);
+      if (itemIndex >= 0) {
+        let undo: (() => void) | undefined;
+        if (quantity <= 0) {
+          cart.items.splice(itemIndex, 1);
+        } else {
+          undo = this.reserveLines(userId, cart.items.map(item =>
+            item.id === itemId ? { id: itemId, quantity } : item));
+          cart.items[itemIndex].quantity = quantity;
+        }
+
+        recalculateTotals(cart, this.now());
+        await this.saveCart(store, cart, undo);
+        if (quantity <= 0) {
+          this.inventory.release(userId, itemId);
+        }
       }
+    });
+  }
 
-      cart.totalItems = cart.items.reduce((total, item) => total + item.quantity, 0);
-      cart.totalValue = cart.items.reduce((total, item) => total + (item.price * item.quantity), 0);
-      cart.updatedAt = new Date();
-      
-      this.carts.set(userId, cart);
-    }
+  // Attach a coupon code; eligibility is checked by the caller (see
+  // promotions/coupons.ts). Returns false if the code was already applied
+  async applyCoupon(userId: string, code: string, expectedVersion?: number): Promise<boolean> {
+    return this.withCartLock(userId, async () => {
+      const store = await this.open();
+      const cart = await store.get(userId);
+      checkVersion(userId, cart, expectedVersion);
+      if (!cart || cart.coupons?.includes(code)) return false;
+
+      cart.coupons = [...(cart.coupons || []), code];
+      recalculateTotals(cart, this.now());
+      await this.saveCart(store, cart);
+      return true;
+    });
+  }
+
+  // Returns false if the code wasn't applied to the cart
+  async removeCoupon(userId: string, code: string, expectedVersion?: number): Promise<boolean> {
+    return this.withCartLock(userId, async () => {
+      const store = await this.open();
+      const cart = await store.get(userId);
+      checkVersion(userId, cart, expectedVersion);
+      if (!cart?.coupons?.includes(code)) return false;
+
+      cart.coupons = cart.coupons.filter(applied => applied !== code);
+      recalculateTotals(cart, this.now());
+      await this.saveCart(store, cart);
+      return true;
+    });
+  }
+
+  async getUserCart(userId: string): Promise<Cart | null> {
+    return (await this.open()).get(userId);
+  }
+
+  async getAllCarts(): Promise<Cart[]> {
+    return (await this.open()).list();
   }
 
-  getUserCart(userId: string): Cart | null {
-    return this.carts.get(userId) || null;
+  // Carts that haven't gone idle (idle ones are evicted on the next sweep)
+  async getCartCount(): Promise<number> {
+    const cutoff = this.now().getTime() - this.getIdleTtlMs();
+    const store = await this.open();
+    return (await store.list()).filter(cart => cart.updatedAt.getTime() > cutoff).length;
   }
 
-  getAllCarts(): Cart[] {
-    return Array.from(this.carts.values());
+  // Carts evicted as abandoned since startup
+  getAbandonedCartCount(): number {
+    return this.abandonedCount;
   }
 
-  getCartCount(): number {
-    return this.carts.size;
+  async clearCart(userId: string, expectedVersion?: number): Promise<void> {
+    await this.withCartLock(userId, async () => {
+      const store = await this.open();
+      checkVersion(userId, await store.get(userId), expectedVersion);
+      await store.delete(userId);
+      this.inventory.releaseAll(userId);
+      this.emitUpdated(userId, null);
+    });
   }
 
-  clearCart(userId: string): void {
-    this.carts.delete(userId);
+  async clearAllCarts(): Promise<void> {
+    this.inventory.clearAllReservations();
+    await (await this.open()).clear();
+  }
+
+  /**
+   * Evict carts idle for longer than the TTL, emitting 'cart.abandoned'
+   * for each; returns the number evicted
+   */
+  async sweepAbandonedCarts(): Promise<number> {
+    const ttlMs = this.getIdleTtlMs();
+    let evicted = 0;
+
+    const store = await this.open();
+    for (const { userId } of await store.list()) {
+      await this.withCartLock(userId, async () => {
+        // Re-read under the lock in case the cart was just updated
+        const cart = await store.get(userId);
+        if (!cart) return;
+
+        const idleMs = this.now().getTime() - cart.updatedAt.getTime();
+        if (idleMs < ttlMs) return;
+
+        const event: CartAbandonedEvent = { cart: structuredClone(cart), idleMs };
+        try {
+          this.emit('cart.abandoned', event);
+        } catch (error) {
+          console.error(`[cart-cache] cart.abandoned listener failed for ${userId}:`, error);
+        }
+
+        this.inventory.releaseAll(userId);
+        await store.delete(userId);
+        this.emitUpdated(userId, null);
+        this.abandonedCount++;
+        evicted++;
+      });
+    }
+
+    if (evicted > 0) {
+      console.error(`[cart-cache] Evicted ${evicted} abandoned cart${evicted === 1 ? '' : 's'}`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Sweep every CART_SWEEP_INTERVAL_MINUTES (default 5) until stopSweeper()
+   */
+  startSweeper(intervalMs = Number(process.env.CART_SWEEP_INTERVAL_MINUTES || 5) * 60 * 1000): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepAbandonedCarts().catch(error => {
+        console.error('[cart-cache] Abandoned cart sweep failed:', error);
+      });
+    }, intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
   }
 
-  clearAllCarts(): void {
-    this.carts.clear();
+  // Stop the sweeper, flush pending writes and close store connections (on shutdown)
+  async close(): Promise<void> {
+    this.stopSweeper();
+    await Promise.all(this.locks.values());
+    await this.store?.close?.();
   }
 }
 
 export const cartCache = new CartCache();
-export type { CartItem, Cart };
\ No newline at end of file
+export { CartCache, CartVersionConflictError };
+export type { CartItem, Cart, CartAbandonedEvent, CartUpdatedEvent, CartCacheOptions };
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { Cart } from './cart-cache.js';
+import { FileCartStore, MemoryCartStore, createCartStoreFromEnv, reviveCart } from './cart-store.js';
+
+function newCart(userId: string): Cart {
+  const now = new Date('2025-01-15T10:00:00Z');
+  return {
+    userId,
+    items: [{ id: 'apple', name: 'Organic Gala Apples', category: 'Produce', price: 3.99, quantity: 2, totalPrice: 7.98 }],
+    totalItems: 2,
+    totalValue: 7.98,
+    coupons: ['SAVE10'],
+    version: 3,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('FileCartStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cart-store-'));
+    filePath = path.join(dir, 'nested', 'carts.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips carts through the file', async () => {
+    const store = new FileCartStore(filePath);
+    await store.set(newCart('alice'));
+    await store.set(newCart('bob'));
+    expect(await store.delete('bob')).toBe(true);
+    await store.close();
+
+    // A new store (e.g. after a restart) reads the carts back
+    const reopened = new FileCartStore(filePath);
+    const alice = await reopened.get('alice');
+    expect(alice).toEqual(newCart('alice'));
+    expect(alice?.createdAt).toBeInstanceOf(Date);
+    expect(await reopened.get('bob')).toBeNull();
+    expect((await reopened.list()).map(cart => cart.userId)).toEqual(['alice']);
+  });
+
+  it('persists clearing every cart', async () => {
+    const store = new FileCartStore(filePath);
+    await store.set(newCart('alice'));
+    await store.clear();
+    await store.close();
+
+    expect(await new FileCartStore(filePath).list()).toEqual([]);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({});
+  });
+
+  it('starts empty without a file', async () => {
+    expect(await new FileCartStore(filePath).list()).toEqual([]);
+  });
+
+  it('refuses a file that is not JSON', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json');
+
+    await expect(new FileCartStore(filePath).list()).rejects.toThrow(/Cannot read cart store/);
+  });
+});
+
+describe('reviveCart', () => {
+  it('gives carts stored before versioning version 1', () => {
+    const { version, ...unversioned } = JSON.parse(JSON.stringify(newCart('alice')));
+
+    expect(version).toBe(3);
+    expect(reviveCart(unversioned).version).toBe(1);
+  });
+});
+
+describe('createCartStoreFromEnv', () => {
+  it('gives every memory store the same process-wide carts', async () => {
+    const first = createCartStoreFromEnv();
+    await first.set(newCart('alice'));
+
+    expect(await createCartStoreFromEnv().get('alice')).toEqual(newCart('alice'));
+    expect(await new MemoryCartStore().get('alice')).toBeNull();
+    await first.clear();
+  });
+});
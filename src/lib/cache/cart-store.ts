@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { Cart } from './cart-cache.js';
+import { RedisCartStore } from './redis-cart-store.js';
+
+/**
+ * Cart persistence
+ *
+ * CartCache reads and writes carts through a CartStore, selected with
+ * CART_STORE:
+ * - memory (default): process memory, lost on restart
+ * - file: JSON file at CART_STORE_FILE (default ./data/carts.json),
+ *   survives restarts of a single server process
+ * - redis: any Redis-protocol server at REDIS_URL, shared across replicas
+ *
+ * CartCache serializes the changes to a cart within one process. The Redis
+ * store also compare-and-sets every write on the cart version, so replicas
+ * sharing it never overwrite each other's changes.
+ */
+
+/**
+ * A mutation was made against a cart version that is no longer current
+ * (another client changed the cart in between)
+ */
+export class CartVersionConflictError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number,
+  ) {
+    super(`Cart was modified by another request (current version ${currentVersion}, expected ${expectedVersion}). ` +
+      'View the cart and retry.');
+    this.name = 'CartVersionConflictError';
+  }
+}
+
+export interface CartStore {
+  /** Human-readable description for logs */
+  readonly description: string;
+  get(userId: string): Promise<Cart | null>;
+  /**
+   * Write a changed cart. Stores shared between processes only write it
+   * over the previous version (cart.version - 1, or no cart for version 1)
+   * and otherwise throw CartVersionConflictError.
+   */
+  set(cart: Cart): Promise<void>;
+  /** Returns true if a cart was deleted */
+  delete(userId: string): Promise<boolean>;
+  list(): Promise<Cart[]>;
+  clear(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Restore Date fields of a cart read back from JSON
+ */
+export function reviveCart(raw: any): Cart {
+  return {
+    ...raw,
+    version: raw.version ?? 1,  // Carts stored before versioning
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+// Use globalThis to ensure persistence across API calls
+const globalForCart = globalThis as unknown as {
+  cartStore: Map<string, Cart> | undefined;
+};
+
+/**
+ * Carts in a map of its own; the store from createCartStoreFromEnv() uses
+ * one map per process
+ */
+export class MemoryCartStore implements CartStore {
+  readonly description = 'memory';
+
+  constructor(private readonly carts = new Map<string, Cart>()) {}
+
+  async get(userId: string): Promise<Cart | null> {
+    return this.carts.get(userId) || null;
+  }
+
+  async set(cart: Cart): Promise<void> {
+    this.carts.set(cart.userId, cart);
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return this.carts.delete(userId);
+  }
+
+  async list(): Promise<Cart[]> {
+    return Array.from(this.carts.values());
+  }
+
+  async clear(): Promise<void> {
+    this.carts.clear();
+  }
+}
+
+/**
+ * All carts in one JSON file, rewritten atomically (temp file + rename)
+ * after every change. Suitable for a single server process.
+ */
+export class FileCartStore implements CartStore {
+  readonly description: string;
+  private readonly filePath: string;
+  private carts: Map<string, Cart> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.description = `file ${this.filePath}`;
+  }
+
+  async get(userId: string): Promise<Cart | null> {
+    return (await this.load()).get(userId) || null;
+  }
+
+  async set(cart: Cart): Promise<void> {
+    (await this.load()).set(cart.userId, cart);
+    await this.save();
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(userId);
+    if (deleted) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  async list(): Promise<Cart[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async clear(): Promise<void> {
+    (await this.load()).clear();
+    await this.save();
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+
+  private async load(): Promise<Map<string, Cart>> {
+    if (this.carts) {
+      return this.carts;
+    }
+
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Cannot read cart store ${this.filePath}: ${error.message}`);
+      }
+    }
+
+    // Another call may have loaded the file while this one was reading
+    if (!this.carts) {
+      this.carts = new Map(Object.entries(stored).map(([userId, cart]) => [userId, reviveCart(cart)]));
+    }
+    return this.carts;
+  }
+
+  // Writes are chained so a slow write never overwrites a newer one
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.carts || []), null, 2);
+    const write = this.writes.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot);
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    this.writes = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * Cart store from configuration (CART_STORE, CART_STORE_FILE, REDIS_URL)
+ */
+export function createCartStoreFromEnv(): CartStore {
+  const kind = (process.env.CART_STORE || 'memory').toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryCartStore(globalForCart.cartStore ??= new Map<string, Cart>());
+    case 'file':
+      return new FileCartStore(process.env.CART_STORE_FILE || './data/carts.json');
+    case 'redis':
+      return new RedisCartStore(process.env.REDIS_URL || 'redis://localhost:6379',
+        process.env.CART_STORE_KEY_PREFIX || 'cart:');
+    default:
+      throw new Error(`Unknown CART_STORE "${kind}" (expected memory, file or redis)`);
+  }
+}
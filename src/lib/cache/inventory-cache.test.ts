@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CartCache } from './cart-cache.js';
+import type { Cart } from './cart-cache.js';
+import { FileCartStore, MemoryCartStore } from './cart-store.js';
+import { InsufficientStockError, InventoryCache, inventoryCache } from './inventory-cache.js';
+import { PRODUCT_CATALOG, getProductById, setCatalogProducts } from '../product-catalog.js';
+
+const cheese = getProductById('cheese')!;  // 24 in stock
+
+function storedCart(userId: string, quantity: number, updatedAt: Date): Cart {
+  return {
+    userId,
+    items: [{ id: 'cheese', name: cheese.name, price: cheese.price, quantity, totalPrice: cheese.price * quantity }],
+    totalItems: quantity,
+    totalValue: cheese.price * quantity,
+    version: 1,
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+describe('inventoryCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    inventoryCache.clearAllReservations();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'));
+  });
+
+  afterEach(() => {
+    inventoryCache.clearAllReservations();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses to reserve more than is available to other carts', () => {
+    inventoryCache.reserve('alice', 'cheese', 20);
+
+    expect(() => inventoryCache.reserve('bob', 'cheese', 5)).toThrow(InsufficientStockError);
+    expect(inventoryCache.getAvailable(cheese, 'bob')).toBe(4);
+    // Alice's own reservation doesn't count against her
+    expect(inventoryCache.getAvailable(cheese, 'alice')).toBe(24);
+  });
+
+  it('restores reservations of stored carts when a cart cache opens the store', async () => {
+    const filePath = path.join(dir, 'carts.json');
+    const before = new FileCartStore(filePath);
+    await before.set(storedCart('alice', 20, new Date()));
+    await before.close();
+
+    // A restart: reservations are gone until the stored carts are read back
+    inventoryCache.clearAllReservations();
+    expect(inventoryCache.getAvailable(cheese, 'bob')).toBe(24);
+
+    await new CartCache({ store: new FileCartStore(filePath) }).open();
+
+    expect(inventoryCache.getReserved('alice', 'cheese')).toBe(20);
+    expect(inventoryCache.getAvailable(cheese, 'bob')).toBe(4);
+  });
+
+  it('does not restore reservations that have expired', async () => {
+    const store = new FileCartStore(path.join(dir, 'carts.json'));
+    await store.set(storedCart('alice', 20, new Date(Date.now() - 24 * 60 * 60 * 1000)));
+
+    await new CartCache({ store }).open();
+
+    expect(inventoryCache.getReserved('alice', 'cheese')).toBe(0);
+  });
+});
+
+describe('InventoryCache reservations and sales', () => {
+  const TTL_MS = 30 * 60 * 1000;
+  let clock: Date;
+  let inventory: InventoryCache;
+  let cache: CartCache;
+
+  beforeEach(() => {
+    clock = new Date('2025-01-15T10:00:00Z');
+    const now = () => clock;
+    inventory = new InventoryCache({ now, reservationTtlMs: TTL_MS });
+    cache = new CartCache({ store: new MemoryCartStore(), inventory, now });
+  });
+
+  afterEach(() => {
+    setCatalogProducts(PRODUCT_CATALOG);
+  });
+
+  it('holds lapsed lines again when the cart changes', async () => {
+    await cache.addItemToCart('alice', { id: 'cheese', name: cheese.name, price: cheese.price, quantity: 20, totalPrice: 0 });
+    clock = new Date(clock.getTime() + TTL_MS);
+    expect(inventory.getReserved('alice', 'cheese')).toBe(0);
+
+    const milk = getProductById('milk')!;
+    await cache.addItemToCart('alice', { id: 'milk', name: milk.name, price: milk.price, quantity: 1, totalPrice: 0 });
+
+    expect(inventory.getReservedItems('alice')).toEqual([{ id: 'cheese', quantity: 20 }, { id: 'milk', quantity: 1 }]);
+    expect(inventory.getAvailable(cheese, 'bob')).toBe(4);
+  });
+
+  it('refuses a change when a lapsed line no longer fits', async () => {
+    await cache.addItemToCart('alice', { id: 'cheese', name: cheese.name, price: cheese.price, quantity: 20, totalPrice: 0 });
+    clock = new Date(clock.getTime() + TTL_MS);
+    inventory.reserve('bob', 'cheese', 10);
+
+    const milk = getProductById('milk')!;
+    await expect(cache.addItemToCart('alice', { id: 'milk', name: milk.name, price: milk.price, quantity: 1, totalPrice: 0 }))
+      .rejects.toBeInstanceOf(InsufficientStockError);
+    expect(inventory.getReservedItems('alice')).toEqual([]);
+    expect((await cache.getUserCart('alice'))!.items.map(item => item.id)).toEqual(['cheese']);
+  });
+
+  it('keeps committed sales when the catalog stock changes', () => {
+    inventory.commit('alice', [{ id: 'cheese', quantity: 4 }]);
+    expect(inventory.getAvailable(cheese)).toBe(20);
+
+    setCatalogProducts(PRODUCT_CATALOG.map(product => product.id === 'cheese' ? { ...product, stock: 30 } : product));
+
+    expect(inventory.getAvailable(getProductById('cheese')!)).toBe(26);
+    inventory.restock([{ id: 'cheese', quantity: 4 }]);
+    expect(inventory.getAvailable(getProductById('cheese')!)).toBe(30);
+  });
+});
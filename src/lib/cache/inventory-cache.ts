@@ -0,0 +1,286 @@
+import { getProductById } from '../product-catalog.js';
+import type { Product } from '../product-catalog.js';
+
+/**
+ * Stock levels and cart reservations
+ *
+ * Putting an item in a cart reserves stock for it, so two shoppers can't
+ * both hold the last unit. Every change to a cart reserves all of its
+ * lines again (reserveCart), so lines whose reservation lapsed are held
+ * again or the change is refused. Reservations are released when items
+ * leave the cart, when a checkout fails, or when the cart sees no activity
+ * for CART_RESERVATION_TTL_MINUTES (default 30). A successful checkout
+ * turns the reservations into a sale, and cancelling the order puts the
+ * stock back. Sales are kept when a catalog reload changes a product's stock.
+ *
+ * Products without a `stock` count are untracked: only `inStock` applies.
+ *
+ * Stock levels and reservations live in process memory. With a persistent
+ * cart store (CART_STORE=file|redis) the reservations of stored carts are
+ * restored when CartCache opens the store, so a restart doesn't free units
+ * that are still in carts. Replicas sharing a Redis cart store still count
+ * stock separately: run a single replica while stock is tracked.
+ */
+
+
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly productId: string,
+    public readonly productName: string,
+    public readonly requested: number,   // Quantity the cart line would hold
+    public readonly available: number,   // Most this user's cart line can hold
+    public readonly inCart: number = 0,  // Quantity already in the user's cart
+  ) {
+    super(describeShortage(productName, available, inCart));
+    this.name = 'InsufficientStockError';
+  }
+}
+
+function describeShortage(productName: string, available: number, inCart: number): string {
+  if (available <= 0) {
+    return `${productName} is out of stock`;
+  }
+  if (inCart > 0) {
+    const canAdd = available - inCart;
+    return `Only ${available} ${productName} left in stock and you already have ${inCart} in your cart` +
+      (canAdd > 0 ? `; you can add ${canAdd} more` : '');
+  }
+  return `Only ${available} ${productName} left in stock`;
+}
+
+interface StockLevel {
+  catalogStock: number;  // `stock` from the catalog, updated on reloads
+  sold: number;          // Units checked out (net of restocks) since startup
+}
+
+interface Reservation {
+  items: Map<string, number>;  // productId -> quantity
+  expiresAt: number;
+}
+
+export interface CartLine {
+  id: string;
+  quantity: number;
+}
+
+interface InventoryCacheOptions {
+  now?: () => Date;            // Clock, replaceable in tests (pass CartCache the same one)
+  reservationTtlMs?: number;   // Default: CART_RESERVATION_TTL_MINUTES (30)
+}
+
+// Use globalThis to ensure persistence across API calls
+const globalForInventory = globalThis as unknown as {
+  inventoryCache: InventoryCache | undefined;
+};
+
+class InventoryCache {
+  private levels = new Map<string, StockLevel>();
+  private reservations = new Map<string, Reservation>();
+  private readonly now: () => Date;
+  private readonly reservationTtlMs?: number;
+
+  constructor(options: InventoryCacheOptions = {}) {
+    this.now = options.now || (() => new Date());
+    this.reservationTtlMs = options.reservationTtlMs;
+  }
+
+  getReservationTtlMs(): number {
+    return this.reservationTtlMs ?? Number(process.env.CART_RESERVATION_TTL_MINUTES || 30) * 60 * 1000;
+  }
+
+  /**
+   * Units that can still be reserved, excluding what `userId` itself holds
+   * (so the result is the most that user's cart line can contain)
+   * Returns Infinity for untracked products and 0 when not in stock
+   */
+  getAvailable(product: Product, userId?: string): number {
+    if (!product.inStock) return 0;
+
+    const level = this.getLevel(product);
+    if (!level) return Infinity;
+
+    this.purgeExpired();
+    let reserved = 0;
+    for (const [owner, reservation] of this.reservations) {
+      if (owner !== userId) {
+        reserved += reservation.items.get(product.id) || 0;
+      }
+    }
+    return Math.max(0, level.catalogStock - level.sold - reserved);
+  }
+
+  getReserved(userId: string, productId: string): number {
+    this.purgeExpired();
+    return this.reservations.get(userId)?.items.get(productId) || 0;
+  }
+
+  /**
+   * Every line currently reserved for a user's cart
+   */
+  getReservedItems(userId: string): CartLine[] {
+    this.purgeExpired();
+    return [...this.reservations.get(userId)?.items || []].map(([id, quantity]) => ({ id, quantity }));
+  }
+
+  /**
+   * Set the quantity of a product reserved for a user's cart
+   * Items that aren't in the catalog are not tracked and always succeed
+   *
+   * @throws InsufficientStockError if not enough stock is available
+   */
+  reserve(userId: string, productId: string, quantity: number): void {
+    const product = getProductById(productId);
+    if (!product) return;
+
+    const available = this.getAvailable(product, userId);
+    if (quantity > available) {
+      throw new InsufficientStockError(product.id, product.name, quantity, available,
+        this.getReserved(userId, product.id));
+    }
+
+    const reservation = this.reservations.get(userId) || { items: new Map<string, number>(), expiresAt: 0 };
+    reservation.items.set(product.id, quantity);
+    reservation.expiresAt = this.now().getTime() + this.getReservationTtlMs();
+    this.reservations.set(userId, reservation);
+  }
+
+  /**
+   * Reserve every line of a changed cart, replacing the user's reservation,
+   * so lines whose reservation lapsed are held again. Nothing changes
+   * unless every line fits the available stock.
+   *
+   * @throws InsufficientStockError for the first line that doesn't fit
+   */
+  reserveCart(userId: string, items: CartLine[]): void {
+    for (const item of items) {
+      const product = getProductById(item.id);
+      if (!product) continue;
+
+      const available = this.getAvailable(product, userId);
+      if (item.quantity > available) {
+        throw new InsufficientStockError(product.id, product.name, item.quantity, available,
+          this.getReserved(userId, product.id));
+      }
+    }
+    this.restore(userId, items, this.now());
+  }
+
+  /**
+   * Replace a user's reservation with a cart's lines (e.g. the stored carts
+   * on startup with a persistent cart store), as if taken when the cart was
+   * last updated. Not checked against stock: the units were already
+   * promised to the cart.
+   */
+  restore(userId: string, items: CartLine[], reservedAt: Date): void {
+    const expiresAt = reservedAt.getTime() + this.getReservationTtlMs();
+    const reserved = new Map<string, number>();
+    for (const item of items) {
+      const product = getProductById(item.id);
+      if (product) {
+        reserved.set(product.id, item.quantity);
+      }
+    }
+    if (expiresAt <= this.now().getTime() || reserved.size === 0) {
+      this.reservations.delete(userId);
+      return;
+    }
+
+    this.reservations.set(userId, { items: reserved, expiresAt });
+  }
+
+  release(userId: string, productId: string): void {
+    const reservation = this.reservations.get(userId);
+    if (!reservation) return;
+
+    reservation.items.delete(productId);
+    if (reservation.items.size === 0) {
+      this.reservations.delete(userId);
+    }
+  }
+
+  releaseAll(userId: string): void {
+    if (this.reservations.delete(userId)) {
+      console.error(`[inventory] Released reservations for ${userId}`);
+    }
+  }
+
+  /**
+   * Decrement stock for a checked-out cart and drop its reservations
+   * Lines whose reservation expired are re-checked against current stock;
+   * nothing is decremented unless every line can be fulfilled
+   *
+   * @throws InsufficientStockError if a line can no longer be fulfilled
+   */
+  commit(userId: string, items: CartLine[]): void {
+    const tracked: { level: StockLevel; quantity: number }[] = [];
+
+    for (const item of items) {
+      const product = getProductById(item.id);
+      if (!product) continue;
+
+      const available = this.getAvailable(product, userId);
+      if (item.quantity > available) {
+        throw new InsufficientStockError(product.id, product.name, item.quantity, available);
+      }
+
+      const level = this.getLevel(product);
+      if (level) {
+        tracked.push({ level, quantity: item.quantity });
+      }
+    }
+
+    tracked.forEach(({ level, quantity }) => {
+      level.sold += quantity;
+    });
+    this.reservations.delete(userId);
+  }
+
+  /**
+   * Put stock back for the lines of a cancelled order
+   */
+  restock(items: CartLine[]): void {
+    for (const item of items) {
+      const product = getProductById(item.id);
+      const level = product && this.getLevel(product);
+      if (level) {
+        level.sold -= item.quantity;
+      }
+    }
+  }
+
+  clearAllReservations(): void {
+    this.reservations.clear();
+  }
+
+  /**
+   * Stock level for a tracked product, seeded from the catalog when it is
+   * first seen. A catalog reload updates its stock; the units sold since
+   * still count against it.
+   */
+  private getLevel(product: Product): StockLevel | null {
+    if (product.stock === undefined) return null;
+
+    let level = this.levels.get(product.id);
+    if (!level) {
+      level = { catalogStock: product.stock, sold: 0 };
+      this.levels.set(product.id, level);
+    }
+    level.catalogStock = product.stock;
+    return level;
+  }
+
+  private purgeExpired(): void {
+    const now = this.now().getTime();
+    for (const [userId, reservation] of this.reservations) {
+      if (reservation.expiresAt <= now) {
+        this.reservations.delete(userId);
+        console.error(`[inventory] Reservations for ${userId} expired`);
+      }
+    }
+  }
+}
+
+// The process-wide instance; others (e.g. in tests) keep their own stock and reservations
+export const inventoryCache = globalForInventory.inventoryCache ??= new InventoryCache();
+export { InventoryCache };
+export type { InventoryCacheOptions };
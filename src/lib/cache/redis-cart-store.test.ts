@@ -0,0 +1,373 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CartCache, CartVersionConflictError } from './cart-cache.js';
+import type { Cart } from './cart-cache.js';
+import type { CartStore } from './cart-store.js';
+import { inventoryCache } from './inventory-cache.js';
+import { RedisCartStore, RespClient, RespError } from './redis-cart-store.js';
+
+/**
+ * Local stand-in for a Redis server: the RESP2 commands RedisCartStore
+ * uses, with WATCH/MULTI/EXEC per connection
+ */
+class FakeRedisServer {
+  readonly data = new Map<string, string>();
+  // Every command received, in order
+  readonly commands: string[][] = [];
+  password: string | null = null;
+  private revisions = new Map<string, number>();
+  private server = net.createServer(socket => this.serve(socket));
+  private sockets = new Set<net.Socket>();
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `redis://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.dropConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  dropConnections(): void {
+    this.sockets.forEach(socket => socket.destroy());
+  }
+
+  private serve(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    const connection = { watched: new Map<string, number>(), queued: null as string[][] | null };
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      for (;;) {
+        const parsed = parseCommand(buffer);
+        if (!parsed) return;
+        buffer = buffer.slice(parsed.end);
+        socket.write(this.execute(connection, parsed.args));
+      }
+    });
+  }
+
+  private execute(connection: { watched: Map<string, number>; queued: string[][] | null }, args: string[]): string {
+    const name = args[0].toUpperCase();
+    this.commands.push(args);
+    if (connection.queued && name !== 'EXEC') {
+      connection.queued.push(args);
+      return '+QUEUED\r\n';
+    }
+
+    switch (name) {
+      case 'WATCH':
+        args.slice(1).forEach(key => connection.watched.set(key, this.revisions.get(key) || 0));
+        return '+OK\r\n';
+      case 'UNWATCH':
+        connection.watched.clear();
+        return '+OK\r\n';
+      case 'MULTI':
+        connection.queued = [];
+        return '+OK\r\n';
+      case 'EXEC': {
+        const queued = connection.queued || [];
+        const changed = [...connection.watched].some(([key, revision]) => (this.revisions.get(key) || 0) !== revision);
+        connection.queued = null;
+        connection.watched.clear();
+        if (changed) return '*-1\r\n';
+        return `*${queued.length}\r\n${queued.map(command => this.run(command)).join('')}`;
+      }
+      default:
+        return this.run(args);
+    }
+  }
+
+  private run([name, ...args]: string[]): string {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        return args[args.length - 1] === this.password ? '+OK\r\n' : '-WRONGPASS invalid username-password pair\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'INCR': {
+        const value = Number(this.data.get(args[0]) || 0) + 1;
+        this.data.set(args[0], String(value));
+        this.touch(args[0]);
+        return `:${value}\r\n`;
+      }
+      case 'GET':
+        return bulk(this.data.get(args[0]));
+      case 'SET':
+        this.data.set(args[0], args[1]);
+        this.touch(args[0]);
+        return '+OK\r\n';
+      case 'DEL': {
+        const deleted = args.filter(key => this.data.delete(key));
+        deleted.forEach(key => this.touch(key));
+        return `:${deleted.length}\r\n`;
+      }
+      case 'MGET':
+        return `*${args.length}\r\n${args.map(key => bulk(this.data.get(key))).join('')}`;
+      case 'SCAN': {
+        const prefix = args[2].replace(/\*$/, '');
+        const keys = [...this.data.keys()].filter(key => key.startsWith(prefix));
+        return `*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+
+  private touch(key: string): void {
+    this.revisions.set(key, (this.revisions.get(key) || 0) + 1);
+  }
+}
+
+function bulk(value: string | undefined): string {
+  return value === undefined ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+// One array-of-bulk-strings command, or null until it is complete
+function parseCommand(buffer: string): { args: string[]; end: number } | null {
+  const header = /^\*(\d+)\r\n/.exec(buffer);
+  if (!header) return null;
+
+  const args: string[] = [];
+  let offset = header[0].length;
+  for (let i = 0; i < Number(header[1]); i++) {
+    const length = /^\$(\d+)\r\n/.exec(buffer.slice(offset));
+    if (!length) return null;
+    offset += length[0].length;
+    if (buffer.length < offset + Number(length[1]) + 2) return null;
+    args.push(buffer.slice(offset, offset + Number(length[1])));
+    offset += Number(length[1]) + 2;
+  }
+  return { args, end: offset };
+}
+
+function newCart(userId: string, version = 1): Cart {
+  const now = new Date('2025-01-15T10:00:00Z');
+  return {
+    userId,
+    items: [{ id: 'milk', name: 'Milk', price: 4.29, quantity: 2, totalPrice: 8.58 }],
+    totalItems: 2,
+    totalValue: 8.58,
+    version,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('RedisCartStore', () => {
+  let server: FakeRedisServer;
+  let url: string;
+  let stores: RedisCartStore[];
+
+  function openStore(): RedisCartStore {
+    const store = new RedisCartStore(url, 'test:cart:');
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    url = await server.start();
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(store => store.close()));
+    await server.stop();
+  });
+
+  it('round-trips carts under the key prefix', async () => {
+    const store = openStore();
+    await store.set(newCart('alice'));
+    await store.set(newCart('bob'));
+
+    const alice = await store.get('alice');
+    expect(alice?.items).toEqual(newCart('alice').items);
+    expect(alice?.updatedAt).toBeInstanceOf(Date);
+    expect(alice?.updatedAt.toISOString()).toBe('2025-01-15T10:00:00.000Z');
+    expect(server.data.has('test:cart:alice')).toBe(true);
+    expect((await store.list()).map(cart => cart.userId).sort()).toEqual(['alice', 'bob']);
+
+    expect(await store.delete('alice')).toBe(true);
+    expect(await store.delete('alice')).toBe(false);
+    expect(await store.get('alice')).toBeNull();
+
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('writes a cart only over the version before it', async () => {
+    const store = openStore();
+    await store.set(newCart('alice', 1));
+    await store.set(newCart('alice', 2));
+
+    await expect(store.set(newCart('alice', 2))).rejects.toBeInstanceOf(CartVersionConflictError);
+    await expect(store.set(newCart('bob', 3))).rejects.toMatchObject({ expectedVersion: 2, currentVersion: 0 });
+    expect((await store.get('alice'))?.version).toBe(2);
+  });
+
+  it('rejects the slower of two replicas writing the same cart', async () => {
+    const replicaA = openStore();
+    const replicaB = openStore();
+    await replicaA.set(newCart('alice', 1));
+
+    // Both replicas read version 1 and change it
+    const cartA = (await replicaA.get('alice'))!;
+    const cartB = (await replicaB.get('alice'))!;
+    cartA.items[0].quantity = 5;
+    cartA.version = 2;
+    cartB.items[0].quantity = 9;
+    cartB.version = 2;
+
+    await replicaA.set(cartA);
+    await expect(replicaB.set(cartB)).rejects.toMatchObject({
+      name: 'CartVersionConflictError',
+      expectedVersion: 1,
+      currentVersion: 2,
+    });
+    expect((await replicaB.get('alice'))?.items[0].quantity).toBe(5);
+  });
+
+  it('aborts a transaction when a watched key changes before EXEC', async () => {
+    const client = new RespClient(new URL(url));
+    const other = new RespClient(new URL(url));
+    try {
+      const replies = await client.transaction(['key'], async () => {
+        await other.command('SET', 'key', 'theirs');
+        return [['SET', 'key', 'mine']];
+      });
+
+      expect(replies).toBeNull();
+      expect(await client.command('GET', 'key')).toBe('theirs');
+      expect(await client.transaction(['key'], async () => [['SET', 'key', 'mine']])).toEqual(['OK']);
+      expect(await client.command('GET', 'key')).toBe('mine');
+    } finally {
+      await client.close();
+      await other.close();
+    }
+  });
+
+  it('keeps a cart consistent across two cart caches sharing the server', async () => {
+    const replicaA = new CartCache({ store: openStore() });
+    const replicaB = new CartCache({ store: openStore() });
+
+    await replicaA.addItemToCart('carol', { id: 'milk', price: 4.29, quantity: 1, totalPrice: 4.29 });
+    await replicaB.addItemToCart('carol', { id: 'bread', price: 3.49, quantity: 1, totalPrice: 3.49 });
+
+    const cart = await replicaA.getUserCart('carol');
+    expect(cart?.items.map(item => item.id)).toEqual(['milk', 'bread']);
+    expect(cart?.version).toBe(2);
+    inventoryCache.clearAllReservations();
+  });
+});
+
+describe('RespClient', () => {
+  let server: FakeRedisServer;
+  let url: string;
+  let clients: RespClient[];
+
+  function connect(clientUrl = url): RespClient {
+    const client = new RespClient(new URL(clientUrl));
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    url = await server.start();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await server.stop();
+  });
+
+  it('reads status, integer, bulk, nil and array replies', async () => {
+    const client = connect();
+
+    expect(await client.command('SET', 'a', 'apple')).toBe('OK');
+    expect(await client.command('INCR', 'count')).toBe(1);
+    expect(await client.command('GET', 'a')).toBe('apple');
+    expect(await client.command('GET', 'missing')).toBeNull();
+    expect(await client.command('MGET', 'a', 'missing', 'count')).toEqual(['apple', null, '1']);
+  });
+
+  it('rejects error replies with RespError and keeps the connection usable', async () => {
+    const client = connect();
+
+    const [failed, after] = await Promise.allSettled([client.command('FLY'), client.command('GET', 'a')]);
+
+    expect(failed).toMatchObject({ status: 'rejected', reason: { name: 'RespError', message: "ERR unknown command 'FLY'" } });
+    expect(failed.status === 'rejected' && failed.reason).toBeInstanceOf(RespError);
+    expect(after).toEqual({ status: 'fulfilled', value: null });
+  });
+
+  it('authenticates and selects the database from the URL', async () => {
+    server.password = 's3cret';
+    const client = connect(url.replace('redis://', 'redis://shop:s3cret@') + '/2');
+
+    expect(await client.command('GET', 'a')).toBeNull();
+    expect(server.commands.slice(0, 2)).toEqual([['AUTH', 'shop', 's3cret'], ['SELECT', '2']]);
+
+    const refused = connect(url.replace('redis://', 'redis://:wrong@'));
+    await expect(refused.command('GET', 'a')).rejects.toThrow('WRONGPASS');
+  });
+
+  it('unwatches when a transaction is abandoned', async () => {
+    const client = connect();
+
+    expect(await client.transaction(['a'], async () => null)).toBeNull();
+    await expect(client.transaction(['a'], async () => {
+      throw new Error('prepare failed');
+    })).rejects.toThrow('prepare failed');
+
+    // A later write to the key must not abort an unrelated transaction
+    await connect().command('SET', 'a', 'changed');
+    expect(await client.transaction(['b'], async () => [['SET', 'b', 'mine']])).toEqual(['OK']);
+    expect(server.commands.filter(([name]) => name === 'UNWATCH')).toHaveLength(2);
+  });
+
+  it('runs one transaction at a time on a connection', async () => {
+    const client = connect();
+    const increment = () => client.transaction(['count'], async () => {
+      const current = Number(await client.command('GET', 'count') || 0);
+      return [['SET', 'count', current + 1]];
+    });
+
+    expect(await Promise.all([increment(), increment(), increment()])).toEqual([['OK'], ['OK'], ['OK']]);
+    expect(server.data.get('count')).toBe('3');
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const client = connect();
+    await client.command('SET', 'a', 'apple');
+
+    server.dropConnections();
+    await expect.poll(async () => client.command('GET', 'a').catch(error => error.message)).toBe('apple');
+  });
+});
+
+describe('CartCache with a store that refuses a write', () => {
+  it('undoes the stock reservation taken for the change', async () => {
+    const refusing: CartStore = {
+      description: 'refusing',
+      get: async () => null,
+      set: async cart => {
+        throw new CartVersionConflictError(cart.userId, cart.version - 1, cart.version);
+      },
+      delete: async () => false,
+      list: async () => [],
+      clear: async () => {},
+    };
+    const cache = new CartCache({ store: refusing });
+
+    await expect(cache.addItemToCart('dave', { id: 'cheese', price: 5.99, quantity: 3, totalPrice: 17.97 }))
+      .rejects.toBeInstanceOf(CartVersionConflictError);
+    expect(inventoryCache.getReserved('dave', 'cheese')).toBe(0);
+  });
+});
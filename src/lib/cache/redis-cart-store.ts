@@ -0,0 +1,302 @@
+import net from 'net';
+
+import type { Cart } from './cart-cache.js';
+import type { CartStore } from './cart-store.js';
+import { CartVersionConflictError, reviveCart } from './cart-store.js';
+
+/**
+ * Cart store on a Redis-protocol server (Redis, Valkey, KeyDB, or a local
+ * stand-in that speaks RESP)
+ *
+ * Each cart is a JSON string under `${keyPrefix}${userId}`, written with
+ * WATCH/MULTI/EXEC only over the version it replaces. The client below
+ * implements just the RESP2 commands the store needs, so no Redis driver
+ * dependency is required.
+ */
+
+type RespReply = string | number | null | RespReply[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RespReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Minimal RESP2 client: pipelined commands over one lazily (re)opened
+ * connection, with AUTH and SELECT taken from the redis:// URL
+ */
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  // Tail of the running transactions (WATCH state belongs to the connection)
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly url: URL) {}
+
+  async command(...args: (string | number)[]): Promise<RespReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Optimistic transaction: WATCH `keys`, let `prepare` read them (with
+   * command()) and return the commands to run, then run those in
+   * MULTI/EXEC. Returns the EXEC replies, or null if `prepare` returned
+   * null or a watched key changed before EXEC.
+   */
+  transaction(
+    keys: string[],
+    prepare: () => Promise<(string | number)[][] | null>
+  ): Promise<RespReply[] | null> {
+    const run = this.transactions.then(async () => {
+      const socket = await this.connect();
+      await this.send(socket, ['WATCH', ...keys]);
+
+      let commands: (string | number)[][] | null;
+      try {
+        commands = await prepare();
+      } catch (error) {
+        await this.send(socket, ['UNWATCH']);
+        throw error;
+      }
+      if (!commands) {
+        await this.send(socket, ['UNWATCH']);
+        return null;
+      }
+
+      // Written back to back, so no other command lands inside the transaction
+      const replies = await Promise.all([
+        this.send(socket, ['MULTI']),
+        ...commands.map(command => this.send(socket, command)),
+        this.send(socket, ['EXEC']),
+      ]);
+      return replies[replies.length - 1] as RespReply[] | null;
+    });
+    this.transactions = run.catch(() => {});
+    return run;
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    this.connecting = null;
+    if (socket) {
+      await new Promise<void>(resolve => socket.end(resolve));
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<net.Socket> {
+    const socket = net.createConnection({
+      host: this.url.hostname || 'localhost',
+      port: Number(this.url.port || 6379),
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    });
+
+    this.buffer = Buffer.alloc(0);
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('error', error => this.failPending(error));
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      this.failPending(new Error('Redis connection closed'));
+    });
+
+    try {
+      const password = decodeURIComponent(this.url.password);
+      if (password) {
+        const username = decodeURIComponent(this.url.username);
+        await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      const db = this.url.pathname.slice(1);
+      if (db) {
+        await this.send(socket, ['SELECT', db]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RespReply> {
+    const parts = args.map(arg => {
+      const value = Buffer.from(String(arg));
+      return `$${value.length}\r\n${value}\r\n`;
+    });
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(`*${args.length}\r\n${parts.join('')}`);
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.end);
+      const command = this.pending.shift();
+      if (parsed.reply instanceof RespError) {
+        command?.reject(parsed.reply);
+      } else {
+        command?.resolve(parsed.reply);
+      }
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(command => command.reject(error));
+  }
+}
+
+/**
+ * Parse one reply starting at `offset`; returns null until it is complete
+ */
+function parseReply(buffer: Buffer, offset: number): { reply: RespReply | RespError; end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new RespError(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { reply: null, end: next };
+      const items: RespReply[] = [];
+      let error: RespError | undefined;
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return null;
+        if (item.reply instanceof RespError) {
+          error = error || item.reply;
+        } else {
+          items.push(item.reply);
+        }
+        end = item.end;
+      }
+      return { reply: error || items, end };
+    }
+    default:
+      return { reply: new RespError(`Unexpected RESP reply type "${type}"`), end: buffer.length };
+  }
+}
+
+export class RedisCartStore implements CartStore {
+  readonly description: string;
+  private client: RespClient;
+
+  constructor(redisUrl: string, private readonly keyPrefix = 'cart:') {
+    const url = new URL(redisUrl);
+    this.client = new RespClient(url);
+    this.description = `redis ${url.host}${url.pathname.length > 1 ? url.pathname : ''} (${keyPrefix}*)`;
+  }
+
+  async get(userId: string): Promise<Cart | null> {
+    const value = await this.client.command('GET', this.keyPrefix + userId);
+    return typeof value === 'string' ? reviveCart(JSON.parse(value)) : null;
+  }
+
+  // Compare-and-set on the cart version, so replicas sharing the server
+  // never overwrite each other's changes
+  async set(cart: Cart): Promise<void> {
+    const key = this.keyPrefix + cart.userId;
+    const expectedVersion = cart.version - 1;
+
+    let currentVersion = expectedVersion;
+    const replies = await this.client.transaction([key], async () => {
+      currentVersion = (await this.get(cart.userId))?.version ?? 0;
+      return currentVersion === expectedVersion ? [['SET', key, JSON.stringify(cart)]] : null;
+    });
+
+    if (!replies) {
+      // Changed between the read and EXEC: report the version now stored
+      if (currentVersion === expectedVersion) {
+        currentVersion = (await this.get(cart.userId))?.version ?? 0;
+      }
+      throw new CartVersionConflictError(cart.userId, expectedVersion, currentVersion);
+    }
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return (await this.client.command('DEL', this.keyPrefix + userId)) === 1;
+  }
+
+  async list(): Promise<Cart[]> {
+    const keys = await this.scanKeys();
+    if (keys.length === 0) return [];
+
+    const values = await this.client.command('MGET', ...keys) as RespReply[];
+    return values
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => reviveCart(JSON.parse(value)));
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scanKeys();
+    if (keys.length > 0) {
+      await this.client.command('DEL', ...keys);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await this.client.command(
+        'SCAN', cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', 100) as [string, string[]];
+      keys.push(...batch);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+    return [...new Set(keys)];
+  }
+}
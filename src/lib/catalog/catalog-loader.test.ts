@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { loadCatalog, loadSynonymsFile, watchCatalog } from './catalog-loader.js';
+import type { CatalogLoadResult, CatalogSource } from './catalog-source.js';
+import { PRODUCT_CATALOG, getAllProducts, getProductById, setCatalogProducts } from '../product-catalog.js';
+
+/** Source whose next load returns (or throws) `next`, with a watch callback the test triggers */
+class FakeCatalogSource implements CatalogSource {
+  readonly description = 'fake catalog';
+  next: CatalogLoadResult | Error = { products: [], errors: [] };
+  onChange: (() => void) | null = null;
+  loads = 0;
+
+  async load(): Promise<CatalogLoadResult> {
+    this.loads++;
+    if (this.next instanceof Error) throw this.next;
+    return this.next;
+  }
+
+  watch(onChange: () => void): () => void {
+    this.onChange = onChange;
+    return () => {
+      this.onChange = null;
+    };
+  }
+}
+
+const milk = PRODUCT_CATALOG.find(product => product.id === 'milk')!;
+const cola = PRODUCT_CATALOG.find(product => product.id === 'cola')!;
+
+describe('catalog loader', () => {
+  afterEach(() => {
+    setCatalogProducts(PRODUCT_CATALOG);
+  });
+
+  it('activates the loaded products, skipping rejected rows', async () => {
+    const source = new FakeCatalogSource();
+    source.next = { products: [milk], errors: [{ row: 2, id: 'cola', errors: ['price: Required'] }] };
+
+    expect((await loadCatalog(source)).errors).toHaveLength(1);
+    expect(getAllProducts()).toEqual([milk]);
+    expect(getProductById('cola')).toBeNull();
+  });
+
+  it('reloads when the source changes and keeps the catalog when a reload fails', async () => {
+    const source = new FakeCatalogSource();
+    source.next = { products: [milk], errors: [] };
+    await loadCatalog(source);
+    const stop = watchCatalog(source);
+
+    source.next = { products: [milk, cola], errors: [] };
+    source.onChange!();
+    await expect.poll(() => getAllProducts().length).toBe(2);
+
+    source.next = new Error('Unexpected end of JSON input');
+    source.onChange!();
+    await expect.poll(() => source.loads).toBe(3);
+    expect(getAllProducts()).toEqual([milk, cola]);
+
+    stop();
+    expect(source.onChange).toBeNull();
+  });
+
+  it('does nothing to watch for sources that never change', () => {
+    const stop = watchCatalog({ description: 'static', load: async () => ({ products: [], errors: [] }) });
+
+    expect(stop).toBeTypeOf('function');
+    stop();
+  });
+});
+
+describe('loadSynonymsFile', () => {
+  let directory: string;
+  let files = 0;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'synonyms-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  async function synonymsFile(contents: unknown): Promise<string> {
+    const filePath = path.join(directory, `synonyms-${++files}.json`);
+    await fs.promises.writeFile(filePath, JSON.stringify(contents));
+    return filePath;
+  }
+
+  it('reads synonym groups from arrays or term maps', async () => {
+    expect(await loadSynonymsFile(await synonymsFile([['soda', 'pop']]))).toEqual([['soda', 'pop']]);
+    expect(await loadSynonymsFile(await synonymsFile({ soda: ['pop', 'cola'] }))).toEqual([['soda', 'pop', 'cola']]);
+  });
+
+  it('rejects tables that are not lists of words', async () => {
+    const filePath = await synonymsFile([['soda', 1]]);
+
+    await expect(loadSynonymsFile(filePath)).rejects.toThrow(`Invalid synonym table in ${filePath}`);
+  });
+});
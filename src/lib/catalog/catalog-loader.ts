@@ -0,0 +1,110 @@
+import fs from 'fs';
+
+import { setCatalogProducts, setSearchSynonyms } from '../product-catalog.js';
+import { DEFAULT_SYNONYMS } from './search-index.js';
+import {
+  CatalogLoadResult,
+  CatalogSource,
+  FileCatalogSource,
+  StaticCatalogSource,
+} from './catalog-source.js';
+
+/**
+ * Loads the active product catalog from a CatalogSource and keeps it
+ * up to date when the source changes (hot reload)
+ *
+ * Configuration:
+ * - CATALOG_FILE: JSON or CSV file to load (default: built-in sample catalog)
+ * - CATALOG_WATCH: set to 'false' to disable hot reload of CATALOG_FILE
+ * - SEARCH_SYNONYMS_FILE: JSON synonym table, either an array of groups
+ *   ([["soda", "pop"]]) or a map ({ "soda": ["pop"] }); added to the defaults
+ */
+
+let stopWatching: (() => void) | null = null;
+
+/**
+ * Catalog source from configuration: CATALOG_FILE points to a JSON or CSV
+ * file, otherwise the built-in sample catalog is used
+ */
+export function createCatalogSourceFromEnv(): CatalogSource {
+  const catalogFile = process.env.CATALOG_FILE;
+  return catalogFile ? new FileCatalogSource(catalogFile) : new StaticCatalogSource();
+}
+
+/**
+ * Load and activate the catalog, reporting rejected rows
+ */
+export async function loadCatalog(source: CatalogSource): Promise<CatalogLoadResult> {
+  const result = await source.load();
+
+  result.errors.forEach(error => {
+    console.error(`[catalog] Skipped row ${error.row}${error.id ? ` (${error.id})` : ''}: ${error.errors.join('; ')}`);
+  });
+
+  setCatalogProducts(result.products);
+  console.error(`[catalog] Loaded ${result.products.length} products from ${source.description}` +
+    (result.errors.length > 0 ? ` (${result.errors.length} rows rejected)` : ''));
+
+  return result;
+}
+
+/**
+ * Reload the catalog whenever the source changes
+ * If a reload fails (e.g. a half-written file), the previous catalog stays active
+ */
+export function watchCatalog(source: CatalogSource): () => void {
+  if (!source.watch) {
+    return () => {};
+  }
+
+  return source.watch(() => {
+    console.error(`[catalog] Change detected in ${source.description}, reloading`);
+    loadCatalog(source).catch((error: any) => {
+      console.error(`[catalog] Reload failed, keeping previous catalog: ${error.message}`);
+    });
+  });
+}
+
+/**
+ * Read a synonym table file into synonym groups
+ */
+export async function loadSynonymsFile(filePath: string): Promise<string[][]> {
+  const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+
+  const groups: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Object.entries(parsed).map(([term, synonyms]) => [term, ...(Array.isArray(synonyms) ? synonyms : [])]);
+
+  if (!groups.every(group => Array.isArray(group) && group.every(term => typeof term === 'string'))) {
+    throw new Error(`Invalid synonym table in ${filePath}`);
+  }
+  return groups as string[][];
+}
+
+/**
+ * Load the configured catalog at startup and start hot reload
+ */
+export async function initializeCatalog(): Promise<void> {
+  const synonymsFile = process.env.SEARCH_SYNONYMS_FILE;
+  if (synonymsFile) {
+    const groups = await loadSynonymsFile(synonymsFile);
+    setSearchSynonyms([...DEFAULT_SYNONYMS, ...groups]);
+    console.error(`[catalog] Loaded ${groups.length} synonym groups from ${synonymsFile}`);
+  }
+
+  const source = createCatalogSourceFromEnv();
+  await loadCatalog(source);
+
+  if (source.watch && process.env.CATALOG_WATCH !== 'false') {
+    stopWatching = watchCatalog(source);
+    console.error(`[catalog] Watching ${source.description} for changes`);
+  }
+}
+
+/**
+ * Stop hot reload (for clean shutdown)
+ */
+export function stopCatalogWatch(): void {
+  stopWatching?.();
+  stopWatching = null;
+}
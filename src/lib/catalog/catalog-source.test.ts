@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { FileCatalogSource, StaticCatalogSource, parseCsv, validateProductRecords } from './catalog-source.js';
+import { PRODUCT_CATALOG } from '../product-catalog.js';
+
+const CSV_HEADER = 'id,name,brand,description,size,unit,sku,upc,imageUrl,tags,dietary,price,category,inStock,stock';
+
+function record(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'bread',
+    name: 'Sourdough Bread',
+    size: 24,
+    unit: 'oz',
+    sku: 'SW-BAK-0001',
+    upc: '012345678905',
+    price: 5.49,
+    category: 'Bakery',
+    inStock: true,
+    ...overrides,
+  };
+}
+
+describe('parseCsv', () => {
+  it('reads records keyed by the header row', () => {
+    expect(parseCsv('id,name\r\nmilk,Milk\n\ncola,Cola')).toEqual([
+      { id: 'milk', name: 'Milk' },
+      { id: 'cola', name: 'Cola' },
+    ]);
+  });
+
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    expect(parseCsv('id,description\nbread,"Crusty, ""artisan""\nloaf"\n')).toEqual([
+      { id: 'bread', description: 'Crusty, "artisan"\nloaf' },
+    ]);
+  });
+
+  it('fills missing cells and reads nothing from an empty file', () => {
+    expect(parseCsv('id,name,brand\nmilk,Milk')).toEqual([{ id: 'milk', name: 'Milk', brand: '' }]);
+    expect(parseCsv('\n \n')).toEqual([]);
+  });
+});
+
+describe('validateProductRecords', () => {
+  it('coerces CSV strings into products', () => {
+    const [row] = parseCsv(`${CSV_HEADER}\nbread,Sourdough Bread,,,24,oz,SW-BAK-0001,012345678905,,bread|loaf,vegan | kosher,5.49,Bakery,yes,12`);
+
+    expect(validateProductRecords([row])).toEqual({
+      products: [expect.objectContaining({
+        id: 'bread',
+        brand: '',
+        size: 24,
+        tags: ['bread', 'loaf'],
+        dietary: ['vegan', 'kosher'],
+        price: 5.49,
+        inStock: true,
+        stock: 12,
+      })],
+      errors: [],
+    });
+    expect(validateProductRecords([row]).products[0].imageUrl).toBeUndefined();
+  });
+
+  it('skips invalid rows and duplicate ids, keeping the rest', () => {
+    const result = validateProductRecords([
+      record(),
+      record({ id: 'rye', upc: '12AB', price: -1 }),
+      record({ id: 'BREAD' }),
+      record({ id: 'bagel', dietary: ['paleo'] }),
+      'not a product',
+    ]);
+
+    expect(result.products.map(product => product.id)).toEqual(['bread']);
+    expect(result.errors).toEqual([
+      { row: 2, id: 'rye', errors: ['upc: UPC must be 8-14 digits', 'price: Number must be greater than or equal to 0'] },
+      { row: 3, id: 'BREAD', errors: ['id: duplicate product id "BREAD"'] },
+      { row: 4, id: 'bagel', errors: [expect.stringMatching(/^dietary\.0: Invalid enum value/)] },
+      { row: 5, id: undefined, errors: ['record: Expected object, received string'] },
+    ]);
+  });
+
+  it('accepts the built-in sample catalog', async () => {
+    const result = await new StaticCatalogSource().load();
+
+    expect(result.errors).toEqual([]);
+    expect(result.products).toHaveLength(PRODUCT_CATALOG.length);
+  });
+});
+
+describe('FileCatalogSource', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'catalog-source-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  async function writeFile(name: string, contents: string): Promise<string> {
+    const filePath = path.join(directory, name);
+    await fs.promises.writeFile(filePath, contents);
+    return filePath;
+  }
+
+  it('loads JSON arrays and { products } objects', async () => {
+    const array = new FileCatalogSource(await writeFile('array.json', JSON.stringify([record()])));
+    const wrapped = new FileCatalogSource(await writeFile('wrapped.json', JSON.stringify({ products: [record()] })));
+
+    expect((await array.load()).products.map(product => product.id)).toEqual(['bread']);
+    expect((await wrapped.load()).products.map(product => product.id)).toEqual(['bread']);
+    expect(array.description).toBe(path.join(directory, 'array.json'));
+  });
+
+  it('loads CSV files', async () => {
+    const source = new FileCatalogSource(await writeFile('catalog.csv',
+      `${CSV_HEADER}\nbread,Sourdough Bread,,,24,oz,SW-BAK-0001,012345678905,,,,5.49,Bakery,true,\n`));
+
+    expect((await source.load()).products).toEqual([expect.objectContaining({ id: 'bread', stock: undefined })]);
+  });
+
+  it('rejects unsupported files and JSON without products', async () => {
+    expect(() => new FileCatalogSource(path.join(directory, 'catalog.xml'))).toThrow('Unsupported catalog file type ".xml"');
+
+    const source = new FileCatalogSource(await writeFile('catalog.json', '{"items": []}'));
+    await expect(source.load()).rejects.toThrow('Catalog JSON must be an array of products');
+  });
+
+  it('reports changes to the file, once per burst of writes', async () => {
+    const filePath = await writeFile('catalog.json', '[]');
+    await writeFile('other.json', '[]');
+    let changes = 0;
+    const stop = new FileCatalogSource(filePath).watch(() => changes++);
+
+    try {
+      await fs.promises.writeFile(path.join(directory, 'other.json'), '[1]');
+      await fs.promises.writeFile(filePath, '[1]');
+      await fs.promises.writeFile(filePath, '[2]');
+
+      await expect.poll(() => changes, { timeout: 3000 }).toBe(1);
+      await new Promise(resolve => setTimeout(resolve, 400));
+      expect(changes).toBe(1);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+import { DIETARY_ATTRIBUTES, PRODUCT_CATALOG } from '../product-catalog.js';
+import type { Product } from '../product-catalog.js';
+
+/**
+ * Catalog data sources
+ *
+ * A CatalogSource supplies product records. Every record is validated
+ * against productRecordSchema; invalid rows are reported in the load
+ * result and skipped instead of failing the whole load.
+ */
+
+export interface CatalogRowError {
+  row: number;           // 1-based record number (CSV: data row, header excluded)
+  id?: string;
+  errors: string[];
+}
+
+export interface CatalogLoadResult {
+  products: Product[];
+  errors: CatalogRowError[];
+}
+
+export interface CatalogSource {
+  /** Human-readable description for logs (e.g. the file path) */
+  readonly description: string;
+  /** Read and validate all records */
+  load(): Promise<CatalogLoadResult>;
+  /** Call onChange when the underlying data changes; returns a stop function */
+  watch?(onChange: () => void): () => void;
+}
+
+// CSV cells and JSON values may arrive as strings, so coerce where sensible
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const listField = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (value) => typeof value === 'string'
+    ? value.split('|').map(part => part.trim()).filter(Boolean)
+    : emptyToUndefined(value),
+  z.array(item).default([])
+);
+
+const booleanField = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return value;
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(normalized)) return true;
+    if (['false', 'no', '0'].includes(normalized)) return false;
+    return value;
+  },
+  z.boolean()
+);
+
+export const productRecordSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  brand: z.preprocess(emptyToUndefined, z.string().default('')),
+  description: z.preprocess(emptyToUndefined, z.string().default('')),
+  size: z.coerce.number().positive(),
+  unit: z.string().trim().min(1),
+  sku: z.string().trim().min(1),
+  upc: z.string().trim().regex(/^\d{8,14}$/, 'UPC must be 8-14 digits'),
+  imageUrl: z.preprocess(emptyToUndefined, z.string().url().optional()),
+  tags: listField(z.string()),
+  dietary: listField(z.enum(DIETARY_ATTRIBUTES)),
+  price: z.coerce.number().nonnegative(),
+  category: z.string().trim().min(1),
+  inStock: booleanField,
+  stock: z.preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+});
+
+/**
+ * Validate raw records, collecting per-row errors and rejecting duplicate IDs
+ */
+export function validateProductRecords(records: unknown[]): CatalogLoadResult {
+  const products: Product[] = [];
+  const errors: CatalogRowError[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const id = record && typeof record === 'object' ? (record as any).id : undefined;
+    const parsed = productRecordSchema.safeParse(record);
+
+    if (!parsed.success) {
+      errors.push({
+        row,
+        id: typeof id === 'string' ? id : undefined,
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+      });
+      return;
+    }
+
+    if (seenIds.has(parsed.data.id.toLowerCase())) {
+      errors.push({ row, id: parsed.data.id, errors: [`id: duplicate product id "${parsed.data.id}"`] });
+      return;
+    }
+
+    seenIds.add(parsed.data.id.toLowerCase());
+    products.push(parsed.data);
+  });
+
+  return { products, errors };
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, newlines in quotes)
+ * into records keyed by the header row
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  const nonEmpty = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const [header, ...data] = nonEmpty;
+  const keys = header.map(key => key.trim());
+  return data.map(cells =>
+    Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? '']))
+  );
+}
+
+/**
+ * Built-in sample catalog
+ */
+export class StaticCatalogSource implements CatalogSource {
+  readonly description = 'built-in sample catalog';
+
+  constructor(private records: unknown[] = PRODUCT_CATALOG) {}
+
+  async load(): Promise<CatalogLoadResult> {
+    return validateProductRecords(this.records);
+  }
+}
+
+/**
+ * JSON (array of products, or { products: [...] }) or CSV file on disk
+ */
+export class FileCatalogSource implements CatalogSource {
+  readonly description: string;
+  private readonly filePath: string;
+  private readonly format: 'json' | 'csv';
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.description = this.filePath;
+
+    const extension = path.extname(this.filePath).toLowerCase();
+    if (extension !== '.json' && extension !== '.csv') {
+      throw new Error(`Unsupported catalog file type "${extension}" (expected .json or .csv)`);
+    }
+    this.format = extension === '.json' ? 'json' : 'csv';
+  }
+
+  async load(): Promise<CatalogLoadResult> {
+    const text = await fs.promises.readFile(this.filePath, 'utf8');
+
+    if (this.format === 'csv') {
+      return validateProductRecords(parseCsv(text));
+    }
+
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.products;
+    if (!Array.isArray(records)) {
+      throw new Error('Catalog JSON must be an array of products or { "products": [...] }');
+    }
+    return validateProductRecords(records);
+  }
+
+  /**
+   * Watch the containing directory so editors that save by replacing the
+   * file (rename) are still picked up; changes are debounced
+   */
+  watch(onChange: () => void): () => void {
+    const directory = path.dirname(this.filePath);
+    const fileName = path.basename(this.filePath);
+    let timer: NodeJS.Timeout | undefined;
+
+    const watcher = fs.watch(directory, (_event, changed) => {
+      if (changed && changed.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(onChange, 200);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+}
+
@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+
+import { getAllProducts, searchProductsRanked } from '../product-catalog.js';
+import { inventoryCache } from '../cache/inventory-cache.js';
+import type { Product } from '../product-catalog.js';
+
+/**
+ * Filtered, faceted, sorted and paginated product queries
+ *
+ * Facet counts are disjunctive: category counts ignore the category
+ * filter and brand counts ignore the brand filter, so clients can show
+ * how many results each alternative would give.
+ */
+
+export const PRODUCT_SORT_ORDERS = ['relevance', 'price_asc', 'price_desc', 'unit_price', 'name'] as const;
+export type ProductSortOrder = typeof PRODUCT_SORT_ORDERS[number];
+
+export interface ProductQuery {
+  query?: string;
+  category?: string;
+  brand?: string;
+  dietary?: string;         // One of DIETARY_ATTRIBUTES
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: ProductSortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ProductWithUnitPrice extends Product {
+  unitPrice?: number;       // Price per base unit, when the unit is known
+  unitPriceUnit?: string;   // "oz", "fl oz" or "each"
+  availableQuantity?: number; // Unreserved stock, when stock is tracked
+}
+
+export interface ProductQueryResult {
+  products: ProductWithUnitPrice[];
+  total: number;            // Matches before pagination
+  facets: {
+    categories: FacetCount[];
+    brands: FacetCount[];
+  };
+  nextCursor?: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid or expired cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Conversion of package units to a comparable base unit
+const UNIT_CONVERSIONS: Record<string, { factor: number; base: string }> = {
+  oz: { factor: 1, base: 'oz' },
+  lb: { factor: 16, base: 'oz' },
+  g: { factor: 0.035274, base: 'oz' },
+  kg: { factor: 35.274, base: 'oz' },
+  'fl oz': { factor: 1, base: 'fl oz' },
+  pt: { factor: 16, base: 'fl oz' },
+  qt: { factor: 32, base: 'fl oz' },
+  gal: { factor: 128, base: 'fl oz' },
+  ml: { factor: 0.033814, base: 'fl oz' },
+  l: { factor: 33.814, base: 'fl oz' },
+  ct: { factor: 1, base: 'each' },
+  each: { factor: 1, base: 'each' },
+};
+
+/**
+ * Price per base unit (oz, fl oz or each), rounded to 4 decimals
+ */
+export function getUnitPrice(product: Product): { unitPrice: number; unitPriceUnit: string } | undefined {
+  const conversion = UNIT_CONVERSIONS[product.unit.toLowerCase()];
+  if (!conversion || product.size <= 0) {
+    return undefined;
+  }
+  return {
+    unitPrice: Math.round((product.price / (product.size * conversion.factor)) * 10000) / 10000,
+    unitPriceUnit: conversion.base,
+  };
+}
+
+// inStock reflects reservations: a product whose stock is all in carts
+// is reported as out of stock
+function withAvailability(product: Product): Product & { availableQuantity?: number } {
+  const available = inventoryCache.getAvailable(product);
+  return {
+    ...product,
+    inStock: available > 0,
+    ...(Number.isFinite(available) && { availableQuantity: available }),
+  };
+}
+
+function countFacet(products: Product[], key: 'category' | 'brand'): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    if (product[key]) {
+      counts.set(product[key], (counts.get(product[key]) || 0) + 1);
+    }
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+function sortProducts(products: ProductWithUnitPrice[], sort: ProductSortOrder): ProductWithUnitPrice[] {
+  const sorted = [...products];
+  switch (sort) {
+    case 'price_asc':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'price_desc':
+      return sorted.sort((a, b) => b.price - a.price);
+    case 'unit_price':
+      // Unknown units sort last
+      return sorted.sort((a, b) =>
+        (a.unitPrice ?? Infinity) - (b.unitPrice ?? Infinity));
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case 'relevance':
+    default:
+      return sorted;
+  }
+}
+
+// Cursors are tied to the query they were issued for so they can't be
+// replayed against different filters
+function getQueryKey(query: ProductQuery): string {
+  const { cursor: _cursor, limit: _limit, ...rest } = query;
+  return createHash('sha256').update(JSON.stringify(rest)).digest('base64url').slice(0, 12);
+}
+
+function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, k: key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, key: string): number {
+  try {
+    const { o, k } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof o === 'number' && Number.isInteger(o) && o >= 0 && k === key) {
+      return o;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Run a product query against the active catalog
+ *
+ * @throws InvalidCursorError if the cursor is malformed or from another query
+ */
+export function queryProducts(query: ProductQuery): ProductQueryResult {
+  const sort = query.sort || 'relevance';
+  const limit = query.limit ?? 10;
+  const key = getQueryKey({ ...query, sort });
+  const offset = query.cursor ? decodeCursor(query.cursor, key) : 0;
+
+  // Text matches in relevance order, or the whole catalog when browsing
+  const matches = (query.query?.trim()
+    ? searchProductsRanked(query.query).map(result => result.product)
+    : getAllProducts()).map(withAvailability);
+
+  const category = query.category?.toLowerCase();
+  const brand = query.brand?.toLowerCase();
+  const dietary = query.dietary?.toLowerCase();
+
+  // Filters shared by every facet
+  const baseFiltered = matches.filter(p =>
+    (query.minPrice === undefined || p.price >= query.minPrice) &&
+    (query.maxPrice === undefined || p.price <= query.maxPrice) &&
+    (!query.inStock || p.inStock) &&
+    (!dietary || p.dietary.some(attribute => attribute.toLowerCase() === dietary))
+  );
+
+  const matchesCategory = (p: Product) => !category || p.category.toLowerCase() === category;
+  const matchesBrand = (p: Product) => !brand || p.brand.toLowerCase() === brand;
+
+  const filtered = baseFiltered
+    .filter(p => matchesCategory(p) && matchesBrand(p))
+    .map(p => ({ ...p, ...getUnitPrice(p) }));
+
+  const sorted = sortProducts(filtered, sort);
+  const page = sorted.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+
+  return {
+    products: page,
+    total: sorted.length,
+    facets: {
+      categories: countFacet(baseFiltered.filter(matchesBrand), 'category'),
+      brands: countFacet(baseFiltered.filter(matchesCategory), 'brand'),
+    },
+    ...(nextOffset < sorted.length && { nextCursor: encodeCursor(nextOffset, key) }),
+  };
+}
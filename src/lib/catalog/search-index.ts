@@ -0,0 +1,261 @@
+import type { Product } from '../product-catalog.js';
+
+/**
+ * In-memory product search index
+ *
+ * Products are tokenized per field and stemmed into an inverted index.
+ * Query terms match index terms exactly, by prefix, or within a small edit
+ * distance (typos), and are expanded through a synonym table. Scores are
+ * weighted by field so a hit in the name outranks a hit in the category.
+ */
+
+export type SearchField = 'name' | 'brand' | 'tags' | 'dietary' | 'category' | 'id' | 'description';
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  id: 2.5,
+  brand: 2,
+  tags: 1.5,
+  dietary: 1.5,
+  category: 1,
+  description: 0.5,
+};
+
+// Match quality multipliers
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+const SYNONYM_MATCH = 0.8;
+
+/**
+ * Groups of interchangeable terms; a query for any term also searches the
+ * others. Multi-word entries must match all their words.
+ */
+export const DEFAULT_SYNONYMS: string[][] = [
+  ['soda', 'pop', 'cola', 'soft drink'],
+  ['2%', 'reduced fat'],
+  ['skim', 'fat free', 'nonfat'],
+  ['produce', 'fruit', 'vegetable'],
+  ['cheese', 'cheddar'],
+  ['veggie', 'vegetable'],
+  ['chips', 'crisps'],
+];
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+  matchedTerms: number;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+/**
+ * Split text into lowercase tokens, keeping percent signs ("2%")
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9%]+/).filter(Boolean);
+}
+
+/**
+ * Light suffix-stripping stemmer for English grocery terms
+ * Like Porter, a final y/ie/ies becomes i so "berry"/"berries" and
+ * "cookie"/"cookies" share a stem
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  if (token.endsWith('ies')) return token.slice(0, -2);
+  if (token.endsWith('ie')) return token.slice(0, -1);
+  if (/[^aeiou]y$/.test(token)) return token.slice(0, -1) + 'i';
+  if (token.endsWith('oes')) return token.slice(0, -2);
+  if (/(s|x|z|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  if (token.endsWith('ing') && token.length > 5) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 4) return token.slice(0, -2);
+  return token;
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once
+ * the distance exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Allowed typos grow with word length
+function maxTypos(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+export class ProductSearchIndex {
+  private products: Product[] = [];
+  private postings = new Map<string, Posting[]>();
+  private synonyms = new Map<string, string[][]>();
+
+  constructor(products: Product[] = [], synonyms: string[][] = DEFAULT_SYNONYMS) {
+    this.setSynonyms(synonyms);
+    this.build(products);
+  }
+
+  /**
+   * (Re)build the index for a product list
+   */
+  build(products: Product[]): void {
+    this.products = products;
+    this.postings.clear();
+
+    products.forEach((product, doc) => {
+      const fields: Record<SearchField, string[]> = {
+        name: [product.name],
+        id: [product.id],
+        brand: [product.brand],
+        tags: product.tags,
+        dietary: product.dietary,
+        category: [product.category],
+        description: [product.description],
+      };
+
+      for (const [field, values] of Object.entries(fields) as [SearchField, string[]][]) {
+        for (const term of new Set(values.flatMap(value => tokenize(value).map(stem)))) {
+          const list = this.postings.get(term) || [];
+          list.push({ doc, field });
+          this.postings.set(term, list);
+        }
+      }
+    });
+  }
+
+  /**
+   * Replace the synonym table; each group's members expand to each other
+   */
+  setSynonyms(groups: string[][]): void {
+    this.synonyms.clear();
+    for (const group of groups) {
+      const phrases = group.map(phrase => tokenize(phrase).map(stem)).filter(words => words.length > 0);
+      for (const phrase of phrases) {
+        // Only single-word entries can be looked up from a query term
+        if (phrase.length !== 1) continue;
+        const others = phrases.filter(other => other !== phrase);
+        this.synonyms.set(phrase[0], [...(this.synonyms.get(phrase[0]) || []), ...others]);
+      }
+    }
+  }
+
+  /**
+   * Ranked search: documents matching more query terms come first, then by score
+   */
+  search(query: string, limit?: number): SearchResult[] {
+    const terms = [...new Set(tokenize(query).map(stem))];
+    if (terms.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matchedTerms: number }>();
+
+    for (const term of terms) {
+      const termScores = this.scoreTerm(term);
+
+      // Synonyms count a little less than the term itself
+      for (const phrase of this.synonyms.get(term) || []) {
+        for (const [doc, score] of this.scorePhrase(phrase)) {
+          termScores.set(doc, Math.max(termScores.get(doc) || 0, score * SYNONYM_MATCH));
+        }
+      }
+
+      for (const [doc, score] of termScores) {
+        const entry = scores.get(doc) || { score: 0, matchedTerms: 0 };
+        entry.score += score;
+        entry.matchedTerms += 1;
+        scores.set(doc, entry);
+      }
+    }
+
+    const results = Array.from(scores, ([doc, { score, matchedTerms }]) => ({
+      product: this.products[doc],
+      score: Math.round(score * 1000) / 1000,
+      matchedTerms,
+    }));
+
+    results.sort((a, b) =>
+      b.matchedTerms - a.matchedTerms ||
+      b.score - a.score ||
+      a.product.name.localeCompare(b.product.name)
+    );
+
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * Best weighted score per document for one query term
+   */
+  private scoreTerm(term: string): Map<number, number> {
+    const result = new Map<number, number>();
+    const typos = maxTypos(term);
+
+    for (const [indexTerm, postings] of this.postings) {
+      let quality = 0;
+      if (indexTerm === term) {
+        quality = EXACT_MATCH;
+      } else if (term.length >= 3 && indexTerm.startsWith(term)) {
+        quality = PREFIX_MATCH;
+      } else if (typos > 0) {
+        const distance = editDistance(term, indexTerm, typos);
+        if (distance <= typos) {
+          quality = FUZZY_MATCH / distance;
+        }
+      }
+
+      if (quality === 0) continue;
+
+      for (const { doc, field } of postings) {
+        const score = quality * FIELD_WEIGHTS[field];
+        if (score > (result.get(doc) || 0)) {
+          result.set(doc, score);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A multi-word phrase matches a document only if all its words do;
+   * the phrase scores as its weakest word
+   */
+  private scorePhrase(words: string[]): Map<number, number> {
+    const [first, ...rest] = words.map(word => this.scoreTerm(word));
+    for (const [doc, score] of first) {
+      const others = rest.map(scores => scores.get(doc) || 0);
+      if (others.some(score => score === 0)) {
+        first.delete(doc);
+      } else {
+        first.set(doc, Math.min(score, ...others));
+      }
+    }
+    return first;
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { AuthorizationNotFoundError, CheckoutAuthorizations } from './checkout-authorizations.js';
+import type { CheckoutAuthorization } from './checkout-authorizations.js';
+import type { CibaPollResult, CibaProvider } from './ciba-provider.js';
+
+/**
+ * Provider that answers polls from a script (pending until told otherwise)
+ * and counts them
+ */
+class ScriptedProvider implements CibaProvider {
+  readonly description = 'scripted';
+  polls = 0;
+  next: CibaPollResult = { status: 'pending' };
+
+  async requestAuthorization() {
+    return { authReqId: 'req-1', expiresIn: 120, interval: 5 };
+  }
+
+  async pollAuthorization(): Promise<CibaPollResult> {
+    this.polls++;
+    return this.next;
+  }
+}
+
+describe('CheckoutAuthorizations polling (get_checkout_status)', () => {
+  let clock: Date;
+  let provider: ScriptedProvider;
+  let settled: CheckoutAuthorization[];
+  let authorizations: CheckoutAuthorizations;
+
+  function advance(seconds: number): void {
+    clock = new Date(clock.getTime() + seconds * 1000);
+  }
+
+  beforeEach(() => {
+    clock = new Date('2025-01-15T10:00:00Z');
+    provider = new ScriptedProvider();
+    settled = [];
+    authorizations = new CheckoutAuthorizations({
+      provider,
+      onSettled: async (authorization) => {
+        settled.push(authorization);
+      },
+      now: () => clock,
+      pollTickMs: 60 * 60 * 1000,   // Only the refreshes below poll
+    });
+  });
+
+  afterEach(async () => {
+    await authorizations.close();
+  });
+
+  it('polls no more often than the interval', async () => {
+    const { authorizationId } = await authorizations.start('alice', 'ord_1', 'Approve order');
+
+    advance(4);
+    expect((await authorizations.refresh('alice', authorizationId)).status).toBe('pending');
+    expect(provider.polls).toBe(0);
+
+    advance(1);
+    expect((await authorizations.refresh('alice', authorizationId)).status).toBe('pending');
+    expect(provider.polls).toBe(1);
+    expect((await authorizations.refresh('alice', authorizationId)).status).toBe('pending');
+    expect(provider.polls).toBe(1);
+  });
+
+  it('adds 5 seconds to the interval when asked to slow down', async () => {
+    const { authorizationId } = await authorizations.start('alice', 'ord_1', 'Approve order');
+    provider.next = { status: 'pending', slowDown: true };
+
+    advance(5);
+    expect((await authorizations.refresh('alice', authorizationId)).pollIntervalSeconds).toBe(10);
+    provider.next = { status: 'pending' };
+    advance(9);
+    await authorizations.refresh('alice', authorizationId);
+    expect(provider.polls).toBe(1);
+  });
+
+  it('settles once when the user approves', async () => {
+    const { authorizationId } = await authorizations.start('alice', 'ord_1', 'Approve order');
+    provider.next = { status: 'approved', accessToken: 'token' };
+
+    advance(5);
+    const [first, second] = await Promise.all([
+      authorizations.refresh('alice', authorizationId),
+      authorizations.refresh('alice', authorizationId),
+    ]);
+    advance(5);
+    await authorizations.refresh('alice', authorizationId);
+
+    expect(first.status).toBe('approved');
+    expect(second.status).toBe('approved');
+    expect(first.settledAt).toBe('2025-01-15T10:00:05.000Z');
+    expect(provider.polls).toBe(1);
+    expect(settled).toEqual([expect.objectContaining({ authorizationId, orderId: 'ord_1', status: 'approved' })]);
+    expect(authorizations.hasPending()).toBe(false);
+  });
+
+  it('keeps the reason a request was denied', async () => {
+    const { authorizationId } = await authorizations.start('alice', 'ord_1', 'Approve order');
+    provider.next = { status: 'denied', reason: 'Not me' };
+
+    advance(5);
+    expect(await authorizations.refresh('alice', authorizationId))
+      .toEqual(expect.objectContaining({ status: 'denied', reason: 'Not me' }));
+    expect(settled.map(authorization => authorization.status)).toEqual(['denied']);
+  });
+
+  it('expires without asking the provider once the deadline passes', async () => {
+    const { authorizationId, expiresAt } = await authorizations.start('alice', 'ord_1', 'Approve order');
+    expect(expiresAt).toBe('2025-01-15T10:02:00.000Z');
+
+    advance(120);
+    expect((await authorizations.refresh('alice', authorizationId)).status).toBe('expired');
+    expect(provider.polls).toBe(0);
+    expect(settled.map(authorization => authorization.status)).toEqual(['expired']);
+  });
+
+  it('hides authorizations from other users', async () => {
+    const { authorizationId } = await authorizations.start('alice', 'ord_1', 'Approve order');
+
+    await expect(authorizations.refresh('bob', authorizationId)).rejects.toBeInstanceOf(AuthorizationNotFoundError);
+    await expect(authorizations.refresh('alice', 'auth_unknown')).rejects.toBeInstanceOf(AuthorizationNotFoundError);
+  });
+
+  it('settles pending requests from the background poller', async () => {
+    await authorizations.start('alice', 'ord_1', 'Approve order');
+    provider.next = { status: 'approved', accessToken: 'token' };
+
+    advance(5);
+    await authorizations.pollPending();
+
+    expect(settled.map(authorization => authorization.status)).toEqual(['approved']);
+  });
+});
@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+
+import type { CibaPollResult, CibaProvider } from './ciba-provider.js';
+
+/**
+ * Checkout authorizations waiting on a CIBA approval
+ *
+ * start() sends the backchannel request and returns at once with a pending
+ * authorization. The provider is then polled, no more often than the
+ * interval it asked for, both in the background and whenever a caller
+ * refreshes the authorization (get_checkout_status). When the user
+ * approves or denies the request, or it expires, onSettled runs once so
+ * the caller can place or cancel the order.
+ *
+ * Events are logged with the same names as traceAuthorizationEvent in
+ * lib/tracing.ts: request, approved, denied and timeout.
+ */
+
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type CheckoutAuthorizationStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export interface CheckoutAuthorization {
+  authorizationId: string;
+  userId: string;
+  orderId: string;
+  status: CheckoutAuthorizationStatus;
+  bindingMessage: string;
+  createdAt: string;
+  expiresAt: string;
+  pollIntervalSeconds: number;
+  settledAt?: string;
+  reason?: string;             // Why it was denied
+}
+
+interface TrackedAuthorization extends CheckoutAuthorization {
+  authReqId: string;
+  nextPollAt: number;
+  polling?: Promise<void>;
+}
+
+export interface CheckoutAuthorizationsOptions {
+  provider: CibaProvider;
+  onSettled: (authorization: CheckoutAuthorization) => Promise<void>;
+  now?: () => Date;            // Clock, replaceable in tests
+  pollTickMs?: number;         // How often the background poller looks for due requests
+}
+
+export class AuthorizationNotFoundError extends Error {
+  constructor(public readonly authorizationId: string) {
+    super(`Checkout authorization ${authorizationId} not found`);
+    this.name = 'AuthorizationNotFoundError';
+  }
+}
+
+function traceCibaEvent(
+  eventType: 'request' | 'approved' | 'denied' | 'timeout',
+  authorization: CheckoutAuthorization,
+): void {
+  console.error(`[ciba] ${eventType.toUpperCase()}:`, JSON.stringify({
+    authorizationId: authorization.authorizationId,
+    userId: authorization.userId,
+    orderId: authorization.orderId,
+    timestamp: new Date().toISOString(),
+  }));
+}
+
+// Strip the provider's request id and polling state
+function toPublic({ authReqId, nextPollAt, polling, ...authorization }: TrackedAuthorization): CheckoutAuthorization {
+  return { ...authorization };
+}
+
+export class CheckoutAuthorizations {
+  private authorizations = new Map<string, TrackedAuthorization>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly now: () => Date;
+
+  constructor(private readonly options: CheckoutAuthorizationsOptions) {
+    this.now = options.now || (() => new Date());
+  }
+
+  get description(): string {
+    return this.options.provider.description;
+  }
+
+  /**
+   * Send the backchannel authorization request for an order
+   */
+  async start(userId: string, orderId: string, bindingMessage: string): Promise<CheckoutAuthorization> {
+    const started = await this.options.provider.requestAuthorization({ userId, bindingMessage });
+    const now = this.now();
+
+    const authorization: TrackedAuthorization = {
+      authorizationId: `auth_${randomUUID()}`,
+      userId,
+      orderId,
+      status: 'pending',
+      bindingMessage,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + started.expiresIn * 1000).toISOString(),
+      pollIntervalSeconds: started.interval,
+      authReqId: started.authReqId,
+      nextPollAt: now.getTime() + started.interval * 1000,
+    };
+    this.purgeSettled();
+    this.authorizations.set(authorization.authorizationId, authorization);
+    traceCibaEvent('request', authorization);
+
+    this.startPoller();
+    return toPublic(authorization);
+  }
+
+  /**
+   * A user's authorization, polled first if a poll is due
+   *
+   * @throws AuthorizationNotFoundError (also for other users' authorizations)
+   */
+  async refresh(userId: string, authorizationId: string): Promise<CheckoutAuthorization> {
+    const authorization = this.authorizations.get(authorizationId);
+    if (!authorization || authorization.userId !== userId) {
+      throw new AuthorizationNotFoundError(authorizationId);
+    }
+
+    await this.pollIfDue(authorization);
+    return toPublic(authorization);
+  }
+
+  /**
+   * Poll every pending authorization that is due; run by the background poller
+   */
+  async pollPending(): Promise<void> {
+    const pending = [...this.authorizations.values()].filter(authorization => authorization.status === 'pending');
+    await Promise.all(pending.map(authorization => this.pollIfDue(authorization)));
+
+    if (!this.hasPending()) {
+      this.stopPoller();
+    }
+  }
+
+  hasPending(): boolean {
+    return [...this.authorizations.values()].some(authorization => authorization.status === 'pending');
+  }
+
+  stopPoller(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stopPoller();
+    await Promise.all([...this.authorizations.values()].map(authorization => authorization.polling));
+    await this.options.provider.close?.();
+  }
+
+  private startPoller(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.pollPending().catch(error => {
+        console.error('[ciba] Background poll failed:', error);
+      });
+    }, this.options.pollTickMs ?? 1000);
+    // Don't keep the process alive just for the poller
+    this.pollTimer.unref();
+  }
+
+  // Settled authorizations stay readable for a day, then are dropped
+  private purgeSettled(): void {
+    const cutoff = this.now().getTime() - SETTLED_RETENTION_MS;
+    for (const [id, authorization] of this.authorizations) {
+      if (authorization.settledAt && Date.parse(authorization.settledAt) < cutoff) {
+        this.authorizations.delete(id);
+      }
+    }
+  }
+
+  // One poll at a time per authorization; concurrent callers share it
+  private async pollIfDue(authorization: TrackedAuthorization): Promise<void> {
+    if (authorization.polling) {
+      return authorization.polling;
+    }
+    if (authorization.status !== 'pending') return;
+
+    const now = this.now().getTime();
+    if (now >= Date.parse(authorization.expiresAt)) {
+      authorization.polling = this.settle(authorization, { status: 'expired' });
+    } else if (now >= authorization.nextPollAt) {
+      authorization.polling = this.poll(authorization);
+    } else {
+      return;
+    }
+
+    try {
+      await authorization.polling;
+    } finally {
+      authorization.polling = undefined;
+    }
+  }
+
+  private async poll(authorization: TrackedAuthorization): Promise<void> {
+    let result: CibaPollResult;
+    try {
+      result = await this.options.provider.pollAuthorization(authorization.authReqId);
+    } catch (error: any) {
+      // Transient failures: keep the request and try again next interval
+      console.error(`[ciba] Poll for ${authorization.authorizationId} failed:`, error.message);
+      authorization.nextPollAt = this.now().getTime() + authorization.pollIntervalSeconds * 1000;
+      return;
+    }
+
+    if (result.status === 'pending') {
+      if (result.slowDown) {
+        // RFC 8628 / CIBA: add 5 seconds to the interval on slow_down
+        authorization.pollIntervalSeconds += 5;
+      }
+      authorization.nextPollAt = this.now().getTime() + authorization.pollIntervalSeconds * 1000;
+      return;
+    }
+
+    await this.settle(authorization, result);
+  }
+
+  private async settle(authorization: TrackedAuthorization, result: Exclude<CibaPollResult, { status: 'pending' }>): Promise<void> {
+    authorization.status = result.status;
+    authorization.settledAt = this.now().toISOString();
+    if (result.status === 'denied' && result.reason) {
+      authorization.reason = result.reason;
+    }
+    traceCibaEvent(result.status === 'expired' ? 'timeout' : result.status, authorization);
+
+    try {
+      await this.options.onSettled(toPublic(authorization));
+    } catch (error) {
+      console.error(`[ciba] Settling ${authorization.authorizationId} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { CIBA_GRANT_TYPE, MockCibaServer } from './mock-ciba-server.js';
+import type { MockCibaDecision } from './mock-ciba-server.js';
+
+/**
+ * CIBA (Client Initiated Backchannel Authentication) providers
+ *
+ * A provider starts a backchannel authorization request for a user (who
+ * approves it on their own device) and reports on it when polled. The
+ * provider is chosen with CIBA_PROVIDER:
+ *   mock  a MockCibaServer started in-process (default)
+ *   http  any OpenID Connect CIBA server in poll mode (e.g. Auth0), at
+ *         CIBA_BC_AUTHORIZE_URL / CIBA_TOKEN_URL
+ *   none  no authorization; checkout places orders immediately
+ */
+
+export interface CibaAuthorizationRequest {
+  userId: string;
+  bindingMessage: string;    // Shown on the user's device
+}
+
+export interface CibaAuthorizationStarted {
+  authReqId: string;
+  expiresIn: number;         // Seconds
+  interval: number;          // Minimum seconds between polls
+}
+
+export type CibaPollResult =
+  | { status: 'pending'; slowDown?: boolean }
+  | { status: 'approved'; accessToken: string }
+  | { status: 'denied'; reason?: string }
+  | { status: 'expired' };
+
+export interface CibaProvider {
+  readonly description: string;
+  requestAuthorization(request: CibaAuthorizationRequest): Promise<CibaAuthorizationStarted>;
+  pollAuthorization(authReqId: string): Promise<CibaPollResult>;
+  close?(): Promise<void>;
+}
+
+export interface HttpCibaProviderConfig {
+  backchannelAuthenticationEndpoint: string;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;            // Must include openid (added if missing)
+  audience?: string;
+  issuer?: string;           // Sends login_hint in Auth0's iss_sub format when set
+}
+
+/**
+ * CIBA poll mode over HTTP (OpenID Connect CIBA Core 1.0)
+ */
+export class HttpCibaProvider implements CibaProvider {
+  readonly description: string;
+
+  constructor(private readonly config: HttpCibaProviderConfig) {
+    this.description = `CIBA at ${config.backchannelAuthenticationEndpoint}`;
+  }
+
+  async requestAuthorization({ userId, bindingMessage }: CibaAuthorizationRequest): Promise<CibaAuthorizationStarted> {
+    const scopes = new Set((this.config.scope || 'openid').split(' ').filter(Boolean));
+    scopes.add('openid');
+
+    const form = this.clientCredentials();
+    form.set('scope', [...scopes].join(' '));
+    form.set('login_hint', this.config.issuer
+      ? JSON.stringify({ format: 'iss_sub', iss: this.config.issuer, sub: userId })
+      : userId);
+    form.set('binding_message', bindingMessage);
+    if (this.config.audience) {
+      form.set('audience', this.config.audience);
+    }
+
+    const { status, body } = await postForm(this.config.backchannelAuthenticationEndpoint, form);
+    if (status !== 200 || typeof body.auth_req_id !== 'string') {
+      throw new Error(`CIBA authorization request failed (${status}): ${body.error_description || body.error || 'no auth_req_id'}`);
+    }
+
+    return {
+      authReqId: body.auth_req_id,
+      expiresIn: Number(body.expires_in) || 300,
+      interval: Number(body.interval) || 5,
+    };
+  }
+
+  async pollAuthorization(authReqId: string): Promise<CibaPollResult> {
+    const form = this.clientCredentials();
+    form.set('grant_type', CIBA_GRANT_TYPE);
+    form.set('auth_req_id', authReqId);
+
+    const { status, body } = await postForm(this.config.tokenEndpoint, form);
+    if (status === 200 && typeof body.access_token === 'string') {
+      return { status: 'approved', accessToken: body.access_token };
+    }
+
+    switch (body.error) {
+      case 'authorization_pending':
+        return { status: 'pending' };
+      case 'slow_down':
+        return { status: 'pending', slowDown: true };
+      case 'access_denied':
+        return { status: 'denied', reason: body.error_description };
+      case 'expired_token':
+        return { status: 'expired' };
+      default:
+        throw new Error(`CIBA token request failed (${status}): ${body.error_description || body.error || 'unexpected response'}`);
+    }
+  }
+
+  private clientCredentials(): URLSearchParams {
+    const form = new URLSearchParams({ client_id: this.config.clientId });
+    if (this.config.clientSecret) {
+      form.set('client_secret', this.config.clientSecret);
+    }
+    return form;
+  }
+}
+
+/**
+ * HttpCibaProvider against a MockCibaServer, started on first use
+ */
+export class MockCibaProvider implements CibaProvider {
+  readonly description = 'mock CIBA server';
+  private provider: Promise<HttpCibaProvider> | null = null;
+
+  constructor(readonly server: MockCibaServer = new MockCibaServer()) {}
+
+  async requestAuthorization(request: CibaAuthorizationRequest): Promise<CibaAuthorizationStarted> {
+    return (await this.getProvider()).requestAuthorization(request);
+  }
+
+  async pollAuthorization(authReqId: string): Promise<CibaPollResult> {
+    return (await this.getProvider()).pollAuthorization(authReqId);
+  }
+
+  async close(): Promise<void> {
+    await this.server.close();
+    this.provider = null;
+  }
+
+  private getProvider(): Promise<HttpCibaProvider> {
+    if (!this.provider) {
+      this.provider = this.server.start().then((url) => {
+        console.error(`[ciba] Mock authorization server on ${url} ` +
+          `(approve with POST ${url}/requests/{auth_req_id}/approve)`);
+        return new HttpCibaProvider({
+          backchannelAuthenticationEndpoint: `${url}/bc-authorize`,
+          tokenEndpoint: `${url}/token`,
+          clientId: 'mock-client',
+        });
+      });
+      this.provider.catch(() => {
+        this.provider = null;
+      });
+    }
+    return this.provider;
+  }
+}
+
+/**
+ * Provider from CIBA_PROVIDER; null for 'none'
+ */
+export function createCibaProviderFromEnv(): CibaProvider | null {
+  const kind = (process.env.CIBA_PROVIDER || 'mock').toLowerCase();
+
+  switch (kind) {
+    case 'none':
+      return null;
+
+    case 'mock':
+      return new MockCibaProvider(new MockCibaServer({
+        port: Number(process.env.CIBA_MOCK_PORT || 0),
+        decision: (process.env.CIBA_MOCK_DECISION || 'approve') as MockCibaDecision,
+        decisionDelayMs: Number(process.env.CIBA_MOCK_DECISION_DELAY_SECONDS ?? 5) * 1000,
+      }));
+
+    case 'http': {
+      const backchannelAuthenticationEndpoint = process.env.CIBA_BC_AUTHORIZE_URL;
+      const tokenEndpoint = process.env.CIBA_TOKEN_URL || process.env.OAUTH2_TOKEN_ENDPOINT;
+      const clientId = process.env.CIBA_CLIENT_ID || process.env.OAUTH2_CLIENT_ID;
+      if (!backchannelAuthenticationEndpoint || !tokenEndpoint || !clientId) {
+        throw new Error('CIBA_PROVIDER=http requires CIBA_BC_AUTHORIZE_URL, CIBA_TOKEN_URL and CIBA_CLIENT_ID');
+      }
+      return new HttpCibaProvider({
+        backchannelAuthenticationEndpoint,
+        tokenEndpoint,
+        clientId,
+        clientSecret: process.env.CIBA_CLIENT_SECRET || process.env.OAUTH2_CLIENT_SECRET,
+        scope: process.env.CIBA_SCOPE,
+        audience: process.env.CIBA_AUDIENCE,
+        issuer: process.env.CIBA_ISSUER,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown CIBA_PROVIDER: ${kind} (expected mock, http or none)`);
+  }
+}
+
+async function postForm(url: string, form: URLSearchParams): Promise<{ status: number; body: Record<string, any> }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: form.toString(),
+    signal: AbortSignal.timeout(10000),
+  });
+
+  let body: Record<string, any> = {};
+  try {
+    body = await response.json() as Record<string, any>;
+  } catch {
+    // Non-JSON error page
+  }
+  return { status: response.status, body };
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { HttpCibaProvider } from './ciba-provider.js';
+import { MockCibaServer } from './mock-ciba-server.js';
+import type { MockCibaServerOptions } from './mock-ciba-server.js';
+
+const request = { userId: 'alice', bindingMessage: 'Approve Safeway order 1234abcd for 29.95 USD' };
+
+describe('MockCibaServer', () => {
+  let server: MockCibaServer;
+
+  // An HttpCibaProvider talking to a fresh mock server
+  async function startProvider(options: MockCibaServerOptions): Promise<HttpCibaProvider> {
+    server = new MockCibaServer(options);
+    const url = await server.start();
+    return new HttpCibaProvider({
+      backchannelAuthenticationEndpoint: `${url}/bc-authorize`,
+      tokenEndpoint: `${url}/token`,
+      clientId: 'test-client',
+    });
+  }
+
+  afterEach(async () => {
+    await server.close();
+    vi.useRealTimers();
+  });
+
+  it('issues a token once the request is approved', async () => {
+    const provider = await startProvider({ decision: 'manual', intervalSeconds: 0 });
+    const started = await provider.requestAuthorization(request);
+
+    expect(await provider.pollAuthorization(started.authReqId)).toEqual({ status: 'pending' });
+    expect(server.getPendingRequests()).toEqual([
+      expect.objectContaining({ authReqId: started.authReqId, loginHint: 'alice', bindingMessage: request.bindingMessage }),
+    ]);
+
+    expect(server.approve(started.authReqId)).toBe(true);
+    expect(await provider.pollAuthorization(started.authReqId)).toEqual({
+      status: 'approved',
+      accessToken: expect.any(String),
+    });
+    // The token is issued once
+    await expect(provider.pollAuthorization(started.authReqId)).rejects.toThrow(/already used/);
+  });
+
+  it('approves and denies through the device endpoints', async () => {
+    const provider = await startProvider({ decision: 'manual' });
+    const approved = await provider.requestAuthorization(request);
+    const denied = await provider.requestAuthorization(request);
+
+    const listed = await (await fetch(`${server.url}/requests`)).json();
+    expect(listed.requests.map((pending: any) => pending.auth_req_id)).toEqual([approved.authReqId, denied.authReqId]);
+
+    expect((await fetch(`${server.url}/requests/${approved.authReqId}/approve`, { method: 'POST' })).status).toBe(200);
+    expect((await fetch(`${server.url}/requests/${denied.authReqId}/deny`, { method: 'POST' })).status).toBe(200);
+    expect((await fetch(`${server.url}/requests/${denied.authReqId}/approve`, { method: 'POST' })).status).toBe(404);
+
+    expect((await provider.pollAuthorization(approved.authReqId)).status).toBe('approved');
+    expect(await provider.pollAuthorization(denied.authReqId)).toEqual({
+      status: 'denied',
+      reason: 'The user denied the request',
+    });
+  });
+
+  it('decides automatically after the delay', async () => {
+    const provider = await startProvider({ decision: 'deny', decisionDelayMs: 0 });
+    const started = await provider.requestAuthorization(request);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect((await provider.pollAuthorization(started.authReqId)).status).toBe('denied');
+  });
+
+  it('reports expiry and no longer accepts a decision', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider = await startProvider({ decision: 'manual', expiresInSeconds: 60 });
+    const started = await provider.requestAuthorization(request);
+    expect(started.expiresIn).toBe(60);
+
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    expect(server.approve(started.authReqId)).toBe(false);
+    expect(server.getPendingRequests()).toEqual([]);
+    expect(await provider.pollAuthorization(started.authReqId)).toEqual({ status: 'expired' });
+  });
+
+  it('asks clients polling faster than the interval to slow down', async () => {
+    const provider = await startProvider({ decision: 'manual', intervalSeconds: 5 });
+    const started = await provider.requestAuthorization(request);
+
+    expect(await provider.pollAuthorization(started.authReqId)).toEqual({ status: 'pending' });
+    expect(await provider.pollAuthorization(started.authReqId)).toEqual({ status: 'pending', slowDown: true });
+  });
+});
@@ -0,0 +1,248 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+
+/**
+ * Mock CIBA authorization server for development and tests
+ *
+ * Implements the poll mode of OpenID Connect CIBA:
+ *   POST /bc-authorize             start a request (form: client_id, login_hint,
+ *                                  scope incl. openid, binding_message)
+ *   POST /token                    poll (grant_type=urn:openid:params:grant-type:ciba,
+ *                                  auth_req_id)
+ * plus endpoints that stand in for the user's device:
+ *   GET  /requests                 pending requests with their binding messages
+ *   POST /requests/{id}/approve
+ *   POST /requests/{id}/deny
+ *
+ * With decision 'approve' or 'deny' every request is decided automatically
+ * after decisionDelayMs; with 'manual' it waits for the endpoints above
+ * (or approve()/deny()) until it expires.
+ */
+
+export type MockCibaDecision = 'approve' | 'deny' | 'manual';
+
+export interface MockCibaServerOptions {
+  host?: string;
+  port?: number;              // 0 picks a free port
+  decision?: MockCibaDecision;
+  decisionDelayMs?: number;
+  expiresInSeconds?: number;
+  intervalSeconds?: number;
+}
+
+type MockRequestStatus = 'pending' | 'approved' | 'denied' | 'issued';
+
+interface MockCibaRequest {
+  authReqId: string;
+  clientId: string;
+  loginHint: string;
+  bindingMessage?: string;
+  status: MockRequestStatus;
+  createdAt: number;
+  expiresAt: number;
+  lastPolledAt?: number;
+}
+
+export const CIBA_GRANT_TYPE = 'urn:openid:params:grant-type:ciba';
+
+export class MockCibaServer {
+  private server: http.Server | null = null;
+  private requests = new Map<string, MockCibaRequest>();
+  private timers = new Set<NodeJS.Timeout>();
+  private readonly options: Required<MockCibaServerOptions>;
+
+  constructor(options: MockCibaServerOptions = {}) {
+    this.options = {
+      host: options.host ?? '127.0.0.1',
+      port: options.port ?? 0,
+      decision: options.decision ?? 'approve',
+      decisionDelayMs: options.decisionDelayMs ?? 5000,
+      expiresInSeconds: options.expiresInSeconds ?? 300,
+      intervalSeconds: options.intervalSeconds ?? 2,
+    };
+  }
+
+  /**
+   * Start listening; resolves with the base URL
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch((error) => {
+          console.error('[mock-ciba] Request failed:', error);
+          sendJson(res, 500, { error: 'server_error' });
+        });
+      });
+      this.server = server;
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.options.port, this.options.host, () => resolve());
+      });
+      // Don't keep the process alive just for the mock
+      server.unref();
+    }
+    return this.url;
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock CIBA server is not running');
+    }
+    return `http://${this.options.host}:${address.port}`;
+  }
+
+  approve(authReqId: string): boolean {
+    return this.decide(authReqId, 'approved');
+  }
+
+  deny(authReqId: string): boolean {
+    return this.decide(authReqId, 'denied');
+  }
+
+  getPendingRequests(): MockCibaRequest[] {
+    return [...this.requests.values()].filter(request => request.status === 'pending' && request.expiresAt > Date.now());
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private decide(authReqId: string, status: 'approved' | 'denied'): boolean {
+    const request = this.requests.get(authReqId);
+    if (!request || request.status !== 'pending' || request.expiresAt <= Date.now()) {
+      return false;
+    }
+    request.status = status;
+    console.error(`[mock-ciba] ${authReqId} ${status}`);
+    return true;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'POST' && url.pathname === '/bc-authorize') {
+      return this.handleAuthorize(await readForm(req), res);
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return this.handleToken(await readForm(req), res);
+    }
+    if (req.method === 'GET' && url.pathname === '/requests') {
+      return sendJson(res, 200, {
+        requests: this.getPendingRequests().map(request => ({
+          auth_req_id: request.authReqId,
+          login_hint: request.loginHint,
+          binding_message: request.bindingMessage,
+          expires_at: new Date(request.expiresAt).toISOString(),
+        })),
+      });
+    }
+
+    const decision = /^\/requests\/([^/]+)\/(approve|deny)$/.exec(url.pathname);
+    if (req.method === 'POST' && decision) {
+      const authReqId = decodeURIComponent(decision[1]);
+      const decided = decision[2] === 'approve' ? this.approve(authReqId) : this.deny(authReqId);
+      return decided
+        ? sendJson(res, 200, { auth_req_id: authReqId, status: decision[2] === 'approve' ? 'approved' : 'denied' })
+        : sendJson(res, 404, { error: 'not_found', error_description: 'No pending request with that id' });
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  }
+
+  private handleAuthorize(form: URLSearchParams, res: http.ServerResponse): void {
+    const clientId = form.get('client_id');
+    const loginHint = form.get('login_hint');
+    if (!clientId) {
+      return sendJson(res, 401, { error: 'invalid_client', error_description: 'client_id is required' });
+    }
+    if (!loginHint) {
+      return sendJson(res, 400, { error: 'invalid_request', error_description: 'login_hint is required' });
+    }
+    if (!(form.get('scope') || '').split(' ').includes('openid')) {
+      return sendJson(res, 400, { error: 'invalid_scope', error_description: 'scope must include openid' });
+    }
+
+    const now = Date.now();
+    const request: MockCibaRequest = {
+      authReqId: randomUUID(),
+      clientId,
+      loginHint,
+      bindingMessage: form.get('binding_message') || undefined,
+      status: 'pending',
+      createdAt: now,
+      expiresAt: now + this.options.expiresInSeconds * 1000,
+    };
+    this.requests.set(request.authReqId, request);
+    console.error(`[mock-ciba] Authorization requested for ${loginHint}: ${request.authReqId}` +
+      (request.bindingMessage ? ` ("${request.bindingMessage}")` : ''));
+
+    if (this.options.decision !== 'manual') {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.decide(request.authReqId, this.options.decision === 'approve' ? 'approved' : 'denied');
+      }, this.options.decisionDelayMs);
+      timer.unref();
+      this.timers.add(timer);
+    }
+
+    sendJson(res, 200, {
+      auth_req_id: request.authReqId,
+      expires_in: this.options.expiresInSeconds,
+      interval: this.options.intervalSeconds,
+    });
+  }
+
+  private handleToken(form: URLSearchParams, res: http.ServerResponse): void {
+    if (form.get('grant_type') !== CIBA_GRANT_TYPE) {
+      return sendJson(res, 400, { error: 'unsupported_grant_type' });
+    }
+
+    const request = this.requests.get(form.get('auth_req_id') || '');
+    if (!request || request.status === 'issued' || request.clientId !== form.get('client_id')) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown or already used auth_req_id' });
+    }
+
+    const now = Date.now();
+    if (request.expiresAt <= now) {
+      return sendJson(res, 400, { error: 'expired_token' });
+    }
+    if (request.status === 'denied') {
+      return sendJson(res, 400, { error: 'access_denied', error_description: 'The user denied the request' });
+    }
+    if (request.status === 'pending') {
+      const tooSoon = request.lastPolledAt !== undefined &&
+        now - request.lastPolledAt < this.options.intervalSeconds * 1000;
+      request.lastPolledAt = now;
+      return sendJson(res, 400, { error: tooSoon ? 'slow_down' : 'authorization_pending' });
+    }
+
+    request.status = 'issued';
+    sendJson(res, 200, {
+      access_token: randomUUID(),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'openid',
+    });
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: Record<string, any>): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk.toString();
+  }
+  return new URLSearchParams(body);
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InvalidOrderTransitionError, OrderNotFoundError, OrderStore, canTransition } from './order-store.js';
+import type { Order } from './order-store.js';
+import { priceCart } from '../pricing/pricing-engine.js';
+
+const pricing = priceCart([{ id: 'cheese', name: 'Cheddar', category: 'dairy', price: 5.99, quantity: 2 }], { discounts: [] });
+
+describe('OrderStore', () => {
+  let store: OrderStore;
+
+  function advance(seconds: number): void {
+    vi.setSystemTime(Date.now() + seconds * 1000);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+    store = new OrderStore();
+  });
+
+  afterEach(() => {
+    store.clearAllOrders();
+    vi.useRealTimers();
+  });
+
+  it('snapshots the priced cart awaiting authorization', () => {
+    const order = store.createOrder({ userId: 'alice', pricing, cartVersion: 3 });
+
+    expect(order).toEqual(expect.objectContaining({
+      userId: 'alice',
+      status: 'pending_authorization',
+      cartVersion: 3,
+      grandTotal: pricing.grandTotal,
+      createdAt: '2025-01-15T10:00:00.000Z',
+      history: [{ status: 'pending_authorization', at: '2025-01-15T10:00:00.000Z' }],
+    }));
+    expect(order.items.map(item => [item.productId, item.quantity])).toEqual([['cheese', 2]]);
+  });
+
+  it('moves an order through fulfilment to delivered', () => {
+    const { orderId } = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+    const updates: Order[] = [];
+    store.on('order.updated', order => updates.push(order));
+
+    for (const status of ['placed', 'picking', 'ready', 'delivered'] as const) {
+      advance(60);
+      store.updateStatus('alice', orderId, status);
+    }
+
+    const delivered = store.getOrder('alice', orderId);
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.updatedAt).toBe('2025-01-15T10:04:00.000Z');
+    expect(delivered.history.map(change => change.status))
+      .toEqual(['pending_authorization', 'placed', 'picking', 'ready', 'delivered']);
+    expect(updates.map(order => order.status)).toEqual(['placed', 'picking', 'ready', 'delivered']);
+  });
+
+  it('delivers straight from picking', () => {
+    const { orderId } = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+    store.updateStatus('alice', orderId, 'placed');
+    store.updateStatus('alice', orderId, 'picking');
+
+    expect(store.updateStatus('alice', orderId, 'delivered').status).toBe('delivered');
+  });
+
+  it('cancels only before picking starts, keeping the reason', () => {
+    const pending = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+    const picking = store.createOrder({ userId: 'alice', pricing, cartVersion: 2 });
+    store.updateStatus('alice', picking.orderId, 'placed');
+    store.updateStatus('alice', picking.orderId, 'picking');
+
+    const cancelled = store.updateStatus('alice', pending.orderId, 'cancelled', 'Changed my mind');
+    expect(cancelled.history.at(-1)).toEqual(expect.objectContaining({ status: 'cancelled', reason: 'Changed my mind' }));
+    expect(() => store.updateStatus('alice', picking.orderId, 'cancelled'))
+      .toThrow(/can no longer be cancelled \(status: picking\)/);
+    expect(() => store.updateStatus('alice', pending.orderId, 'placed')).toThrow(InvalidOrderTransitionError);
+  });
+
+  it('only allows the documented transitions', () => {
+    expect(canTransition('pending_authorization', 'picking')).toBe(false);
+    expect(canTransition('ready', 'picking')).toBe(false);
+    expect(canTransition('delivered', 'cancelled')).toBe(false);
+    expect(canTransition('ready', 'delivered')).toBe(true);
+  });
+
+  it('hides orders from other users', () => {
+    const { orderId } = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+
+    expect(() => store.getOrder('bob', orderId)).toThrow(OrderNotFoundError);
+    expect(() => store.updateStatus('bob', orderId, 'cancelled')).toThrow(OrderNotFoundError);
+    expect(store.listOrders('bob')).toEqual([]);
+  });
+
+  it('lists a user\'s orders newest first, by status and up to a limit', () => {
+    const first = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+    advance(60);
+    const second = store.createOrder({ userId: 'alice', pricing, cartVersion: 2 });
+    store.updateStatus('alice', first.orderId, 'placed');
+
+    expect(store.listOrders('alice').map(order => order.orderId)).toEqual([second.orderId, first.orderId]);
+    expect(store.listOrders('alice', { status: 'placed' }).map(order => order.orderId)).toEqual([first.orderId]);
+    expect(store.listOrders('alice', { limit: 1 }).map(order => order.orderId)).toEqual([second.orderId]);
+  });
+
+  it('hands out copies of the stored orders', () => {
+    const { orderId } = store.createOrder({ userId: 'alice', pricing, cartVersion: 1 });
+
+    store.getOrder('alice', orderId).items[0].quantity = 99;
+
+    expect(store.getOrder('alice', orderId).items[0].quantity).toBe(2);
+  });
+});
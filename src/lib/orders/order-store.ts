@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+import type { Money } from '../pricing/money.js';
+import type { CartPricing, PricedFee, PricedLine } from '../pricing/pricing-engine.js';
+
+/**
+ * Orders created at checkout
+ *
+ * An order is a snapshot of the cart as it was priced at checkout: items,
+ * unit prices, discounts, tax, fees and totals never change afterwards.
+ * Only the status moves, through the transitions below:
+ *
+ *   pending_authorization -> placed -> picking -> ready -> delivered
+ *                                            \-> delivered
+ *   pending_authorization | placed -> cancelled
+ *
+ * Every change is kept in `history` and emitted as 'order.updated'.
+ */
+
+export const ORDER_STATUSES = [
+  'pending_authorization',
+  'placed',
+  'picking',
+  'ready',
+  'delivered',
+  'cancelled',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_authorization: ['placed', 'cancelled'],
+  placed: ['picking', 'cancelled'],
+  picking: ['ready', 'delivered'],
+  ready: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+interface OrderStatusChange {
+  status: OrderStatus;
+  at: string;          // ISO 8601
+  reason?: string;
+}
+
+interface Order {
+  orderId: string;
+  userId: string;
+  status: OrderStatus;
+  items: PricedLine[];
+  coupons: string[];   // Codes that discounted the order
+  currency: string;
+  subtotal: Money;
+  discountTotal: Money;
+  taxTotal: Money;
+  fees: PricedFee[];
+  feeTotal: Money;
+  grandTotal: Money;
+  paymentMethodId?: string;
+  cartVersion: number; // Cart version that was checked out
+  createdAt: string;
+  updatedAt: string;
+  history: OrderStatusChange[];
+}
+
+interface NewOrder {
+  userId: string;
+  pricing: CartPricing;
+  cartVersion: number;
+  paymentMethodId?: string;
+}
+
+interface ListOrdersOptions {
+  status?: OrderStatus;
+  limit?: number;
+}
+
+class OrderNotFoundError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Order ${orderId} not found`);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+class InvalidOrderTransitionError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus,
+  ) {
+    super(to === 'cancelled'
+      ? `Order ${orderId} can no longer be cancelled (status: ${from})`
+      : `Order ${orderId} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+// Use globalThis to ensure persistence across API calls
+const globalForOrders = globalThis as unknown as {
+  orders: Map<string, Order> | undefined;
+};
+
+/**
+ * Orders by id, in memory. Callers get copies, so a returned order can't be
+ * used to change the stored snapshot.
+ */
+class OrderStore extends EventEmitter {
+  private orders: Map<string, Order>;
+
+  constructor() {
+    super();
+    if (!globalForOrders.orders) {
+      globalForOrders.orders = new Map<string, Order>();
+    }
+    this.orders = globalForOrders.orders;
+  }
+
+  // Snapshot a priced cart as a new order awaiting payment authorization
+  createOrder({ userId, pricing, cartVersion, paymentMethodId }: NewOrder): Order {
+    const now = new Date().toISOString();
+    const order: Order = structuredClone({
+      orderId: `ord_${randomUUID()}`,
+      userId,
+      status: 'pending_authorization',
+      items: pricing.lines,
+      coupons: pricing.coupons.filter(coupon => coupon.applied).map(coupon => coupon.code),
+      currency: pricing.currency,
+      subtotal: pricing.subtotal,
+      discountTotal: pricing.discountTotal,
+      taxTotal: pricing.taxTotal,
+      fees: pricing.fees,
+      feeTotal: pricing.feeTotal,
+      grandTotal: pricing.grandTotal,
+      ...(paymentMethodId && { paymentMethodId }),
+      cartVersion,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'pending_authorization', at: now }],
+    });
+
+    this.orders.set(order.orderId, order);
+    console.error(`[orders] Created ${order.orderId} for ${userId}`);
+    this.emit('order.updated', structuredClone(order));
+    return structuredClone(order);
+  }
+
+  /**
+   * An order owned by userId; other users' orders are reported as not found
+   *
+   * @throws OrderNotFoundError
+   */
+  getOrder(userId: string, orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order || order.userId !== userId) {
+      throw new OrderNotFoundError(orderId);
+    }
+    return structuredClone(order);
+  }
+
+  // A user's orders, newest first
+  listOrders(userId: string, { status, limit }: ListOrdersOptions = {}): Order[] {
+    const orders = [...this.orders.values()]
+      .filter(order => order.userId === userId && (!status || order.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return structuredClone(limit !== undefined ? orders.slice(0, limit) : orders);
+  }
+
+  /**
+   * Move a user's order to a new status
+   *
+   * @throws OrderNotFoundError, InvalidOrderTransitionError
+   */
+  updateStatus(userId: string, orderId: string, status: OrderStatus, reason?: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order || order.userId !== userId) {
+      throw new OrderNotFoundError(orderId);
+    }
+    if (!canTransition(order.status, status)) {
+      throw new InvalidOrderTransitionError(orderId, order.status, status);
+    }
+
+    const now = new Date().toISOString();
+    order.status = status;
+    order.updatedAt = now;
+    order.history.push({ status, at: now, ...(reason && { reason }) });
+
+    console.error(`[orders] ${orderId} is now ${status}`);
+    this.emit('order.updated', structuredClone(order));
+    return structuredClone(order);
+  }
+
+  clearAllOrders(): void {
+    this.orders.clear();
+  }
+}
+
+export const orderStore = new OrderStore();
+export { OrderStore, OrderNotFoundError, InvalidOrderTransitionError };
+export type { Order, OrderStatusChange, NewOrder, ListOrdersOptions };
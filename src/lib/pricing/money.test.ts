@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CurrencyMismatchError,
+  addMoney,
+  formatMoney,
+  fromDollars,
+  money,
+  multiplyMoney,
+  percentOf,
+  roundHalfUp,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+} from './money.js';
+
+describe('money', () => {
+  it('only holds whole minor units', () => {
+    expect(money(419)).toEqual({ amount: 419, currency: 'USD' });
+    expect(() => money(4.19)).toThrow(/integer number of minor units/);
+  });
+
+  it('converts dollars to cents, rounding half a cent away from zero', () => {
+    expect(fromDollars(4.19)).toEqual(money(419));
+    expect(fromDollars(0.1 + 0.2)).toEqual(money(30));
+    expect(fromDollars(1.005)).toEqual(money(101));
+    expect(fromDollars(-1.005)).toEqual(money(-101));
+    expect(fromDollars(2.5, 'EUR')).toEqual({ amount: 250, currency: 'EUR' });
+    expect(toDollars(money(1999))).toBe(19.99);
+  });
+
+  it('rounds halves away from zero', () => {
+    expect([0.5, 1.5, 2.4999, -0.5, -2.5].map(roundHalfUp)).toEqual([1, 2, 2, -1, -3]);
+  });
+
+  it('adds and subtracts in cents without floating point drift', () => {
+    const dime = fromDollars(0.1);
+
+    expect(sumMoney([dime, dime, dime])).toEqual(money(30));
+    expect(addMoney(money(1999), money(1), money(-500))).toEqual(money(1500));
+    expect(subtractMoney(money(500), money(750))).toEqual(money(-250));
+    expect(sumMoney([])).toEqual(money(0));
+  });
+
+  it('rounds products and percentages to whole cents', () => {
+    expect(multiplyMoney(money(333), 3)).toEqual(money(999));
+    expect(multiplyMoney(money(5), 0.5)).toEqual(money(3));
+    expect(percentOf(money(1000), 8.25)).toEqual(money(83));
+    expect(percentOf(money(5), 10)).toEqual(money(1));
+    expect(percentOf(money(4), 10)).toEqual(money(0));
+  });
+
+  it('refuses to combine currencies', () => {
+    expect(() => addMoney(money(100), money(100, 'EUR'))).toThrow(CurrencyMismatchError);
+    expect(() => sumMoney([money(100, 'EUR')])).toThrow('Cannot combine USD and EUR amounts');
+    expect(sumMoney([money(100, 'EUR')], 'EUR')).toEqual(money(100, 'EUR'));
+  });
+
+  it('formats amounts in their currency', () => {
+    expect(formatMoney(money(419))).toBe('$4.19');
+    expect(formatMoney(money(123456))).toBe('$1,234.56');
+    expect(formatMoney(money(-250))).toBe('-$2.50');
+    expect(formatMoney(money(500, 'EUR'))).toBe('€5.00');
+  });
+});
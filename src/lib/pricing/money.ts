@@ -0,0 +1,83 @@
+/**
+ * Money in integer minor units (cents) with an ISO 4217 currency code
+ *
+ * All cart arithmetic goes through these helpers so totals never pick up
+ * floating point error. Dollar amounts only appear at the edges (catalog
+ * prices, legacy cart fields, display).
+ */
+
+export interface Money {
+  amount: number;     // Integer minor units, e.g. 419 for $4.19
+  currency: string;   // ISO 4217, e.g. "USD"
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export class CurrencyMismatchError extends Error {
+  constructor(expected: string, actual: string) {
+    super(`Cannot combine ${expected} and ${actual} amounts`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+/**
+ * Round half away from zero (1.5 -> 2, -1.5 -> -2), the usual rule for
+ * prices and sales tax
+ */
+export function roundHalfUp(value: number): number {
+  // Nudge by a tiny epsilon so values like 1.005 * 100 = 100.49999... round up
+  const rounded = Math.round(Math.abs(value) + 1e-9);
+  return value < 0 ? -rounded : rounded;
+}
+
+export function money(amount: number, currency = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amount must be an integer number of minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+export function zero(currency = DEFAULT_CURRENCY): Money {
+  return money(0, currency);
+}
+
+export function fromDollars(value: number, currency = DEFAULT_CURRENCY): Money {
+  return money(roundHalfUp(value * 100), currency);
+}
+
+export function toDollars(value: Money): number {
+  return value.amount / 100;
+}
+
+export function addMoney(a: Money, ...others: Money[]): Money {
+  return others.reduce((total, other) => {
+    if (other.currency !== total.currency) {
+      throw new CurrencyMismatchError(total.currency, other.currency);
+    }
+    return money(total.amount + other.amount, total.currency);
+  }, a);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return addMoney(a, money(-b.amount, b.currency));
+}
+
+export function multiplyMoney(value: Money, factor: number): Money {
+  return money(roundHalfUp(value.amount * factor), value.currency);
+}
+
+/**
+ * `ratePercent` percent of a value, e.g. percentOf($10.00, 8.25) = $0.83
+ */
+export function percentOf(value: Money, ratePercent: number): Money {
+  return multiplyMoney(value, ratePercent / 100);
+}
+
+export function sumMoney(values: Money[], currency = DEFAULT_CURRENCY): Money {
+  return addMoney(zero(currency), ...values);
+}
+
+export function formatMoney(value: Money): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: value.currency })
+    .format(value.amount / 100);
+}
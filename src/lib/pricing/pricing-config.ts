@@ -0,0 +1,67 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+import { DEFAULT_CURRENCY } from './money.js';
+
+/**
+ * Pricing configuration: tax rates, tax rounding and fees
+ *
+ * Defaults can be overridden with a JSON file at PRICING_CONFIG_FILE, e.g.
+ *   {
+ *     "defaultTaxRate": 8.25,
+ *     "taxRates": { "produce": 0, "dairy": 0 },
+ *     "fees": { "bag": { "amount": 10, "itemsPerBag": 8 },
+ *               "delivery": { "amount": 599, "freeAbove": 3500 } }
+ *   }
+ * Rates are percentages; fee amounts are in cents.
+ */
+
+const cents = z.number().int().nonnegative();
+const ratePercent = z.number().min(0).max(100);
+
+export const pricingConfigSchema = z.object({
+  currency: z.string().length(3).default(DEFAULT_CURRENCY),
+  // Applied to categories without an entry in taxRates
+  defaultTaxRate: ratePercent.default(7.25),
+  // Keyed by category, case-insensitive
+  taxRates: z.record(ratePercent).default({ produce: 0, dairy: 0 }),
+  // 'line' rounds each line's tax; 'total' rounds the summed tax once
+  taxRounding: z.enum(['line', 'total']).default('line'),
+  fees: z.object({
+    bag: z.object({ amount: cents, itemsPerBag: z.number().int().positive() }).optional(),
+    delivery: z.object({ amount: cents, freeAbove: cents.optional() }).optional(),
+  }).default({ bag: { amount: 10, itemsPerBag: 8 } }),
+});
+
+export type PricingConfig = z.infer<typeof pricingConfigSchema>;
+
+let activeConfig: PricingConfig | null = null;
+
+/**
+ * Read and validate a pricing config file
+ */
+export function loadPricingConfigFile(filePath: string): PricingConfig {
+  const parsed = pricingConfigSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new Error(`Invalid pricing config ${filePath}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Active pricing config, loaded from PRICING_CONFIG_FILE on first use
+ */
+export function getPricingConfig(): PricingConfig {
+  if (!activeConfig) {
+    const configFile = process.env.PRICING_CONFIG_FILE;
+    activeConfig = configFile ? loadPricingConfigFile(configFile) : pricingConfigSchema.parse({});
+    console.error(`[pricing] Using ${configFile ? `pricing config ${configFile}` : 'default pricing config'}`);
+  }
+  return activeConfig;
+}
+
+// Replace the active config (tests, admin tooling)
+export function setPricingConfig(config: Partial<PricingConfig>): void {
+  activeConfig = pricingConfigSchema.parse(config);
+}
@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { money } from './money.js';
+import { pricingConfigSchema } from './pricing-config.js';
+import type { PricingConfig } from './pricing-config.js';
+import { priceCart } from './pricing-engine.js';
+import type { PricingLineInput } from './pricing-engine.js';
+import { DEFAULT_COUPONS, recordCouponRedemption, releaseCouponRedemption, setCoupons } from '../promotions/coupons.js';
+import { DEFAULT_PROMOTIONS, setPromotions } from '../promotions/promotions.js';
+
+// A config with no fees unless a test asks for them
+function config(overrides: Record<string, unknown> = {}): PricingConfig {
+  return pricingConfigSchema.parse({ fees: {}, ...overrides });
+}
+
+function line(id: string, price: number, quantity: number, category = 'Pantry'): PricingLineInput {
+  return { id, category, price, quantity };
+}
+
+describe('priceCart', () => {
+  describe('tax', () => {
+    it('charges each category its rate on the line after discounts', () => {
+      const pricing = priceCart([line('soap', 3.99, 1, 'Household'), line('apple', 1.00, 3, 'produce')], {
+        config: config(),
+        discounts: [],
+      });
+
+      // 399 x 7.25% = 28.93 cents; produce is untaxed
+      expect(pricing.lines.map(priced => [priced.taxRate, priced.tax.amount])).toEqual([[7.25, 29], [0, 0]]);
+      expect(pricing.subtotal).toEqual(money(699));
+      expect(pricing.taxTotal).toEqual(money(29));
+      expect(pricing.grandTotal).toEqual(money(728));
+    });
+
+    it('rounds half a cent of tax up on each line', () => {
+      const items = [line('gum', 0.05, 1), line('mint', 0.05, 1)];
+
+      const byLine = priceCart(items, { config: config({ defaultTaxRate: 10 }), discounts: [] });
+      const byTotal = priceCart(items, { config: config({ defaultTaxRate: 10, taxRounding: 'total' }), discounts: [] });
+
+      // 0.5 cents per line: 1 + 1 rounded per line, 0.5 + 0.5 = 1 rounded once
+      expect(byLine.lines.map(priced => priced.tax.amount)).toEqual([1, 1]);
+      expect(byLine.taxTotal).toEqual(money(2));
+      expect(byTotal.taxTotal).toEqual(money(1));
+      expect(byTotal.grandTotal).toEqual(money(11));
+    });
+
+    it('taxes only what is left of a discounted line', () => {
+      const pricing = priceCart([line('soap', 10.00, 1)], {
+        config: config({ defaultTaxRate: 8.25 }),
+        discounts: [{ id: 'promo', description: 'Promo', productId: 'soap', amount: money(150) }],
+      });
+
+      // 850 x 8.25% = 70.125 cents
+      expect(pricing.lines[0]).toEqual(expect.objectContaining({ discountTotal: money(150), tax: money(70), total: money(920) }));
+    });
+  });
+
+  describe('fees', () => {
+    const fees = { bag: { amount: 10, itemsPerBag: 8 }, delivery: { amount: 599, freeAbove: 3500 } };
+
+    it('charges a bag per 8 items and delivery below the threshold, untaxed', () => {
+      const pricing = priceCart([line('can', 1.00, 9)], { config: config({ defaultTaxRate: 0, fees }), discounts: [] });
+
+      expect(pricing.fees).toEqual([
+        { id: 'bag', description: 'Bag fee (2 bags)', amount: money(20) },
+        { id: 'delivery', description: 'Delivery fee', amount: money(599) },
+      ]);
+      expect(pricing.feeTotal).toEqual(money(619));
+      expect(pricing.taxTotal).toEqual(money(0));
+      expect(pricing.grandTotal).toEqual(money(1519));
+    });
+
+    it('waives delivery from the threshold, counting discounts', () => {
+      const options = { config: config({ defaultTaxRate: 0, fees }) };
+
+      const atThreshold = priceCart([line('box', 35.00, 1)], { ...options, discounts: [] });
+      const discountedBelow = priceCart([line('box', 36.00, 1)], {
+        ...options,
+        discounts: [{ id: 'promo', description: 'Promo', productId: 'box', amount: money(200) }],
+      });
+
+      expect(atThreshold.fees.map(fee => fee.id)).toEqual(['bag']);
+      expect(discountedBelow.fees.map(fee => fee.id)).toEqual(['bag', 'delivery']);
+      expect(discountedBelow.grandTotal).toEqual(money(3400 + 10 + 599));
+    });
+
+    it('charges no fees for an empty cart', () => {
+      const pricing = priceCart([], { config: config({ fees }), discounts: [] });
+
+      expect(pricing.fees).toEqual([]);
+      expect(pricing.grandTotal).toEqual(money(0));
+    });
+  });
+
+  describe('promotions and coupons', () => {
+    afterEach(() => {
+      setCoupons(DEFAULT_COUPONS);
+      setPromotions(DEFAULT_PROMOTIONS);
+      releaseCouponRedemption('alice', 'ONCE');
+    });
+
+    function useCoupons(): void {
+      setCoupons([
+        { code: 'TENOFF', description: '$10 off', type: 'fixed_off', amountOff: 1000 },
+        { code: 'HALF', description: '50% off', type: 'percent_off', percentOff: 50 },
+        { code: 'ONCE', description: '10% off once', type: 'percent_off', percentOff: 10, maxRedemptionsPerUser: 1 },
+        { code: 'DAIRY5', description: '$5 off dairy', type: 'fixed_off', amountOff: 500, categories: ['Dairy'], minSpend: 1000 },
+      ]);
+    }
+
+    it('applies coupons after promotions, each to what is left, in order', () => {
+      useCoupons();
+      setPromotions([{ id: 'dairy-10', title: '10% off dairy', type: 'percent_off', percentOff: 10, category: 'Dairy' }]);
+      const items = [line('milk', 10.00, 2, 'Dairy')];
+      const options = { config: config({ defaultTaxRate: 0 }) };
+
+      // 2000 - 200 promotion = 1800
+      const halfFirst = priceCart(items, { ...options, coupons: ['HALF', 'TENOFF'] });
+      const tenFirst = priceCart(items, { ...options, coupons: ['TENOFF', 'HALF'] });
+
+      expect(halfFirst.coupons.map(coupon => coupon.amount.amount)).toEqual([900, 900]);
+      expect(halfFirst.grandTotal).toEqual(money(0));
+      expect(tenFirst.coupons.map(coupon => coupon.amount.amount)).toEqual([1000, 400]);
+      expect(tenFirst.discountTotal).toEqual(money(1600));
+      expect(tenFirst.grandTotal).toEqual(money(400));
+      expect(tenFirst.lines[0].discounts.map(discount => discount.id)).toEqual(['dairy-10', 'coupon:TENOFF', 'coupon:HALF']);
+    });
+
+    it('caps a coupon worth more than the subtotal at the subtotal', () => {
+      useCoupons();
+
+      const pricing = priceCart([line('gum', 4.00, 1)], { config: config(), discounts: [], coupons: ['TENOFF'] });
+
+      expect(pricing.coupons[0]).toEqual(expect.objectContaining({ applied: true, amount: money(400) }));
+      expect(pricing.lines[0]).toEqual(expect.objectContaining({ tax: money(0), total: money(0) }));
+      expect(pricing.grandTotal).toEqual(money(0));
+    });
+
+    it('splits a fixed coupon across lines in whole cents', () => {
+      setCoupons([{ code: 'DOLLAR', description: '$1 off', type: 'fixed_off', amountOff: 100 }]);
+
+      const pricing = priceCart([line('a', 1.00, 1), line('b', 1.00, 1), line('c', 1.00, 1)], {
+        config: config({ defaultTaxRate: 0 }),
+        discounts: [],
+        coupons: ['DOLLAR'],
+      });
+
+      expect(pricing.lines.map(priced => priced.discountTotal.amount)).toEqual([34, 33, 33]);
+      expect(pricing.grandTotal).toEqual(money(200));
+    });
+
+    it('stops a coupon once the customer has used up its limit', () => {
+      useCoupons();
+      recordCouponRedemption('alice', 'ONCE');
+      const items = [line('milk', 10.00, 1)];
+      const options = { config: config({ defaultTaxRate: 0 }), discounts: [], coupons: ['once'] };
+
+      const alice = priceCart(items, { ...options, userId: 'alice' });
+      const bob = priceCart(items, { ...options, userId: 'bob' });
+
+      expect(alice.coupons).toEqual([expect.objectContaining({
+        code: 'ONCE',
+        applied: false,
+        amount: money(0),
+        reason: 'Coupon ONCE has already been used (limit 1 per customer)',
+      })]);
+      expect(alice.grandTotal).toEqual(money(1000));
+      expect(bob.coupons[0].amount).toEqual(money(100));
+    });
+
+    it('explains how far a cart is from a coupon\'s minimum spend', () => {
+      useCoupons();
+
+      const pricing = priceCart([line('milk', 9.99, 1, 'Dairy'), line('soap', 5.00, 1)], {
+        config: config(),
+        discounts: [],
+        coupons: ['DAIRY5'],
+      });
+
+      expect(pricing.coupons[0]).toEqual(expect.objectContaining({
+        applied: false,
+        reason: 'Coupon DAIRY5 needs a minimum spend of $10.00 on eligible items; add $0.01 more to use it',
+      }));
+    });
+
+    it('rejects unknown codes without failing the rest of the cart', () => {
+      useCoupons();
+
+      const pricing = priceCart([line('milk', 10.00, 1)], {
+        config: config({ defaultTaxRate: 0 }),
+        discounts: [],
+        coupons: ['nope', 'HALF'],
+      });
+
+      expect(pricing.coupons.map(coupon => [coupon.code, coupon.applied])).toEqual([['NOPE', false], ['HALF', true]]);
+      expect(pricing.grandTotal).toEqual(money(500));
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  Money,
+  formatMoney,
+  fromDollars,
+  money,
+  multiplyMoney,
+  roundHalfUp,
+  subtractMoney,
+  sumMoney,
+} from './money.js';
+import { getPricingConfig } from './pricing-config.js';
+import type { PricingConfig } from './pricing-config.js';
+import { applyPromotions } from '../promotions/promotions.js';
+import { evaluateCoupon, normalizeCouponCode } from '../promotions/coupons.js';
+
+/**
+ * Cart pricing: line subtotals, discounts, tax per category, fees and the
+ * grand total, all in integer cents
+ *
+ * Tax is charged on each line after its discounts. Fees are not taxed.
+ * Unless discounts are passed explicitly, the active promotions (see
+ * promotions/promotions.ts) are applied automatically. Coupons (see
+ * promotions/coupons.ts) then apply to what is left of each line.
+ */
+
+export interface PricingLineInput {
+  id: string;
+  name?: string;
+  category?: string;
+  price: number;      // Unit price in dollars, as stored on cart items
+  quantity: number;
+}
+
+/**
+ * A reduction applied to one line (amount is positive)
+ */
+export interface PriceAdjustment {
+  id: string;
+  description: string;
+  explanation?: string;   // How the amount was worked out, e.g. "2 of 4 free"
+  productId: string;
+  amount: Money;
+}
+
+export interface PricedLine {
+  productId: string;
+  name?: string;
+  category?: string;
+  quantity: number;
+  unitPrice: Money;
+  subtotal: Money;        // unitPrice x quantity
+  discounts: PriceAdjustment[];
+  discountTotal: Money;
+  taxRate: number;        // Percent
+  tax: Money;
+  total: Money;           // subtotal - discounts + tax
+}
+
+export interface PricedCoupon {
+  code: string;
+  description?: string;
+  applied: boolean;
+  amount: Money;          // Zero when not applied
+  reason?: string;        // Why the coupon isn't discounting the cart
+}
+
+export interface PricedFee {
+  id: 'bag' | 'delivery';
+  description: string;
+  amount: Money;
+}
+
+export interface CartPricing {
+  currency: string;
+  lines: PricedLine[];
+  subtotal: Money;
+  discountTotal: Money;
+  coupons: PricedCoupon[];
+  taxTotal: Money;
+  fees: PricedFee[];
+  feeTotal: Money;
+  grandTotal: Money;
+}
+
+export interface PriceCartOptions {
+  config?: PricingConfig;
+  discounts?: PriceAdjustment[];
+  coupons?: string[];     // Codes attached to the cart
+  userId?: string;        // For per-user coupon limits
+  now?: Date;             // When promotions and coupons are evaluated (default: now)
+}
+
+export function getTaxRate(config: PricingConfig, category?: string): number {
+  if (category) {
+    const key = Object.keys(config.taxRates).find(name => name.toLowerCase() === category.toLowerCase());
+    if (key !== undefined) {
+      return config.taxRates[key];
+    }
+  }
+  return config.defaultTaxRate;
+}
+
+function priceFees(config: PricingConfig, itemCount: number, merchandiseTotal: Money): PricedFee[] {
+  const fees: PricedFee[] = [];
+  const { bag, delivery } = config.fees;
+
+  if (bag && itemCount > 0) {
+    const bags = Math.ceil(itemCount / bag.itemsPerBag);
+    fees.push({
+      id: 'bag',
+      description: `Bag fee (${bags} bag${bags === 1 ? '' : 's'})`,
+      amount: money(bag.amount * bags, config.currency),
+    });
+  }
+
+  if (delivery && itemCount > 0 && !(delivery.freeAbove !== undefined && merchandiseTotal.amount >= delivery.freeAbove)) {
+    fees.push({
+      id: 'delivery',
+      description: 'Delivery fee',
+      amount: money(delivery.amount, config.currency),
+    });
+  }
+
+  return fees;
+}
+
+/**
+ * Price a list of cart lines
+ */
+export function priceCart(items: PricingLineInput[], options: PriceCartOptions = {}): CartPricing {
+  const config = options.config || getPricingConfig();
+  const currency = config.currency;
+  const discounts: PriceAdjustment[] = options.discounts ? [...options.discounts] :
+    applyPromotions(items, options.now, currency).map(promotion => ({
+      id: promotion.promotionId,
+      description: promotion.title,
+      explanation: promotion.explanation,
+      productId: promotion.productId,
+      amount: promotion.amount,
+    }));
+
+  // Line amounts after promotions; a line can't be discounted below zero
+  const promoted = items.map(item => {
+    const unitPrice = fromDollars(item.price, currency);
+    const subtotal = multiplyMoney(unitPrice, item.quantity);
+    const requested = sumMoney(discounts.filter(discount => discount.productId === item.id)
+      .map(discount => discount.amount), currency);
+    const remaining = subtractMoney(subtotal, money(Math.min(requested.amount, subtotal.amount), currency));
+    return { item, unitPrice, subtotal, remaining };
+  });
+
+  // Coupons apply in the order they were added, each to what is left
+  const coupons: PricedCoupon[] = [];
+  for (const code of options.coupons || []) {
+    const evaluation = evaluateCoupon(code, promoted.map(line => ({
+      productId: line.item.id,
+      category: line.item.category,
+      amount: line.remaining,
+    })), { userId: options.userId, now: options.now, currency });
+
+    if (!evaluation.applied) {
+      coupons.push({
+        code: normalizeCouponCode(code),
+        ...(evaluation.coupon && { description: evaluation.coupon.description }),
+        applied: false,
+        amount: money(0, currency),
+        reason: evaluation.reason,
+      });
+      continue;
+    }
+
+    const { coupon } = evaluation;
+    for (const lineDiscount of evaluation.lines) {
+      discounts.push({
+        id: `coupon:${coupon.code}`,
+        description: `Coupon ${coupon.code}`,
+        explanation: coupon.type === 'percent_off'
+          ? `${coupon.percentOff}% off`
+          : `${formatMoney(lineDiscount.amount)} of ${formatMoney(evaluation.amount)} off`,
+        productId: lineDiscount.productId,
+        amount: lineDiscount.amount,
+      });
+      const line = promoted.find(candidate => candidate.item.id === lineDiscount.productId)!;
+      line.remaining = subtractMoney(line.remaining, lineDiscount.amount);
+    }
+    coupons.push({ code: coupon.code, description: coupon.description, applied: true, amount: evaluation.amount });
+  }
+
+  // Unrounded tax per line, for 'total' rounding
+  let exactTax = 0;
+
+  const lines: PricedLine[] = promoted.map(({ item, unitPrice, subtotal, remaining: taxable }) => {
+    const lineDiscounts = discounts.filter(discount => discount.productId === item.id);
+    const discountTotal = subtractMoney(subtotal, taxable);
+
+    const taxRate = getTaxRate(config, item.category);
+    exactTax += taxable.amount * taxRate / 100;
+    const tax = money(roundHalfUp(taxable.amount * taxRate / 100), currency);
+
+    return {
+      productId: item.id,
+      ...(item.name && { name: item.name }),
+      ...(item.category && { category: item.category }),
+      quantity: item.quantity,
+      unitPrice,
+      subtotal,
+      discounts: lineDiscounts,
+      discountTotal,
+      taxRate,
+      tax,
+      total: sumMoney([taxable, tax], currency),
+    };
+  });
+
+  const subtotal = sumMoney(lines.map(line => line.subtotal), currency);
+  const discountTotal = sumMoney(lines.map(line => line.discountTotal), currency);
+  const taxTotal = config.taxRounding === 'total'
+    ? money(roundHalfUp(exactTax), currency)
+    : sumMoney(lines.map(line => line.tax), currency);
+
+  const merchandiseTotal = subtractMoney(subtotal, discountTotal);
+  const itemCount = items.reduce((total, item) => total + item.quantity, 0);
+  const fees = priceFees(config, itemCount, merchandiseTotal);
+  const feeTotal = sumMoney(fees.map(fee => fee.amount), currency);
+
+  return {
+    currency,
+    lines,
+    subtotal,
+    discountTotal,
+    coupons,
+    taxTotal,
+    fees,
+    feeTotal,
+    grandTotal: sumMoney([merchandiseTotal, taxTotal, feeTotal], currency),
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { findProduct } from './product-catalog.js';
+
+describe('findProduct', () => {
+  it('finds products by code, SKU and UPC', () => {
+    expect(findProduct('MILK')?.id).toBe('milk');
+    expect(findProduct('sw-bev-0001')?.id).toBe('cola');
+    expect(findProduct('072830000017')?.id).toBe('cheese');
+  });
+
+  it('finds products by name', () => {
+    expect(findProduct('cheddar cheese')?.id).toBe('cheese');
+  });
+
+  it('finds products by brand and name words', () => {
+    expect(findProduct('Tillamook')?.id).toBe('cheese');
+    expect(findProduct('dole bananas')?.id).toBe('banana');
+  });
+
+  it('finds products by tags and description', () => {
+    expect(findProduct('organic apples')?.id).toBe('apple');
+    expect(findProduct('soft drink')?.id).toBe('cola');
+    expect(findProduct('block')?.id).toBe('cheese');
+  });
+
+  it('does not match blank identifiers', () => {
+    expect(findProduct('')).toBeNull();
+    expect(findProduct('   ')).toBeNull();
+  });
+
+  it('returns null for unknown products', () => {
+    expect(findProduct('caviar')).toBeNull();
+  });
+});
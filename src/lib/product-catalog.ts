@@ -1,84 +1,241 @@
-// Grocery store product catalog with 20 sample grocery items
+import { DEFAULT_SYNONYMS, ProductSearchIndex, SearchResult } from './catalog/search-index.js';
+
+// Grocery store product catalog
+// PRODUCT_CATALOG holds the built-in sample items; the active catalog can be
+// replaced from a CatalogSource (see catalog/catalog-loader.ts)
+export const DIETARY_ATTRIBUTES = [
+  'organic',
+  'vegan',
+  'vegetarian',
+  'gluten-free',
+  'dairy-free',
+  'nut-free',
+  'kosher',
+] as const;
+
+export type DietaryAttribute = typeof DIETARY_ATTRIBUTES[number];
+
 export interface Product {
-  id: string;
+  id: string;              // Product code used by the tools (e.g. "milk")
+  name: string;            // Display name
+  brand: string;
+  description: string;
+  size: number;            // Package size, in `unit`
+  unit: string;            // e.g. "gal", "oz", "lb", "ct"
+  sku: string;
+  upc: string;
+  imageUrl?: string;
+  tags: string[];
+  dietary: DietaryAttribute[];
   price: number;
   category: string;
   inStock: boolean;
+  stock?: number;          // Units on hand; omitted when stock isn't tracked
 }
 
 export const PRODUCT_CATALOG: Product[] = [
   {
     id: "apple",
+    name: "Organic Gala Apples",
+    brand: "O Organics",
+    description: "Crisp, sweet organic Gala apples, great for snacking and baking",
+    size: 3,
+    unit: "lb",
+    sku: "SW-PRD-0001",
+    upc: "079893400012",
+    imageUrl: "https://images.example.com/products/apple.jpg",
+    tags: ["fruit", "fresh", "snack"],
+    dietary: ["organic", "vegan", "gluten-free"],
     price: 3.99,
     category: "Produce",
-    inStock: true
+    inStock: true,
+    stock: 120
   },
   {
     id: "banana",
+    name: "Bananas",
+    brand: "Dole",
+    description: "Ripe yellow bananas, sold by the bunch",
+    size: 2,
+    unit: "lb",
+    sku: "SW-PRD-0002",
+    upc: "033383000012",
+    imageUrl: "https://images.example.com/products/banana.jpg",
+    tags: ["fruit", "fresh", "snack"],
+    dietary: ["vegan", "gluten-free"],
     price: 1.29,
     category: "Produce",
-    inStock: true
+    inStock: true,
+    stock: 200
   },
   {
     id: "carrots",
+    name: "Carrots",
+    brand: "Grimmway Farms",
+    description: "Fresh whole carrots for cooking, juicing and snacking",
+    size: 2,
+    unit: "lb",
+    sku: "SW-PRD-0003",
+    upc: "071430000014",
+    imageUrl: "https://images.example.com/products/carrots.jpg",
+    tags: ["vegetable", "fresh"],
+    dietary: ["vegan", "gluten-free"],
     price: 2.49,
     category: "Produce",
-    inStock: true
+    inStock: true,
+    stock: 80
   },
   {
     id: "milk",
+    name: "2% Reduced Fat Milk",
+    brand: "Lucerne",
+    description: "Grade A pasteurized 2% reduced fat milk with vitamins A and D",
+    size: 1,
+    unit: "gal",
+    sku: "SW-DRY-0001",
+    upc: "021130070183",
+    imageUrl: "https://images.example.com/products/milk.jpg",
+    tags: ["milk", "2%", "reduced fat"],
+    dietary: ["vegetarian", "gluten-free", "kosher"],
     price: 4.19,
     category: "Dairy",
-    inStock: true
+    inStock: true,
+    stock: 40
   },
   {
     id: "cheese",
+    name: "Sharp Cheddar Cheese",
+    brand: "Tillamook",
+    description: "Aged sharp cheddar cheese block",
+    size: 8,
+    unit: "oz",
+    sku: "SW-DRY-0002",
+    upc: "072830000017",
+    imageUrl: "https://images.example.com/products/cheese.jpg",
+    tags: ["cheese", "cheddar"],
+    dietary: ["vegetarian", "gluten-free"],
     price: 5.99,
     category: "Dairy",
-    inStock: true
+    inStock: true,
+    stock: 24
+  },
+  {
+    id: "cola",
+    name: "Cola 12 Pack",
+    brand: "Signature Select",
+    description: "Classic cola soft drink in 12 fl oz cans",
+    size: 12,
+    unit: "ct",
+    sku: "SW-BEV-0001",
+    upc: "021130280018",
+    imageUrl: "https://images.example.com/products/cola.jpg",
+    tags: ["soft drink", "cans"],
+    dietary: ["vegan", "gluten-free"],
+    price: 5.49,
+    category: "Beverages",
+    inStock: true,
+    stock: 60
   }
 ];
 
-// Helper function to find product by code or name
+// Products currently served by the helpers below
+let activeProducts: Product[] = PRODUCT_CATALOG;
+
+// Search index over activeProducts, rebuilt lazily after the catalog changes
+let searchSynonyms: string[][] = DEFAULT_SYNONYMS;
+let searchIndex: ProductSearchIndex | null = null;
+
+// Replace the active catalog (used by the catalog loader on load and reload)
+export function setCatalogProducts(products: Product[]): void {
+  activeProducts = products;
+  searchIndex = null;
+}
+
+// Replace the search synonym table (groups of interchangeable terms)
+export function setSearchSynonyms(groups: string[][]): void {
+  searchSynonyms = groups;
+  searchIndex = null;
+}
+
+function getSearchIndex(): ProductSearchIndex {
+  if (!searchIndex) {
+    searchIndex = new ProductSearchIndex(activeProducts, searchSynonyms);
+  }
+  return searchIndex;
+}
+
+// Helper function to format the package size (e.g. "1 gal", "8 oz")
+export function formatProductSize(product: Product): string {
+  return `${product.size} ${product.unit}`;
+}
+
+// Helper function to find product by code, name, brand, tags or description
+// Blank identifiers never match (they would otherwise match any name)
 export function findProduct(identifier: string): Product | null {
   const searchTerm = identifier.toLowerCase().trim();
-  console.log(`[product-catalog] Finding product with identifier: ${searchTerm}`);
-  // First try to find by exact code match
-  let product = PRODUCT_CATALOG.find(p => p.id.toLowerCase() === searchTerm);
-  
+  if (!searchTerm) {
+    return null;
+  }
+  console.error(`[product-catalog] Finding product with identifier: ${searchTerm}`);
+  // First try to find by exact code, SKU or UPC match
+  let product = activeProducts.find(p =>
+    p.id.toLowerCase() === searchTerm ||
+    p.sku.toLowerCase() === searchTerm ||
+    p.upc === searchTerm
+  );
+
   // If not found by code, try to find by name (partial match)
-  // if (!product) {
-  //   product = PRODUCT_CATALOG.find(p => 
-  //     p.name.toLowerCase().includes(searchTerm) || 
-  //     searchTerm.includes(p.name.toLowerCase())
-  //   );
-  // }
-  
+  if (!product) {
+    product = activeProducts.find(p =>
+      p.name.toLowerCase().includes(searchTerm) ||
+      searchTerm.includes(p.name.toLowerCase())
+    );
+  }
+
+  // Then every word in the brand and name (e.g. "dole bananas"), and
+  // finally in the brand, name, tags and description (e.g. "organic apples")
+  const words = searchTerm.split(/\s+/);
+  if (!product) {
+    product = activeProducts.find(p =>
+      words.every(word => `${p.brand} ${p.name}`.toLowerCase().includes(word))
+    );
+  }
+  if (!product) {
+    product = activeProducts.find(p =>
+      words.every(word => [p.brand, p.name, ...p.tags, p.description].join(' ').toLowerCase().includes(word))
+    );
+  }
+
   return product || null;
 }
 
+// Helper function to get a product by its exact code
+export function getProductById(id: string): Product | null {
+  const code = id.toLowerCase();
+  return activeProducts.find(p => p.id.toLowerCase() === code) || null;
+}
+
 // Helper function to get all products
 export function getAllProducts(): Product[] {
-  return PRODUCT_CATALOG;
+  return activeProducts;
 }
 
 // Helper function to get products by category
 export function getProductsByCategory(category: string): Product[] {
-  return PRODUCT_CATALOG.filter(p => 
+  return activeProducts.filter(p =>
     p.category.toLowerCase() === category.toLowerCase()
   );
 }
 
-// Helper function to search products
-export function searchProducts(query: string): Product[] {
-  const searchTerm = query.toLowerCase().trim();
-  console.log(`[product-catalog] Searching products with query: ${searchTerm}`);
-  
-  return PRODUCT_CATALOG.filter(p => 
-    // p.name.toLowerCase().includes(searchTerm) ||
-    // Remove this line - description doesn't exist in Product interface
-    // p.description.toLowerCase().includes(searchTerm) ||
-    p.category.toLowerCase().includes(searchTerm) ||
-    p.id.toLowerCase().includes(searchTerm)
-  );
+// Helper function to search products, ranked by relevance
+// Matches name, brand, tags, dietary attributes, category, code and
+// description with stemming, typo tolerance and synonyms (see search-index.ts)
+export function searchProductsRanked(query: string, limit?: number): SearchResult[] {
+  console.error(`[product-catalog] Searching products with query: ${query.toLowerCase().trim()}`);
+  return getSearchIndex().search(query, limit);
+}
+
+// Helper function to search products, most relevant first
+export function searchProducts(query: string, limit?: number): Product[] {
+  return searchProductsRanked(query, limit).map(result => result.product);
 }
@@ -0,0 +1,300 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+import { getProductById } from '../product-catalog.js';
+import { Money, formatMoney, money, percentOf, sumMoney } from '../pricing/money.js';
+
+/**
+ * Coupon codes with eligibility rules: minimum spend, product or category
+ * restrictions, per-user redemption limits and start/expiry dates
+ *
+ * Coupons come from COUPONS_FILE (a JSON array, or { "coupons": [...] }) or
+ * the built-in samples below. Amounts are in cents. A coupon applied to a
+ * cart is re-evaluated every time the cart is priced, after promotions, so
+ * it stops discounting (with a reason) if the cart no longer qualifies.
+ */
+
+const cents = z.number().int().nonnegative();
+
+const couponBaseSchema = z.object({
+  code: z.string().trim().min(1).transform(code => code.toUpperCase()),
+  description: z.string().min(1),
+  minSpend: cents.optional(),                        // On eligible items, after promotions
+  productIds: z.array(z.string()).optional(),        // Restrict to these products...
+  categories: z.array(z.string()).optional(),        // ...and/or these categories
+  maxRedemptionsPerUser: z.number().int().positive().optional(),
+  startsAt: z.string().datetime({ offset: true }).optional(),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export const couponSchema = z.discriminatedUnion('type', [
+  couponBaseSchema.extend({
+    type: z.literal('percent_off'),
+    percentOff: z.number().gt(0).max(100),
+  }),
+  couponBaseSchema.extend({
+    type: z.literal('fixed_off'),
+    amountOff: cents,                                 // Off the eligible total
+  }),
+]);
+
+export type Coupon = z.infer<typeof couponSchema>;
+
+export const DEFAULT_COUPONS: Coupon[] = [
+  {
+    code: 'SAVE10',
+    description: '10% off orders of $25 or more',
+    type: 'percent_off',
+    percentOff: 10,
+    minSpend: 2500,
+    maxRedemptionsPerUser: 1,
+  },
+  {
+    code: 'FIVEOFF40',
+    description: '$5 off orders of $40 or more',
+    type: 'fixed_off',
+    amountOff: 500,
+    minSpend: 4000,
+  },
+  {
+    code: 'PRODUCE20',
+    description: '20% off fresh produce',
+    type: 'percent_off',
+    percentOff: 20,
+    categories: ['Produce'],
+    expiresAt: '2027-12-31T23:59:59Z',
+  },
+];
+
+export class CouponRejectedError extends Error {
+  constructor(public readonly code: string, public readonly reason: string) {
+    super(reason);
+    this.name = 'CouponRejectedError';
+  }
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+let activeCoupons: Coupon[] | null = null;
+
+/**
+ * Read and validate a coupons file
+ */
+export function loadCouponsFile(filePath: string): Coupon[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const records = Array.isArray(parsed) ? parsed : parsed?.coupons;
+  if (!Array.isArray(records)) {
+    throw new Error('Coupons JSON must be an array of coupons or { "coupons": [...] }');
+  }
+
+  const result = z.array(couponSchema).safeParse(records);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'coupons'}: ${issue.message}`);
+    throw new Error(`Invalid coupons in ${filePath}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Configured coupons, loaded from COUPONS_FILE on first use
+ */
+export function getCoupons(): Coupon[] {
+  if (!activeCoupons) {
+    const couponsFile = process.env.COUPONS_FILE;
+    activeCoupons = couponsFile ? loadCouponsFile(couponsFile) : DEFAULT_COUPONS;
+    console.error(`[coupons] Loaded ${activeCoupons.length} coupons from ${couponsFile || 'built-in samples'}`);
+  }
+  return activeCoupons;
+}
+
+// Replace the configured coupons (tests, admin tooling)
+export function setCoupons(coupons: Coupon[]): void {
+  activeCoupons = coupons;
+}
+
+export function findCoupon(code: string): Coupon | null {
+  const normalized = normalizeCouponCode(code);
+  return getCoupons().find(coupon => coupon.code === normalized) || null;
+}
+
+// Redemptions per user and code, recorded at checkout
+// Use globalThis to ensure persistence across API calls
+const globalForCoupons = globalThis as unknown as {
+  couponRedemptions: Map<string, number> | undefined;
+};
+
+function getRedemptions(): Map<string, number> {
+  if (!globalForCoupons.couponRedemptions) {
+    globalForCoupons.couponRedemptions = new Map<string, number>();
+  }
+  return globalForCoupons.couponRedemptions;
+}
+
+export function getCouponRedemptionCount(userId: string, code: string): number {
+  return getRedemptions().get(`${userId}:${normalizeCouponCode(code)}`) || 0;
+}
+
+export function recordCouponRedemption(userId: string, code: string): void {
+  const key = `${userId}:${normalizeCouponCode(code)}`;
+  getRedemptions().set(key, (getRedemptions().get(key) || 0) + 1);
+}
+
+// Give a redemption back, e.g. when the order is cancelled
+export function releaseCouponRedemption(userId: string, code: string): void {
+  const key = `${userId}:${normalizeCouponCode(code)}`;
+  const count = getRedemptions().get(key) || 0;
+  if (count <= 1) {
+    getRedemptions().delete(key);
+  } else {
+    getRedemptions().set(key, count - 1);
+  }
+}
+
+/**
+ * A cart line as seen by coupons: its amount after earlier discounts
+ */
+export interface CouponLine {
+  productId: string;
+  category?: string;
+  amount: Money;
+}
+
+export interface CouponLineDiscount {
+  productId: string;
+  amount: Money;
+}
+
+export type CouponEvaluation =
+  | { applied: true; coupon: Coupon; amount: Money; lines: CouponLineDiscount[]; explanation: string }
+  | { applied: false; coupon: Coupon | null; reason: string };
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+function describeRestriction(coupon: Coupon): string {
+  const targets = [
+    ...(coupon.categories || []),
+    ...(coupon.productIds || []).map(id => getProductById(id)?.name || id),
+  ];
+  return targets.join(', ');
+}
+
+function isEligible(coupon: Coupon, line: CouponLine): boolean {
+  const restricted = (coupon.productIds?.length || 0) > 0 || (coupon.categories?.length || 0) > 0;
+  if (!restricted) return true;
+
+  return !!coupon.productIds?.some(id => id.toLowerCase() === line.productId.toLowerCase()) ||
+    (!!line.category && !!coupon.categories?.some(category => category.toLowerCase() === line.category!.toLowerCase()));
+}
+
+/**
+ * Split an amount across lines in proportion to their amounts; leftover
+ * cents go to the largest lines first
+ */
+function allocate(total: Money, lines: CouponLine[]): CouponLineDiscount[] {
+  const base = lines.reduce((sum, line) => sum + line.amount.amount, 0);
+  if (base === 0) return [];
+
+  const shares = lines.map(line => ({
+    productId: line.productId,
+    exact: total.amount * line.amount.amount / base,
+    lineAmount: line.amount.amount,
+  }));
+  const floored = shares.map(share => Math.floor(share.exact));
+  let remainder = total.amount - floored.reduce((sum, value) => sum + value, 0);
+
+  const order = shares
+    .map((share, index) => ({ index, fraction: share.exact - floored[index], lineAmount: share.lineAmount }))
+    .sort((a, b) => b.fraction - a.fraction || b.lineAmount - a.lineAmount);
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    floored[index] += 1;
+    remainder -= 1;
+  }
+
+  return shares
+    .map((share, index) => ({ productId: share.productId, amount: money(floored[index], total.currency) }))
+    .filter(discount => discount.amount.amount > 0);
+}
+
+/**
+ * Check a code against a cart and work out its discount per line
+ */
+export function evaluateCoupon(
+  code: string,
+  lines: CouponLine[],
+  context: { userId?: string; now?: Date; currency?: string } = {},
+): CouponEvaluation {
+  const normalized = normalizeCouponCode(code);
+  const coupon = findCoupon(normalized);
+  const now = context.now || new Date();
+
+  if (!coupon) {
+    return { applied: false, coupon: null, reason: `Coupon code "${normalized}" is not valid` };
+  }
+  if (coupon.startsAt && now.getTime() < Date.parse(coupon.startsAt)) {
+    return { applied: false, coupon, reason: `Coupon ${coupon.code} is not valid until ${formatDate(coupon.startsAt)}` };
+  }
+  if (coupon.expiresAt && now.getTime() >= Date.parse(coupon.expiresAt)) {
+    return { applied: false, coupon, reason: `Coupon ${coupon.code} expired on ${formatDate(coupon.expiresAt)}` };
+  }
+  if (coupon.maxRedemptionsPerUser !== undefined && context.userId &&
+      getCouponRedemptionCount(context.userId, coupon.code) >= coupon.maxRedemptionsPerUser) {
+    return {
+      applied: false,
+      coupon,
+      reason: `Coupon ${coupon.code} has already been used ` +
+        `(limit ${coupon.maxRedemptionsPerUser} per customer)`,
+    };
+  }
+
+  const eligible = lines.filter(line => isEligible(coupon, line) && line.amount.amount > 0);
+  if (eligible.length === 0) {
+    return {
+      applied: false,
+      coupon,
+      reason: lines.length === 0
+        ? 'Add items to your cart before applying a coupon'
+        : `Coupon ${coupon.code} only applies to ${describeRestriction(coupon)}, and none are in your cart`,
+    };
+  }
+
+  const currency = context.currency || eligible[0].amount.currency;
+  const eligibleTotal = sumMoney(eligible.map(line => line.amount), currency);
+  if (coupon.minSpend !== undefined && eligibleTotal.amount < coupon.minSpend) {
+    const minSpend = money(coupon.minSpend, currency);
+    const short = money(coupon.minSpend - eligibleTotal.amount, currency);
+    return {
+      applied: false,
+      coupon,
+      reason: `Coupon ${coupon.code} needs a minimum spend of ${formatMoney(minSpend)}` +
+        `${(coupon.productIds || coupon.categories) ? ' on eligible items' : ''}; ` +
+        `add ${formatMoney(short)} more to use it`,
+    };
+  }
+
+  if (coupon.type === 'percent_off') {
+    const discounts = eligible
+      .map(line => ({ productId: line.productId, amount: percentOf(line.amount, coupon.percentOff) }))
+      .filter(discount => discount.amount.amount > 0);
+    return {
+      applied: true,
+      coupon,
+      amount: sumMoney(discounts.map(discount => discount.amount), currency),
+      lines: discounts,
+      explanation: `${coupon.percentOff}% off`,
+    };
+  }
+
+  const amount = money(Math.min(coupon.amountOff, eligibleTotal.amount), currency);
+  return {
+    applied: true,
+    coupon,
+    amount,
+    lines: allocate(amount, eligible),
+    explanation: `${formatMoney(amount)} off` + (eligible.length > 1 ? `, split across ${eligible.length} items` : ''),
+  };
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_PROMOTIONS,
+  applyPromotions,
+  calculatePromotionSaving,
+  getActivePromotions,
+  setPromotions,
+} from './promotions.js';
+import type { Promotion } from './promotions.js';
+import { money } from '../pricing/money.js';
+
+const now = new Date('2025-01-15T10:00:00Z');
+
+describe('calculatePromotionSaving', () => {
+  it('gives the free units of complete buy-one-get-one groups', () => {
+    const bogo: Promotion = {
+      id: 'bogo', title: 'BOGO', type: 'bogo', productIds: ['banana'], buyQuantity: 1, getQuantity: 1, getPercentOff: 100,
+    };
+
+    expect(calculatePromotionSaving(bogo, money(59), 5)).toEqual({ amount: money(118), explanation: 'Buy 1, get 1 free: 2 of 5 free' });
+    expect(calculatePromotionSaving(bogo, money(59), 1)).toBeNull();
+  });
+
+  it('rounds a half-price unit to whole cents', () => {
+    const halfOff: Promotion = {
+      id: 'half', title: 'Second half off', type: 'bogo', productIds: ['gum'], buyQuantity: 1, getQuantity: 1, getPercentOff: 50,
+    };
+
+    // Half of 99 cents is 49.5 cents
+    expect(calculatePromotionSaving(halfOff, money(99), 2)?.amount).toEqual(money(50));
+  });
+
+  it('prices each complete multi-buy group at the deal price', () => {
+    const multiBuy: Promotion = { id: 'cola', title: '3 for $5', type: 'multi_buy', productIds: ['cola'], quantity: 3, price: 500 };
+
+    expect(calculatePromotionSaving(multiBuy, money(200), 7)).toEqual({ amount: money(200), explanation: '3 for $5.00, applied 2 times' });
+    // No saving when the deal costs more than the units
+    expect(calculatePromotionSaving(multiBuy, money(150), 3)).toBeNull();
+  });
+
+  it('takes a fixed amount off each unit, never more than its price', () => {
+    const fixed: Promotion = { id: 'fixed', title: '$1 off', type: 'fixed_off', productIds: ['gum'], amountOff: 100 };
+
+    expect(calculatePromotionSaving(fixed, money(250), 2)?.amount).toEqual(money(200));
+    expect(calculatePromotionSaving(fixed, money(75), 2)?.amount).toEqual(money(150));
+  });
+});
+
+describe('applyPromotions', () => {
+  afterEach(() => {
+    setPromotions(DEFAULT_PROMOTIONS);
+  });
+
+  it('gives each line only the promotion that saves the most', () => {
+    setPromotions([
+      { id: 'dairy-10', title: '10% off dairy', type: 'percent_off', category: 'Dairy', percentOff: 10 },
+      { id: 'milk-50c', title: '50¢ off milk', type: 'fixed_off', productIds: ['milk'], amountOff: 50 },
+    ]);
+
+    const applied = applyPromotions([
+      { id: 'milk', category: 'Dairy', price: 3.00, quantity: 2 },
+      { id: 'cheese', category: 'dairy', price: 8.00, quantity: 1 },
+    ], now);
+
+    expect(applied.map(promotion => [promotion.productId, promotion.promotionId, promotion.amount.amount])).toEqual([
+      ['milk', 'milk-50c', 100],
+      ['cheese', 'dairy-10', 80],
+    ]);
+  });
+
+  it('skips promotions outside their dates', () => {
+    setPromotions([
+      { id: 'ended', title: 'Ended', type: 'percent_off', productIds: ['milk'], percentOff: 50, endsAt: '2025-01-15T10:00:00Z' },
+      { id: 'upcoming', title: 'Upcoming', type: 'percent_off', productIds: ['milk'], percentOff: 50, startsAt: '2025-01-16T00:00:00Z' },
+      { id: 'current', title: 'Current', type: 'percent_off', productIds: ['milk'], percentOff: 5, startsAt: '2025-01-01T00:00:00Z' },
+    ]);
+
+    expect(getActivePromotions(now).map(promotion => promotion.id)).toEqual(['current']);
+    expect(applyPromotions([{ id: 'milk', price: 3.00, quantity: 1 }], now).map(promotion => promotion.promotionId))
+      .toEqual(['current']);
+  });
+});
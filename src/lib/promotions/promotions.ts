@@ -0,0 +1,279 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+import { getProductById } from '../product-catalog.js';
+import { Money, formatMoney, fromDollars, money, multiplyMoney, percentOf } from '../pricing/money.js';
+
+/**
+ * Promotions: percent off, fixed amount off, buy-X-get-Y (BOGO) and
+ * multi-buy ("3 for $5"), targeted at products and/or a whole category,
+ * each optionally limited to a date range
+ *
+ * Promotions come from PROMOTIONS_FILE (a JSON array, or { "promotions": [...] })
+ * or the built-in samples below. Amounts are in cents. Promotions don't
+ * stack: each cart line gets the single promotion that saves the most.
+ */
+
+const cents = z.number().int().nonnegative();
+
+const promotionBaseSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  productIds: z.array(z.string()).optional(),
+  category: z.string().optional(),          // Category-wide when set
+  startsAt: z.string().datetime({ offset: true }).optional(),
+  endsAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export const promotionSchema = z.discriminatedUnion('type', [
+  promotionBaseSchema.extend({
+    type: z.literal('percent_off'),
+    percentOff: z.number().gt(0).max(100),
+  }),
+  promotionBaseSchema.extend({
+    type: z.literal('fixed_off'),
+    amountOff: cents,                        // Off each unit
+  }),
+  promotionBaseSchema.extend({
+    type: z.literal('bogo'),
+    buyQuantity: z.number().int().positive().default(1),
+    getQuantity: z.number().int().positive().default(1),
+    getPercentOff: z.number().gt(0).max(100).default(100),
+  }),
+  promotionBaseSchema.extend({
+    type: z.literal('multi_buy'),
+    quantity: z.number().int().min(2),       // "3 for $5": quantity 3,
+    price: cents,                            // price 500
+  }),
+]).refine(promotion => (promotion.productIds?.length || 0) > 0 || !!promotion.category, {
+  message: 'Promotion needs productIds or a category',
+});
+
+export type Promotion = z.infer<typeof promotionSchema>;
+
+export const DEFAULT_PROMOTIONS: Promotion[] = [
+  {
+    id: 'banana-bogo',
+    title: 'Bananas: buy one, get one free',
+    type: 'bogo',
+    productIds: ['banana'],
+    buyQuantity: 1,
+    getQuantity: 1,
+    getPercentOff: 100,
+  },
+  {
+    id: 'cola-3-for-12',
+    title: 'Cola 12 packs: 3 for $12',
+    type: 'multi_buy',
+    productIds: ['cola'],
+    quantity: 3,
+    price: 1200,
+  },
+  {
+    id: 'dairy-10-off',
+    title: '10% off all dairy',
+    type: 'percent_off',
+    category: 'Dairy',
+    percentOff: 10,
+  },
+  {
+    id: 'carrots-50c-off',
+    title: '50¢ off carrots',
+    type: 'fixed_off',
+    productIds: ['carrots'],
+    amountOff: 50,
+  },
+];
+
+let activePromotions: Promotion[] | null = null;
+
+/**
+ * Read and validate a promotions file
+ */
+export function loadPromotionsFile(filePath: string): Promotion[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const records = Array.isArray(parsed) ? parsed : parsed?.promotions;
+  if (!Array.isArray(records)) {
+    throw new Error('Promotions JSON must be an array of promotions or { "promotions": [...] }');
+  }
+
+  const result = z.array(promotionSchema).safeParse(records);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'promotions'}: ${issue.message}`);
+    throw new Error(`Invalid promotions in ${filePath}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Configured promotions, loaded from PROMOTIONS_FILE on first use
+ */
+export function getPromotions(): Promotion[] {
+  if (!activePromotions) {
+    const promotionsFile = process.env.PROMOTIONS_FILE;
+    activePromotions = promotionsFile ? loadPromotionsFile(promotionsFile) : DEFAULT_PROMOTIONS;
+    console.error(`[promotions] Loaded ${activePromotions.length} promotions from ` +
+      (promotionsFile || 'built-in samples'));
+  }
+  return activePromotions;
+}
+
+// Replace the configured promotions (tests, admin tooling)
+export function setPromotions(promotions: Promotion[]): void {
+  activePromotions = promotions;
+}
+
+export function isPromotionActive(promotion: Promotion, now: Date = new Date()): boolean {
+  return (!promotion.startsAt || Date.parse(promotion.startsAt) <= now.getTime()) &&
+    (!promotion.endsAt || now.getTime() < Date.parse(promotion.endsAt));
+}
+
+/**
+ * Whether a promotion covers a product (listed, or in its category)
+ */
+export function promotionAppliesTo(promotion: Promotion, productId: string, category?: string): boolean {
+  if (promotion.productIds?.some(id => id.toLowerCase() === productId.toLowerCase())) {
+    return true;
+  }
+  return !!promotion.category && !!category && promotion.category.toLowerCase() === category.toLowerCase();
+}
+
+/**
+ * Active promotions, optionally only those touching a category
+ */
+export function getActivePromotions(now: Date = new Date(), category?: string): Promotion[] {
+  return getPromotions().filter(promotion => {
+    if (!isPromotionActive(promotion, now)) return false;
+    if (!category) return true;
+    if (promotion.category?.toLowerCase() === category.toLowerCase()) return true;
+    return !!promotion.productIds?.some(id => getProductById(id)?.category.toLowerCase() === category.toLowerCase());
+  });
+}
+
+/**
+ * Short human-readable terms, e.g. "3 for $5.00"
+ */
+export function describePromotion(promotion: Promotion): string {
+  if (promotion.description) {
+    return promotion.description;
+  }
+  switch (promotion.type) {
+    case 'percent_off':
+      return `${promotion.percentOff}% off`;
+    case 'fixed_off':
+      return `${formatMoney(money(promotion.amountOff))} off each`;
+    case 'bogo':
+      return `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} ` +
+        (promotion.getPercentOff === 100 ? 'free' : `${promotion.getPercentOff}% off`);
+    case 'multi_buy':
+      return `${promotion.quantity} for ${formatMoney(money(promotion.price))}`;
+  }
+}
+
+export interface PromotionSaving {
+  amount: Money;
+  explanation: string;
+}
+
+/**
+ * Saving a promotion gives on one cart line, or null if it doesn't qualify
+ */
+export function calculatePromotionSaving(
+  promotion: Promotion,
+  unitPrice: Money,
+  quantity: number,
+): PromotionSaving | null {
+  const subtotal = multiplyMoney(unitPrice, quantity);
+
+  switch (promotion.type) {
+    case 'percent_off': {
+      const amount = percentOf(subtotal, promotion.percentOff);
+      return amount.amount > 0 ? { amount, explanation: `${promotion.percentOff}% off` } : null;
+    }
+
+    case 'fixed_off': {
+      const perUnit = Math.min(promotion.amountOff, unitPrice.amount);
+      const amount = money(perUnit * quantity, unitPrice.currency);
+      return amount.amount > 0
+        ? { amount, explanation: `${formatMoney(money(perUnit, unitPrice.currency))} off each of ${quantity}` }
+        : null;
+    }
+
+    case 'bogo': {
+      const groupSize = promotion.buyQuantity + promotion.getQuantity;
+      const discountedUnits = Math.floor(quantity / groupSize) * promotion.getQuantity;
+      if (discountedUnits === 0) return null;
+      const amount = percentOf(multiplyMoney(unitPrice, discountedUnits), promotion.getPercentOff);
+      return {
+        amount,
+        explanation: `${describePromotion({ ...promotion, description: undefined })}: ` +
+          `${discountedUnits} of ${quantity} ${promotion.getPercentOff === 100 ? 'free' : 'discounted'}`,
+      };
+    }
+
+    case 'multi_buy': {
+      const groups = Math.floor(quantity / promotion.quantity);
+      const perGroup = unitPrice.amount * promotion.quantity - promotion.price;
+      if (groups === 0 || perGroup <= 0) return null;
+      return {
+        amount: money(perGroup * groups, unitPrice.currency),
+        explanation: `${promotion.quantity} for ${formatMoney(money(promotion.price, unitPrice.currency))}, ` +
+          `applied ${groups} time${groups === 1 ? '' : 's'}`,
+      };
+    }
+  }
+}
+
+export interface PromotionLineInput {
+  id: string;
+  category?: string;
+  price: number;      // Unit price in dollars
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  productId: string;
+  title: string;
+  explanation: string;
+  amount: Money;
+}
+
+/**
+ * Best active promotion per line
+ */
+export function applyPromotions(
+  lines: PromotionLineInput[],
+  now: Date = new Date(),
+  currency?: string,
+): AppliedPromotion[] {
+  const active = getActivePromotions(now);
+  const applied: AppliedPromotion[] = [];
+
+  for (const line of lines) {
+    const unitPrice = fromDollars(line.price, currency);
+    let best: AppliedPromotion | null = null;
+
+    for (const promotion of active) {
+      if (!promotionAppliesTo(promotion, line.id, line.category)) continue;
+
+      const saving = calculatePromotionSaving(promotion, unitPrice, line.quantity);
+      if (saving && (!best || saving.amount.amount > best.amount.amount)) {
+        best = {
+          promotionId: promotion.id,
+          productId: line.id,
+          title: promotion.title,
+          explanation: saving.explanation,
+          amount: saving.amount,
+        };
+      }
+    }
+
+    if (best) {
+      applied.push(best);
+    }
+  }
+
+  return applied;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { fromAuthInfo, toAuthInfo } from './auth-verifier.js';
+import type { AuthResult } from './auth-verifier.js';
+
+describe('toAuthInfo / fromAuthInfo', () => {
+  it('round-trips the AuthResult', () => {
+    const authResult: AuthResult = {
+      success: true,
+      accessToken: 'access',
+      userToken: 'user',
+      clientId: 'client',
+      userId: 'user-1',
+    };
+
+    const authInfo = toAuthInfo(authResult);
+
+    expect(authInfo.token).toBe('access');
+    expect(authInfo.clientId).toBe('client');
+    expect(fromAuthInfo(authInfo)).toBe(authResult);
+  });
+
+  it('fills required AuthInfo fields for callers without tokens', () => {
+    const authInfo = toAuthInfo({ success: true });
+
+    expect(authInfo.token).toBe('');
+    expect(authInfo.clientId).toBe('');
+    expect(authInfo.scopes).toEqual([]);
+  });
+
+  it('returns undefined without an AuthResult', () => {
+    expect(fromAuthInfo(undefined)).toBeUndefined();
+    expect(fromAuthInfo({ token: 'access', clientId: 'client', scopes: [] })).toBeUndefined();
+  });
+
+  it('keeps each caller\'s AuthResult separate', () => {
+    const alice = toAuthInfo({ success: true, userToken: 'alice-user' });
+    const bob = toAuthInfo({ success: true, userToken: 'bob-user' });
+
+    expect(fromAuthInfo(alice)?.userToken).toBe('alice-user');
+    expect(fromAuthInfo(bob)?.userToken).toBe('bob-user');
+  });
+});
@@ -1,6 +1,7 @@
 import http from 'http';
 import jwt from 'jsonwebtoken';
 import jwksClient from 'jwks-rsa';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 /**
  * Generic OAuth2 authentication verifier for MCP Server
@@ -265,6 +266,26 @@ export async function verifyAuth(req: http.IncomingMessage): Promise<AuthResult>
   };
 }
 
+/**
+ * Wrap an AuthResult as the SDK's AuthInfo so MCP transports hand it to
+ * request handlers (as extra.authInfo) for that request only
+ */
+export function toAuthInfo(authResult: AuthResult): AuthInfo {
+  return {
+    token: authResult.accessToken || '',
+    clientId: authResult.clientId || '',
+    scopes: [],
+    extra: { authResult },
+  };
+}
+
+/**
+ * Recover the AuthResult attached by toAuthInfo
+ */
+export function fromAuthInfo(authInfo?: AuthInfo): AuthResult | undefined {
+  return authInfo?.extra?.authResult as AuthResult | undefined;
+}
+
 /**
  * Send authentication error response
  */
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { MCPAgentClient } from './client.js';
+import type { AuthResult } from './auth-verifier.js';
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+// fetch stand-in that records each request and answers after `delayFor(body)` ms
+function stubFetch(delayFor: (body: any) => number = () => 0): SentRequest[] {
+  const sent: SentRequest[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    sent.push({ url, headers: init.headers as Record<string, string>, body });
+    await new Promise(resolve => setTimeout(resolve, delayFor(body)));
+    return new Response(JSON.stringify({ echo: body }), { status: 200 });
+  }));
+  return sent;
+}
+
+const alice: AuthResult = { success: true, accessToken: 'alice-access', userToken: 'alice-user', userId: 'alice' };
+const bob: AuthResult = { success: true, accessToken: 'bob-access', userToken: 'bob-user', userId: 'bob' };
+
+describe('MCPAgentClient.callAgent', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards only the caller\'s tokens on interleaved calls', async () => {
+    // Alice's request is answered last, so Bob's call runs entirely inside hers
+    const sent = stubFetch(body => body.caller === 'alice' ? 30 : 5);
+    const client = new MCPAgentClient('http://backend.test');
+
+    const [aliceResult, bobResult] = await Promise.all([
+      client.callAgent('cart', { action: 'view', caller: 'alice' }, alice),
+      client.callAgent('checkout', { action: 'checkout', caller: 'bob' }, bob),
+    ]);
+
+    expect(aliceResult.echo.caller).toBe('alice');
+    expect(bobResult.echo.caller).toBe('bob');
+    expect(sent).toHaveLength(2);
+
+    const aliceRequest = sent.find(request => request.body.caller === 'alice')!;
+    const bobRequest = sent.find(request => request.body.caller === 'bob')!;
+    expect(aliceRequest.url).toBe('http://backend.test/api/mcp/agents/cart');
+    expect(aliceRequest.headers['Authorization']).toBe('Bearer alice-access');
+    expect(aliceRequest.headers['X-User-Token']).toBe('Bearer alice-user');
+    expect(bobRequest.url).toBe('http://backend.test/api/mcp/agents/checkout');
+    expect(bobRequest.headers['Authorization']).toBe('Bearer bob-access');
+    expect(bobRequest.headers['X-User-Token']).toBe('Bearer bob-user');
+  });
+
+  it('never falls back to the default tokens for a caller without a user token', async () => {
+    const sent = stubFetch();
+    const client = new MCPAgentClient('http://backend.test', 'default-access', 'default-user');
+
+    await Promise.all([
+      client.callAgent('cart', { action: 'view', caller: 'alice' }, alice),
+      client.callAgent('cart', { action: 'view', caller: 'client' }, { success: true, accessToken: 'client-access' }),
+    ]);
+
+    const clientRequest = sent.find(request => request.body.caller === 'client')!;
+    expect(clientRequest.headers['Authorization']).toBe('Bearer client-access');
+    expect(clientRequest.headers['X-User-Token']).toBeUndefined();
+  });
+
+  it('uses the constructor tokens when no auth is given', async () => {
+    const sent = stubFetch();
+    const client = new MCPAgentClient('http://backend.test', 'default-access', 'default-user');
+
+    await client.callAgent('cart', { action: 'view' });
+
+    expect(sent[0].headers['Authorization']).toBe('Bearer default-access');
+    expect(sent[0].headers['X-User-Token']).toBe('Bearer default-user');
+  });
+
+  it('sends the idempotency key as a header', async () => {
+    const sent = stubFetch();
+    const client = new MCPAgentClient('http://backend.test');
+
+    await client.callAgent('checkout', { action: 'checkout', idempotencyKey: 'key-1' }, alice);
+
+    expect(sent[0].headers['Idempotency-Key']).toBe('key-1');
+  });
+});
@@ -1,11 +1,17 @@
+import type { AuthResult } from './auth-verifier.js';
+
 /**
  * HTTP client for MCP server to call Next.js API routes
  * The client can pass OAuth2 access tokens for authentication
+ *
+ * Tokens given to the constructor are only defaults (e.g. the stdio API key).
+ * HTTP transports pass the caller's AuthResult on every call instead, so one
+ * shared client never holds a user's tokens between requests.
  */
 export class MCPAgentClient {
   private baseUrl: string;
-  private accessToken: string | null;
-  private userToken?: string | null;
+  private readonly accessToken: string | null;
+  private readonly userToken?: string | null;
 
   constructor(baseUrl: string, accessToken: string | null = null, userToken?: string | null) {
     this.baseUrl = baseUrl;
@@ -13,29 +19,21 @@ export class MCPAgentClient {
     this.userToken = userToken;
   }
 
-  /**
-   * Set the access token (client credentials token)
-   */
-  setAccessToken(token: string): void {
-    this.accessToken = token;
-  }
-
-  /**
-   * Set the user token (optional, for user-specific operations)
-   */
-  setUserToken(token: string): void {
-    this.userToken = token;
-  }
-
   /**
    * Call an agent via HTTP with retry logic
+   *
+   * When auth is given, only its tokens are forwarded; otherwise the
+   * constructor defaults are used.
    */
   async callAgent(
     agentName: string,
     data: any,
+    auth?: AuthResult,
     retries = 3
   ): Promise<any> {
     const endpoint = `${this.baseUrl}/api/mcp/agents/${agentName}`;
+    const accessToken = auth ? auth.accessToken : this.accessToken;
+    const userToken = auth ? auth.userToken : this.userToken;
 
     for (let attempt = 0; attempt < retries; attempt++) {
       try {
@@ -46,13 +44,19 @@ export class MCPAgentClient {
         };
 
         // Add OAuth2 access token if available
-        if (this.accessToken) {
-          headers['Authorization'] = `Bearer ${this.accessToken}`;
+        if (accessToken) {
+          headers['Authorization'] = `Bearer ${accessToken}`;
         }
 
         // Add user token if available (optional)
-        if (this.userToken) {
-          headers['X-User-Token'] = `Bearer ${this.userToken}`;
+        if (userToken) {
+          headers['X-User-Token'] = `Bearer ${userToken}`;
+        }
+
+        // Consequential calls carry the same key on every attempt, so the
+        // backend can tell a retry from a new request
+        if (data?.idempotencyKey) {
+          headers['Idempotency-Key'] = data.idempotencyKey;
         }
 
         const response = await fetch(endpoint, {
@@ -0,0 +1,101 @@
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+
+import { CompleteRequestWithToolsSchema, UnknownCompletionReferenceError, complete } from './completions.js';
+import type { CompletionReference } from './completions.js';
+import { LocalAgentClient } from './local-agent-client.js';
+import type { AgentCaller } from './tool-registry.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+
+// Agent stand-in for a catalog outside the process
+function remoteCatalog(payload: Record<string, any>): AgentCaller & { calls: any[] } {
+  const agent = {
+    calls: [] as any[],
+    async callAgent(agentName: string, data: any) {
+      agent.calls.push({ agentName, ...data });
+      if (agentName !== 'catalog') throw new Error(`${agentName} is down`);
+      return { data: payload };
+    },
+  };
+  return agent;
+}
+
+async function values(ref: CompletionReference, name: string, value: string, client: AgentCaller): Promise<string[]> {
+  return (await complete({ ref, argument: { name, value } }, client)).completion.values;
+}
+
+const addToCart: CompletionReference = { type: 'ref/tool', name: 'add_to_cart' };
+const searchProducts: CompletionReference = { type: 'ref/tool', name: 'search_products' };
+
+describe('complete', () => {
+  const client = new LocalAgentClient();
+
+  afterEach(async () => {
+    await cartCache.clearAllCarts();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('completes product codes by prefix, code word or name', async () => {
+    expect(await values(addToCart, 'productCode', 'c', client)).toEqual(['carrots', 'cheese', 'cola']);
+    expect(await values(addToCart, 'productCode', 'chedd', client)).toEqual(['cheese']);
+    expect(await values(addToCart, 'productCode', 'xyz', client)).toEqual([]);
+  });
+
+  it('suggests the caller\'s cart items first', async () => {
+    await client.callAgent('cart', { action: 'add', productCode: 'cola', quantity: 1 });
+
+    expect((await values(addToCart, 'productCode', '', client))[0]).toBe('cola');
+    expect(await values({ type: 'ref/tool', name: 'update_cart_quantity' }, 'productCode', '', client)).toEqual(['cola']);
+  });
+
+  it('reads categories and brands from the agents, not the local catalog', async () => {
+    const agent = remoteCatalog({
+      products: [],
+      facets: { categories: [{ value: 'Bakery', count: 3 }], brands: [{ value: 'Acme', count: 3 }] },
+    });
+
+    expect(await values(searchProducts, 'category', '', agent)).toEqual(['Bakery']);
+    expect(await values(searchProducts, 'brand', 'ac', agent)).toEqual(['Acme']);
+    expect(await values({ type: 'ref/resource', uri: 'catalog://categories/{name}' }, 'name', 'b', agent)).toEqual(['Bakery']);
+    expect(agent.calls.every(call => call.action === 'search')).toBe(true);
+  });
+
+  it('reads product codes from the agents', async () => {
+    const agent = remoteCatalog({ products: [{ id: 'sourdough', name: 'Sourdough Loaf', brand: 'Acme' }] });
+
+    expect(await values(addToCart, 'productCode', 'loaf', agent)).toEqual(['sourdough']);
+    expect(agent.calls).toContainEqual(expect.objectContaining({ agentName: 'catalog', query: 'loaf', limit: 50 }));
+  });
+
+  it('suggests nothing when the agent is unavailable', async () => {
+    const agent = remoteCatalog({});
+
+    expect(await values({ type: 'ref/tool', name: 'get_order' }, 'orderId', '', agent)).toEqual([]);
+  });
+
+  it('completes enum arguments and fixed prompt values', async () => {
+    expect(await values({ type: 'ref/tool', name: 'add_payment_method' }, 'type', 'p', client)).toEqual(['paypal']);
+    expect(await values({ type: 'ref/prompt', name: 'plan_meals' }, 'dietary', 've', client)).toEqual(['vegan', 'vegetarian']);
+    expect(await values({ type: 'ref/prompt', name: 'plan_meals' }, 'days', '', client)).toEqual([]);
+  });
+
+  it('rejects unknown references', async () => {
+    await expect(values({ type: 'ref/tool', name: 'nope' }, 'x', '', client)).rejects.toThrow('Unknown tool: nope');
+    await expect(values({ type: 'ref/prompt', name: 'nope' }, 'x', '', client)).rejects.toBeInstanceOf(UnknownCompletionReferenceError);
+    await expect(values({ type: 'ref/resource', uri: 'cart://nope/{x}' }, 'x', '', client))
+      .rejects.toThrow('Unknown resource template: cart://nope/{x}');
+  });
+
+  it('accepts ref/tool requests alongside the spec reference types', () => {
+    const request = (ref: Record<string, string>) => ({
+      method: 'completion/complete',
+      params: { ref, argument: { name: 'productCode', value: 'ch' } },
+    });
+
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/tool', name: 'add_to_cart' })).success).toBe(true);
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/prompt', name: 'plan_meals' })).success).toBe(true);
+    expect(CompleteRequestWithToolsSchema.safeParse(request({ type: 'ref/widget', name: 'x' })).success).toBe(false);
+  });
+});
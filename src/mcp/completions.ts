@@ -0,0 +1,236 @@
+import {
+  CompleteRequestSchema,
+  CompleteResult,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { loadAgentPayload } from './tool-results.js';
+import { toolRegistry } from './tool-registry.js';
+import type { AgentCaller } from './tool-registry.js';
+import { mcpPrompts } from './prompts.js';
+import { resourceTemplateCompletions } from './resources.js';
+import type { AuthResult } from './auth-verifier.js';
+
+/**
+ * Argument completion (completion/complete)
+ *
+ * Tools, prompts and resource templates declare where suggestions for an
+ * argument come from, read through the same agents as the tools:
+ *   products    catalog product codes (the caller's cart items first)
+ *   cart_items  product codes in the caller's cart
+ *   categories  catalog categories
+ *   brands      catalog brands
+ *   orders      the caller's order ids, newest first
+ * or a fixed list of values. Tool arguments with an enum in their input
+ * schema complete to the enum values without a declaration.
+ *
+ * Suggestions are ranked against the partial value: exact match, then
+ * prefix, then a word of the value or product name starting with it, then
+ * (from two characters on) substring matches.
+ *
+ * The MCP spec only defines prompt (ref/prompt) and resource template
+ * (ref/resource) references. Tool arguments are completed with a
+ * { type: 'ref/tool', name } reference, an extension of this server.
+ */
+
+// The MCP spec caps a completion response at 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+// Orders considered for order id suggestions
+const ORDER_SUGGESTION_LIMIT = 20;
+
+// Catalog matches considered for product code suggestions (one search_products page)
+const PRODUCT_SUGGESTION_LIMIT = 50;
+
+export type CompletionSource = 'products' | 'cart_items' | 'categories' | 'brands' | 'orders' | readonly string[];
+
+/**
+ * Reference to a tool whose argument is completed. Not in the MCP spec,
+ * which only has ref/prompt and ref/resource: only clients written for
+ * this server send it.
+ */
+export const ToolReferenceSchema = z
+  .object({
+    type: z.literal('ref/tool'),
+    name: z.string(),
+  })
+  .passthrough();
+
+/**
+ * completion/complete, also accepting tool references
+ */
+export const CompleteRequestWithToolsSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceTemplateReferenceSchema, ToolReferenceSchema]),
+  }),
+});
+
+export type CompletionReference = z.infer<typeof CompleteRequestWithToolsSchema>['params']['ref'];
+
+/**
+ * Thrown when the referenced prompt, resource template or tool doesn't exist
+ */
+export class UnknownCompletionReferenceError extends Error {
+  constructor(ref: CompletionReference) {
+    super(ref.type === 'ref/resource'
+      ? `Unknown resource template: ${ref.uri}`
+      : `Unknown ${ref.type === 'ref/prompt' ? 'prompt' : 'tool'}: ${ref.name}`);
+    this.name = 'UnknownCompletionReferenceError';
+  }
+}
+
+interface CompletionContext {
+  client: AgentCaller;
+  auth?: AuthResult;
+}
+
+interface Candidate {
+  value: string;
+  label?: string;      // Extra text to match against (e.g. the product name)
+  preferred?: boolean; // Listed before other matches of the same rank
+}
+
+async function cartCandidates(context: CompletionContext): Promise<Candidate[]> {
+  const payload = await loadAgentPayload(context, 'cart', { action: 'view' }, 'completions');
+  return (payload?.cart?.items || []).map((item: any) => ({ value: item.id, label: item.name, preferred: true }));
+}
+
+// Catalog products: search matches for the partial value, then the first
+// page of the catalog (search needs more than a letter or two to match)
+async function productCandidates(context: CompletionContext, partial: string): Promise<Candidate[]> {
+  const query = partial.trim();
+  const payloads = await Promise.all([
+    query ? loadAgentPayload(context, 'catalog', { action: 'search', query, limit: PRODUCT_SUGGESTION_LIMIT }, 'completions') : null,
+    loadAgentPayload(context, 'catalog', { action: 'search', limit: PRODUCT_SUGGESTION_LIMIT }, 'completions'),
+  ]);
+  return payloads.flatMap(payload => (payload?.products || [])
+    .map((product: any) => ({ value: product.id, label: `${product.name} ${product.brand}` })));
+}
+
+// Every category or brand in the catalog, from the facets of an unfiltered search
+async function facetCandidates(context: CompletionContext, facet: 'categories' | 'brands'): Promise<Candidate[]> {
+  const payload = await loadAgentPayload(context, 'catalog', { action: 'search', limit: 1 }, 'completions');
+  return (payload?.facets?.[facet] || []).map((count: any) => ({ value: String(count.value) }));
+}
+
+async function loadCandidates(source: CompletionSource, context: CompletionContext, partial: string): Promise<Candidate[]> {
+  if (typeof source !== 'string') {
+    return source.map(value => ({ value }));
+  }
+
+  switch (source) {
+    case 'products': {
+      const [inCart, products] = await Promise.all([cartCandidates(context), productCandidates(context, partial)]);
+      const cartIds = new Set(inCart.map(candidate => candidate.value.toLowerCase()));
+      return [...inCart, ...products.filter(candidate => !cartIds.has(candidate.value.toLowerCase()))];
+    }
+
+    case 'cart_items':
+      return cartCandidates(context);
+
+    case 'categories':
+    case 'brands':
+      return facetCandidates(context, source);
+
+    case 'orders': {
+      const payload = await loadAgentPayload(context, 'orders', { action: 'list', limit: ORDER_SUGGESTION_LIMIT }, 'completions');
+      return (payload?.orders || []).map((order: any) => ({ value: order.orderId, preferred: order.status !== 'cancelled' }));
+    }
+  }
+}
+
+// Lower is better; null when the candidate doesn't match at all
+function matchRank(candidate: Candidate, partial: string): number | null {
+  if (!partial) return 0;
+
+  const value = candidate.value.toLowerCase();
+  const label = (candidate.label || '').toLowerCase();
+  if (value === partial) return 0;
+  if (value.startsWith(partial)) return 1;
+  if (`${value} ${label}`.split(/[^a-z0-9]+/).some(word => word.startsWith(partial))) return 2;
+  // Single letters match too much inside words
+  if (partial.length > 1 && (value.includes(partial) || label.includes(partial))) return 3;
+  return null;
+}
+
+// Rank candidates for a partial value into a completion result
+function rankCompletions(candidates: Candidate[], partial: string): CompleteResult {
+  const query = partial.trim().toLowerCase();
+  const seen = new Set<string>();
+  const ranked = candidates
+    .map((candidate, index) => ({ candidate, index, rank: matchRank(candidate, query) }))
+    .filter(({ candidate, rank }) => {
+      if (rank === null || seen.has(candidate.value)) return false;
+      seen.add(candidate.value);
+      return true;
+    })
+    .sort((a, b) =>
+      a.rank! - b.rank! ||
+      Number(!!b.candidate.preferred) - Number(!!a.candidate.preferred) ||
+      (query ? a.candidate.value.localeCompare(b.candidate.value) : a.index - b.index));
+
+  return {
+    completion: {
+      values: ranked.slice(0, MAX_COMPLETION_VALUES).map(({ candidate }) => candidate.value),
+      total: ranked.length,
+      hasMore: ranked.length > MAX_COMPLETION_VALUES,
+    },
+  };
+}
+
+/**
+ * Suggestions for an argument from its declared source; no suggestions
+ * when the argument has none
+ */
+export async function completeArgument(
+  source: CompletionSource | undefined,
+  partial: string,
+  client: AgentCaller,
+  auth?: AuthResult
+): Promise<CompleteResult> {
+  if (!source) {
+    return { completion: { values: [], total: 0, hasMore: false } };
+  }
+  return rankCompletions(await loadCandidates(source, { client, auth }, partial), partial);
+}
+
+// Where a reference's argument gets its suggestions from
+function findSource(ref: CompletionReference, argumentName: string): CompletionSource | undefined {
+  switch (ref.type) {
+    case 'ref/prompt': {
+      const prompt = mcpPrompts.find(definition => definition.name === ref.name);
+      if (!prompt) throw new UnknownCompletionReferenceError(ref);
+      return prompt.completions?.[argumentName];
+    }
+
+    case 'ref/resource': {
+      const template = resourceTemplateCompletions[ref.uri];
+      if (!template) throw new UnknownCompletionReferenceError(ref);
+      return template[argumentName];
+    }
+
+    case 'ref/tool': {
+      const tool = toolRegistry.get(ref.name);
+      if (!tool) throw new UnknownCompletionReferenceError(ref);
+      const property = tool.inputSchema.properties?.[argumentName] as { enum?: unknown[] } | undefined;
+      return tool.completions?.[argumentName] ??
+        (Array.isArray(property?.enum) ? property.enum.map(String) : undefined);
+    }
+  }
+}
+
+/**
+ * Handle completion/complete for the caller
+ *
+ * @throws UnknownCompletionReferenceError if the reference doesn't exist
+ */
+export async function complete(
+  params: z.infer<typeof CompleteRequestWithToolsSchema>['params'],
+  client: AgentCaller,
+  auth?: AuthResult
+): Promise<CompleteResult> {
+  const source = findSource(params.ref, params.argument.name);
+  return completeArgument(source, params.argument.value, client, auth);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+import { InMemoryEventStore } from './event-store.js';
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/message', params: { n } };
+}
+
+async function replay(store: InMemoryEventStore, lastEventId: string): Promise<{ streamId: string; sent: JSONRPCMessage[] }> {
+  const sent: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => {
+      sent.push(message);
+    },
+  });
+  return { streamId, sent };
+}
+
+describe('InMemoryEventStore', () => {
+  it('replays the events of the same stream after the last event ID', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream-a', notification(1));
+    await store.storeEvent('stream-b', notification(2));
+    await store.storeEvent('stream-a', notification(3));
+    await store.storeEvent('stream-a', notification(4));
+
+    expect(first.startsWith('stream-a_')).toBe(true);
+    expect(await replay(store, first)).toEqual({ streamId: 'stream-a', sent: [notification(3), notification(4)] });
+  });
+
+  it('replays nothing when the client has seen every event', async () => {
+    const store = new InMemoryEventStore();
+    const last = await store.storeEvent('stream-a', notification(1));
+
+    expect(await replay(store, last)).toEqual({ streamId: 'stream-a', sent: [] });
+  });
+
+  it('keeps only the most recent events', async () => {
+    const store = new InMemoryEventStore(2);
+    const oldest = await store.storeEvent('stream-a', notification(1));
+    const kept = await store.storeEvent('stream-a', notification(2));
+    await store.storeEvent('stream-a', notification(3));
+
+    await expect(replay(store, oldest)).rejects.toThrow(`Unknown or expired event ID: ${oldest}`);
+    expect((await replay(store, kept)).sent).toEqual([notification(3)]);
+  });
+});
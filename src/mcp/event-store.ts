@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+/**
+ * In-memory event store for Streamable HTTP resumability
+ *
+ * Every message sent on an SSE stream is recorded with an event ID so a
+ * client that reconnects with a Last-Event-ID header gets the messages it
+ * missed on that stream. Only the most recent events are kept.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+
+  constructor(private maxEvents = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    // Event IDs embed the stream ID so replays can find their stream
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Map preserves insertion order, so the first key is the oldest event
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest !== undefined) {
+        this.events.delete(oldest);
+      }
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      throw new Error(`Unknown or expired event ID: ${lastEventId}`);
+    }
+
+    const { streamId } = lastEvent;
+    let found = false;
+
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === streamId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
@@ -0,0 +1,109 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Results of consequential tool calls, keyed by idempotency key
+ *
+ * A call made again with the same key (a client retry after a timeout, a
+ * duplicate REST request) gets the stored result instead of running twice,
+ * so a retried checkout can't place a second order. A duplicate that
+ * arrives while the first call is still running waits for its result.
+ * Failed calls are not stored and can be retried with the same key.
+ *
+ * Keys are scoped to the caller and expire after
+ * IDEMPOTENCY_KEY_TTL_MINUTES (default 1440).
+ */
+
+/**
+ * Thrown when a key is reused for a different tool or different arguments
+ */
+export class IdempotencyKeyReuseError extends Error {
+  constructor(public readonly idempotencyKey: string) {
+    super(`Idempotency key ${idempotencyKey} was already used for a different request; use a new key`);
+    this.name = 'IdempotencyKeyReuseError';
+  }
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  expiresAt: number;
+  result: Promise<CallToolResult>;
+}
+
+/**
+ * Stable JSON for a request (object keys sorted), used to detect key reuse
+ */
+export function fingerprintRequest(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item);
+}
+
+export class IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(private readonly ttlMs?: number) {}
+
+  getTtlMs(): number {
+    return this.ttlMs ?? Number(process.env.IDEMPOTENCY_KEY_TTL_MINUTES || 1440) * 60 * 1000;
+  }
+
+  /**
+   * Run a call once per (scope, key); replays return the first result
+   *
+   * @throws IdempotencyKeyReuseError if the key was used with another fingerprint
+   */
+  async execute(
+    scope: string,
+    idempotencyKey: string,
+    fingerprint: string,
+    run: () => Promise<CallToolResult>
+  ): Promise<{ result: CallToolResult; replayed: boolean }> {
+    this.purgeExpired();
+
+    const id = `${scope}:${idempotencyKey}`;
+    const existing = this.records.get(id);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new IdempotencyKeyReuseError(idempotencyKey);
+      }
+      console.error(`[idempotency] Replaying result for key ${idempotencyKey}`);
+      return { result: structuredClone(await existing.result), replayed: true };
+    }
+
+    const record: IdempotencyRecord = {
+      fingerprint,
+      expiresAt: Date.now() + this.getTtlMs(),
+      result: run(),
+    };
+    this.records.set(id, record);
+
+    try {
+      const result = await record.result;
+      record.expiresAt = Date.now() + this.getTtlMs();
+      return { result: structuredClone(result), replayed: false };
+    } catch (error) {
+      if (this.records.get(id) === record) {
+        this.records.delete(id);
+      }
+      throw error;
+    }
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [id, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LocalAgentClient } from './local-agent-client.js';
+import type { AuthResult } from './auth-verifier.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+import { orderStore } from '../lib/orders/order-store.js';
+import { getCouponRedemptionCount } from '../lib/promotions/coupons.js';
+
+function caller(userId: string): AuthResult {
+  return { success: true, userId };
+}
+
+describe('LocalAgentClient checkout with SAVE10', () => {
+  let client: LocalAgentClient;
+
+  // A cart over the $25 minimum with SAVE10 applied, checked out
+  async function checkOutWithCoupon(auth: AuthResult): Promise<Record<string, any>> {
+    await client.callAgent('cart', { action: 'add', productCode: 'cheese', quantity: 5 }, auth);
+    await client.callAgent('cart', { action: 'apply_coupon', code: 'SAVE10' }, auth);
+    return (await client.callAgent('cart', { action: 'checkout' }, auth)).data;
+  }
+
+  function applyCoupon(auth: AuthResult): Promise<any> {
+    return client.callAgent('cart', { action: 'apply_coupon', code: 'SAVE10' }, auth);
+  }
+
+  beforeEach(() => {
+    // Only Date is faked, so the mock CIBA server and its sockets run normally
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+    vi.stubEnv('CIBA_PROVIDER', 'mock');
+    vi.stubEnv('CIBA_MOCK_DECISION_DELAY_SECONDS', '0');
+    client = new LocalAgentClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cartCache.clearAllCarts();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('counts the coupon as redeemed while the order awaits approval', async () => {
+    vi.stubEnv('CIBA_MOCK_DECISION', 'manual');
+    const alice = caller('alice');
+
+    const checkout = await checkOutWithCoupon(alice);
+    expect(checkout.status).toBe('pending');
+    expect(getCouponRedemptionCount('alice', 'SAVE10')).toBe(1);
+
+    // A second cart can't use the single-use coupon while the first order is pending
+    await client.callAgent('cart', { action: 'add', productCode: 'cheese', quantity: 5 }, alice);
+    await expect(applyCoupon(alice)).rejects.toThrow(/SAVE10 has already been used/);
+
+    await client.callAgent('orders', { action: 'cancel', orderId: checkout.orderId }, alice);
+  });
+
+  it('releases the redemption when the pending order is cancelled', async () => {
+    vi.stubEnv('CIBA_MOCK_DECISION', 'manual');
+    const bob = caller('bob');
+
+    const checkout = await checkOutWithCoupon(bob);
+    await client.callAgent('orders', { action: 'cancel', orderId: checkout.orderId }, bob);
+
+    expect(getCouponRedemptionCount('bob', 'SAVE10')).toBe(0);
+    await client.callAgent('cart', { action: 'add', productCode: 'cheese', quantity: 5 }, bob);
+    await expect(applyCoupon(bob)).resolves.toBeDefined();
+  });
+
+  it('releases the redemption and restores the cart when approval is denied', async () => {
+    vi.stubEnv('CIBA_MOCK_DECISION', 'deny');
+    const carol = caller('carol');
+
+    const checkout = await checkOutWithCoupon(carol);
+    expect(getCouponRedemptionCount('carol', 'SAVE10')).toBe(1);
+
+    vi.setSystemTime(Date.now() + checkout.pollIntervalSeconds * 1000);
+    const status = (await client.callAgent('cart', {
+      action: 'checkout_status',
+      authorizationId: checkout.authorizationId,
+    }, carol)).data;
+
+    expect(status.status).toBe('denied');
+    expect(status.order.status).toBe('cancelled');
+    expect(getCouponRedemptionCount('carol', 'SAVE10')).toBe(0);
+    const cart = (await client.callAgent('cart', { action: 'view' }, carol)).data.cart;
+    expect(cart.coupons).toEqual(['SAVE10']);
+    expect(cart.items).toEqual([expect.objectContaining({ id: 'cheese', quantity: 5 })]);
+  });
+
+  it('releases the redemption when approval expires', async () => {
+    vi.stubEnv('CIBA_MOCK_DECISION', 'manual');
+    const dave = caller('dave');
+
+    const checkout = await checkOutWithCoupon(dave);
+    vi.setSystemTime(new Date(checkout.expiresAt));
+    const status = (await client.callAgent('cart', {
+      action: 'checkout_status',
+      authorizationId: checkout.authorizationId,
+    }, dave)).data;
+
+    expect(status.status).toBe('expired');
+    expect(getCouponRedemptionCount('dave', 'SAVE10')).toBe(0);
+  });
+});
+
+describe('LocalAgentClient agents', () => {
+  const alice = caller('alice');
+  let client: LocalAgentClient;
+
+  async function cartAgent(data: Record<string, any>, auth: AuthResult = alice): Promise<Record<string, any>> {
+    return (await client.callAgent('cart', data, auth)).data;
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('CIBA_PROVIDER', 'none');
+    client = new LocalAgentClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cartCache.clearAllCarts();
+    orderStore.clearAllOrders();
+    vi.unstubAllEnvs();
+  });
+
+  it('answers catalog searches, lookups and categories', async () => {
+    const { data: search } = await client.callAgent('catalog', { action: 'search', query: 'milk', limit: 1 });
+    expect(search).toEqual(expect.objectContaining({ query: 'milk', products: [expect.objectContaining({ id: 'milk' })] }));
+
+    expect((await client.callAgent('catalog', { action: 'get', productId: 'milk' })).data.product.name).toBe('2% Reduced Fat Milk');
+    expect((await client.callAgent('catalog', { action: 'get', productId: 'caviar' })).data.product).toBeNull();
+
+    const { data: dairy } = await client.callAgent('catalog', { action: 'category', category: 'Dairy' });
+    expect(dairy.products.every((product: any) => product.category === 'Dairy')).toBe(true);
+  });
+
+  it('keeps a cart per user and prices it', async () => {
+    const added = await cartAgent({ action: 'add', productCode: '2% Reduced Fat Milk', quantity: 2 });
+
+    expect(added.message).toBe('Added 2 x 2% Reduced Fat Milk to your cart.');
+    expect(added.cart.items).toEqual([expect.objectContaining({ id: 'milk', quantity: 2, category: 'Dairy' })]);
+    expect(added.pricing.subtotal).toEqual({ amount: 838, currency: 'USD' });
+    expect((await cartAgent({ action: 'view' }, caller('bob'))).cart.items).toEqual([]);
+
+    expect((await cartAgent({ action: 'update_quantity', productCode: 'MILK', quantity: 3 })).cart.items[0].quantity).toBe(3);
+    const removed = await cartAgent({ action: 'update_quantity', productCode: 'milk', quantity: 0 });
+    expect(removed.message).toBe('Removed 2% Reduced Fat Milk from your cart.');
+    expect(removed.cart.items).toEqual([]);
+  });
+
+  it('explains cart changes it cannot make', async () => {
+    await expect(cartAgent({ action: 'add', productCode: 'caviar' })).rejects.toThrow('Product not found: caviar');
+    await expect(cartAgent({ action: 'remove', productCode: 'milk' })).rejects.toThrow('milk is not in your cart');
+    await expect(cartAgent({ action: 'update_quantity', productCode: 'milk', quantity: 1 }))
+      .rejects.toThrow('milk is not in your cart; use add_to_cart to add it');
+    await expect(cartAgent({ action: 'checkout' })).rejects.toThrow('Cannot check out an empty cart');
+    await expect(cartAgent({ action: 'fly' })).rejects.toThrow('Unknown cart action: fly');
+    await expect(client.callAgent('pharmacy', { action: 'get' })).rejects.toThrow('Unknown agent: pharmacy');
+  });
+
+  it('places the order at once without an authorization provider', async () => {
+    const { data: card } = await client.callAgent('payment', { action: 'add', type: 'credit_card' }, alice);
+    await cartAgent({ action: 'add', productCode: 'cheese', quantity: 1 });
+
+    const checkout = await cartAgent({ action: 'checkout' });
+
+    expect(checkout).toEqual(expect.objectContaining({ status: 'completed', orderId: expect.stringMatching(/^ord_/) }));
+    expect(checkout.order).toEqual(expect.objectContaining({ status: 'placed', paymentMethodId: card.paymentMethodId }));
+    expect((await cartAgent({ action: 'view' })).cart.items).toEqual([]);
+  });
+
+  it('only checks out with the caller\'s own payment methods', async () => {
+    const { data: card } = await client.callAgent('payment', { action: 'add', type: 'paypal' }, caller('bob'));
+    await cartAgent({ action: 'add', productCode: 'cheese', quantity: 1 });
+
+    await expect(cartAgent({ action: 'checkout', paymentMethodId: card.paymentMethodId }))
+      .rejects.toThrow(`Payment method ${card.paymentMethodId} not found`);
+    expect((await cartAgent({ action: 'view' })).cart.items).toHaveLength(1);
+  });
+});
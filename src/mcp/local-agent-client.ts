@@ -0,0 +1,475 @@
+import { randomUUID } from 'crypto';
+
+import { findProduct, getProductById, getProductsByCategory } from '../lib/product-catalog.js';
+import { queryProducts } from '../lib/catalog/product-query.js';
+import { cartCache, Cart, CartItem, CartVersionConflictError } from '../lib/cache/cart-cache.js';
+import { inventoryCache } from '../lib/cache/inventory-cache.js';
+import { priceCart, CartPricing } from '../lib/pricing/pricing-engine.js';
+import { toDollars } from '../lib/pricing/money.js';
+import { describePromotion, getActivePromotions } from '../lib/promotions/promotions.js';
+import {
+  CouponRejectedError,
+  normalizeCouponCode,
+  recordCouponRedemption,
+  releaseCouponRedemption,
+} from '../lib/promotions/coupons.js';
+import { orderStore } from '../lib/orders/order-store.js';
+import type { Order } from '../lib/orders/order-store.js';
+import { createCibaProviderFromEnv } from '../lib/ciba/ciba-provider.js';
+import { AuthorizationNotFoundError, CheckoutAuthorizations } from '../lib/ciba/checkout-authorizations.js';
+import type { CheckoutAuthorization } from '../lib/ciba/checkout-authorizations.js';
+import type { AgentCaller } from './tool-registry.js';
+import type { AuthResult } from './auth-verifier.js';
+
+/**
+ * In-process agent backend (MCP_AGENT_BACKEND=local)
+ *
+ * Implements the catalog, cart, deals, orders and payment agents on top of
+ * product-catalog, cart-cache, pricing, promotions and the order store, so
+ * the server runs end to end without the Next.js app. Results are returned
+ * as `{ data }` payloads that the tool result formatters turn into
+ * structured content.
+ */
+
+// Cart owner when the caller is not authenticated (auth mode none, stdio)
+const LOCAL_USER_ID = process.env.LOCAL_USER_ID || 'local-user';
+
+interface PaymentMethod {
+  paymentMethodId: string;
+  type: string;
+  createdAt: Date;
+}
+
+type AgentHandler = (data: Record<string, any>, userId: string) => Promise<Record<string, any>>;
+
+/**
+ * Resolve the user that owns carts and payment methods for a request
+ */
+export function getLocalUserId(auth?: AuthResult): string {
+  return auth?.userId || auth?.clientId || LOCAL_USER_ID;
+}
+
+function emptyCart(userId: string): Cart {
+  const now = new Date();
+  return {
+    userId,
+    items: [],
+    totalItems: 0,
+    totalValue: 0,
+    version: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Price breakdown for a cart, with its coupons; items added before
+ * categories were stored fall back to the catalog category
+ */
+function priceUserCart(cart: Cart, coupons: string[] = cart.coupons || []): CartPricing {
+  return priceCart(cart.items.map(item => ({
+    ...item,
+    category: item.category ?? getProductById(item.id)?.category,
+  })), { coupons, userId: cart.userId });
+}
+
+/**
+ * Cart line for a product code, SKU or name as the user gave it
+ */
+function findCartItem(cart: Cart | null, productCode: string): CartItem | undefined {
+  if (!cart) return undefined;
+  const productId = cart.items.some(item => item.id.toLowerCase() === productCode.toLowerCase())
+    ? productCode
+    : findProduct(productCode)?.id;
+  return productId ? cart.items.find(item => item.id.toLowerCase() === productId.toLowerCase()) : undefined;
+}
+
+/**
+ * Short text shown on the user's device; kept to the characters CIBA
+ * servers commonly accept in binding messages
+ */
+function bindingMessage(order: Order): string {
+  return `Approve Safeway order ${order.orderId.slice(4, 12)} for ` +
+    `${(order.grandTotal.amount / 100).toFixed(2)} ${order.grandTotal.currency}`;
+}
+
+function checkoutStatus(authorization: CheckoutAuthorization, order: Order): Record<string, any> {
+  return {
+    status: authorization.status,
+    authorizationId: authorization.authorizationId,
+    orderId: order.orderId,
+    expiresAt: authorization.expiresAt,
+    pollIntervalSeconds: authorization.pollIntervalSeconds,
+    ...(authorization.reason && { reason: authorization.reason }),
+    total: toDollars(order.grandTotal),
+    order,
+  };
+}
+
+export class LocalAgentClient implements AgentCaller {
+  private paymentMethods = new Map<string, PaymentMethod[]>();
+  private authorizations: CheckoutAuthorizations | null | undefined;
+
+  private agents: Record<string, AgentHandler> = {
+    catalog: (data) => this.catalogAgent(data),
+    cart: (data, userId) => this.cartAgent(data, userId),
+    deals: (data) => this.dealsAgent(data),
+    orders: (data, userId) => this.ordersAgent(data, userId),
+    payment: (data, userId) => this.paymentAgent(data, userId),
+  };
+
+  async callAgent(agentName: string, data: any, auth?: AuthResult): Promise<any> {
+    const agent = this.agents[agentName];
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentName}`);
+    }
+
+    const userId = getLocalUserId(auth);
+    console.error(`[Local Agents] ${agentName}.${data.action} for ${userId}`);
+
+    return { data: await agent(data, userId) };
+  }
+
+  private async catalogAgent(data: Record<string, any>): Promise<Record<string, any>> {
+    switch (data.action) {
+      case 'search': {
+        const { action: _action, ...query } = data;
+        return { ...(query.query && { query: query.query }), ...queryProducts(query) };
+      }
+
+      // A single product by id; product is null if there is none
+      case 'get':
+        return { product: getProductById(String(data.productId || '')) };
+
+      case 'category':
+        return { category: data.category, products: getProductsByCategory(String(data.category || '')) };
+
+      default:
+        throw new Error(`Unknown catalog action: ${data.action}`);
+    }
+  }
+
+  private async cartAgent(data: Record<string, any>, userId: string): Promise<Record<string, any>> {
+    switch (data.action) {
+      case 'add': {
+        const product = findProduct(data.productCode);
+        if (!product) {
+          throw new Error(`Product not found: ${data.productCode}`);
+        }
+
+        // Reserves stock; throws InsufficientStockError ("only 3 left")
+        const quantity = data.quantity ?? 1;
+        await cartCache.addItemToCart(userId, {
+          id: product.id,
+          name: product.name,
+          category: product.category,
+          price: product.price,
+          quantity,
+          totalPrice: product.price * quantity,
+        }, data.expectedVersion);
+
+        const cart = (await cartCache.getUserCart(userId))!;
+        return {
+          message: `Added ${quantity} x ${product.name} to your cart.`,
+          cart,
+          pricing: priceUserCart(cart),
+        };
+      }
+
+      case 'remove': {
+        const item = findCartItem(await cartCache.getUserCart(userId), data.productCode);
+        if (!item) {
+          throw new Error(`${data.productCode} is not in your cart`);
+        }
+
+        await cartCache.removeItemFromCart(userId, item.id, data.expectedVersion);
+        const cart = await cartCache.getUserCart(userId) || emptyCart(userId);
+        return {
+          message: `Removed ${item.name || item.id} from your cart.`,
+          cart,
+          pricing: priceUserCart(cart),
+        };
+      }
+
+      case 'update_quantity': {
+        const item = findCartItem(await cartCache.getUserCart(userId), data.productCode);
+        if (!item) {
+          throw new Error(`${data.productCode} is not in your cart; use add_to_cart to add it`);
+        }
+
+        // Reserves stock for the new quantity; 0 removes the item
+        await cartCache.updateItemQuantity(userId, item.id, data.quantity, data.expectedVersion);
+        const cart = await cartCache.getUserCart(userId) || emptyCart(userId);
+        return {
+          message: data.quantity > 0
+            ? `Updated ${item.name || item.id} to ${data.quantity}.`
+            : `Removed ${item.name || item.id} from your cart.`,
+          cart,
+          pricing: priceUserCart(cart),
+        };
+      }
+
+      case 'clear': {
+        await cartCache.clearCart(userId, data.expectedVersion);
+        return { message: 'Your cart has been cleared.', cart: emptyCart(userId) };
+      }
+
+      case 'view': {
+        const cart = await cartCache.getUserCart(userId) || emptyCart(userId);
+        return { cart, pricing: priceUserCart(cart) };
+      }
+
+      case 'checkout': {
+        const cart = await cartCache.getUserCart(userId);
+        if (!cart || cart.items.length === 0) {
+          throw new Error('Cannot check out an empty cart');
+        }
+        if (data.expectedVersion !== undefined && data.expectedVersion !== cart.version) {
+          throw new CartVersionConflictError(userId, data.expectedVersion, cart.version);
+        }
+
+        const paymentMethod = this.findPaymentMethod(userId, data.paymentMethodId);
+        const pricing = priceUserCart(cart);
+
+        // A cart that can no longer be fulfilled gives up its reservations
+        try {
+          inventoryCache.commit(userId, cart.items);
+        } catch (error) {
+          inventoryCache.releaseAll(userId);
+          throw error;
+        }
+
+        // The cart's contents move into the order while payment is authorized.
+        // Its coupons count as redeemed from now on, so several pending
+        // checkouts can't each use a single-use coupon
+        const order = orderStore.createOrder({
+          userId,
+          pricing,
+          cartVersion: cart.version,
+          paymentMethodId: paymentMethod?.paymentMethodId,
+        });
+        order.coupons.forEach(code => recordCouponRedemption(userId, code));
+        await cartCache.clearCart(userId);
+
+        const authorizations = this.getAuthorizations();
+        if (!authorizations) {
+          // CIBA_PROVIDER=none: no approval step, the order is placed right away
+          const placed = this.placeOrder(order);
+          return {
+            status: 'completed',
+            orderId: placed.orderId,
+            total: toDollars(pricing.grandTotal),
+            pricing,
+            order: placed,
+          };
+        }
+
+        let authorization: CheckoutAuthorization;
+        try {
+          authorization = await authorizations.start(userId, order.orderId, bindingMessage(order));
+        } catch (error) {
+          await this.releaseOrder(order, 'Payment authorization could not be requested');
+          throw error;
+        }
+
+        return {
+          ...checkoutStatus(authorization, order),
+          pricing,
+        };
+      }
+
+      case 'checkout_status': {
+        const authorizations = this.getAuthorizations();
+        if (!authorizations) {
+          throw new AuthorizationNotFoundError(data.authorizationId);
+        }
+
+        const authorization = await authorizations.refresh(userId, data.authorizationId);
+        return checkoutStatus(authorization, orderStore.getOrder(userId, authorization.orderId));
+      }
+
+      case 'apply_coupon': {
+        const code = normalizeCouponCode(data.code);
+        const cart = await cartCache.getUserCart(userId) || emptyCart(userId);
+        if (cart.coupons?.includes(code)) {
+          return { message: `Coupon ${code} is already applied.`, cart, pricing: priceUserCart(cart) };
+        }
+
+        // Price the cart as if the coupon were applied to check it qualifies
+        const pricing = priceUserCart(cart, [...(cart.coupons || []), code]);
+        const result = pricing.coupons.find(coupon => coupon.code === code);
+        if (!result?.applied) {
+          throw new CouponRejectedError(code, result?.reason || `Coupon ${code} cannot be applied`);
+        }
+
+        await cartCache.applyCoupon(userId, code, data.expectedVersion);
+        const updated = (await cartCache.getUserCart(userId))!;
+        return {
+          message: `Coupon ${code} applied: ${result.description}.`,
+          cart: updated,
+          pricing: priceUserCart(updated),
+        };
+      }
+
+      case 'remove_coupon': {
+        const code = normalizeCouponCode(data.code);
+        if (!await cartCache.removeCoupon(userId, code, data.expectedVersion)) {
+          throw new Error(`Coupon ${code} is not applied to your cart`);
+        }
+
+        const cart = await cartCache.getUserCart(userId) || emptyCart(userId);
+        return { message: `Coupon ${code} removed.`, cart, pricing: priceUserCart(cart) };
+      }
+
+      default:
+        throw new Error(`Unknown cart action: ${data.action}`);
+    }
+  }
+
+  private async ordersAgent(data: Record<string, any>, userId: string): Promise<Record<string, any>> {
+    switch (data.action) {
+      case 'get':
+        return { order: orderStore.getOrder(userId, data.orderId) };
+
+      case 'list': {
+        const orders = orderStore.listOrders(userId, { status: data.status, limit: data.limit ?? 10 });
+        return { ...(data.status && { status: data.status }), orders };
+      }
+
+      case 'cancel': {
+        const order = orderStore.updateStatus(userId, data.orderId, 'cancelled', data.reason || 'Cancelled by customer');
+
+        // Nothing was picked yet: the stock and any single-use coupons go back
+        inventoryCache.restock(order.items.map(item => ({ id: item.productId, quantity: item.quantity })));
+        order.coupons.forEach(code => releaseCouponRedemption(userId, code));
+
+        return { message: `Order ${order.orderId} has been cancelled.`, order };
+      }
+
+      default:
+        throw new Error(`Unknown orders action: ${data.action}`);
+    }
+  }
+
+  private async dealsAgent(data: Record<string, any>): Promise<Record<string, any>> {
+    switch (data.action) {
+      case 'get': {
+        const deals = getActivePromotions(new Date(), data.category).map(promotion => ({
+          id: promotion.id,
+          title: promotion.title,
+          description: describePromotion(promotion),
+          type: promotion.type,
+          ...(promotion.category && { category: promotion.category }),
+          ...(promotion.productIds && { productIds: promotion.productIds }),
+          ...(promotion.startsAt && { validFrom: promotion.startsAt }),
+          ...(promotion.endsAt && { validUntil: promotion.endsAt }),
+        }));
+        return { ...(data.category && { category: data.category }), deals };
+      }
+
+      default:
+        throw new Error(`Unknown deals action: ${data.action}`);
+    }
+  }
+
+  private async paymentAgent(data: Record<string, any>, userId: string): Promise<Record<string, any>> {
+    switch (data.action) {
+      case 'add': {
+        const paymentMethod: PaymentMethod = {
+          paymentMethodId: `pm_${randomUUID()}`,
+          type: data.type,
+          createdAt: new Date(),
+        };
+
+        const methods = this.paymentMethods.get(userId) || [];
+        methods.push(paymentMethod);
+        this.paymentMethods.set(userId, methods);
+
+        return {
+          status: 'added',
+          type: paymentMethod.type,
+          paymentMethodId: paymentMethod.paymentMethodId,
+        };
+      }
+
+      default:
+        throw new Error(`Unknown payment action: ${data.action}`);
+    }
+  }
+
+  // Created on first checkout, so the mock CIBA server only starts when needed;
+  // null when CIBA_PROVIDER=none
+  private getAuthorizations(): CheckoutAuthorizations | null {
+    if (this.authorizations === undefined) {
+      const provider = createCibaProviderFromEnv();
+      this.authorizations = provider && new CheckoutAuthorizations({
+        provider,
+        onSettled: (authorization) => this.settleCheckout(authorization),
+      });
+      console.error(`[local-agent] Checkout authorization: ${provider?.description || 'none'}`);
+    }
+    return this.authorizations;
+  }
+
+  // Place or release the order once the user has answered (or not)
+  private async settleCheckout(authorization: CheckoutAuthorization): Promise<void> {
+    const order = orderStore.getOrder(authorization.userId, authorization.orderId);
+    if (order.status !== 'pending_authorization') {
+      return;  // Cancelled while waiting
+    }
+
+    if (authorization.status === 'approved') {
+      this.placeOrder(order);
+    } else {
+      await this.releaseOrder(order, authorization.status === 'denied'
+        ? `Payment authorization denied${authorization.reason ? `: ${authorization.reason}` : ''}`
+        : 'Payment authorization expired');
+    }
+  }
+
+  private placeOrder(order: Order): Order {
+    return orderStore.updateStatus(order.userId, order.orderId, 'placed', 'Payment authorized');
+  }
+
+  // Cancel an order that was never authorized and put its items (and
+  // coupons, no longer redeemed) back in the cart
+  private async releaseOrder(order: Order, reason: string): Promise<void> {
+    orderStore.updateStatus(order.userId, order.orderId, 'cancelled', reason);
+    inventoryCache.restock(order.items.map(item => ({ id: item.productId, quantity: item.quantity })));
+    order.coupons.forEach(code => releaseCouponRedemption(order.userId, code));
+
+    for (const item of order.items) {
+      await cartCache.addItemToCart(order.userId, {
+        id: item.productId,
+        name: item.name,
+        category: item.category,
+        price: toDollars(item.unitPrice),
+        quantity: item.quantity,
+        totalPrice: toDollars(item.subtotal),
+      }).catch((error) => {
+        console.error(`[local-agent] Could not return ${item.productId} to the cart:`, error.message);
+      });
+    }
+    for (const code of order.coupons) {
+      await cartCache.applyCoupon(order.userId, code).catch(() => false);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.authorizations?.close();
+  }
+
+  // The payment method to charge: the one asked for, else the most recently added
+  private findPaymentMethod(userId: string, paymentMethodId?: string): PaymentMethod | undefined {
+    const methods = this.paymentMethods.get(userId) || [];
+    if (!paymentMethodId) {
+      return methods[methods.length - 1];
+    }
+
+    const method = methods.find(candidate => candidate.paymentMethodId === paymentMethodId);
+    if (!method) {
+      throw new Error(`Payment method ${paymentMethodId} not found; add it with add_payment_method`);
+    }
+    return method;
+  }
+}
@@ -5,7 +5,7 @@
  * This generates the schema from our MCP tool definitions.
  */
 
-import { mcpTools } from './tools.js';
+import { toolRegistry } from './tool-registry.js';
 
 export interface OpenAPISchema {
   openapi: string;
@@ -60,10 +60,19 @@ export function generateOpenAPISchema(serverUrl: string): OpenAPISchema {
   const paths: Record<string, any> = {};
 
   // Convert each MCP tool to an OpenAPI path operation
-  for (const tool of mcpTools) {
+  for (const tool of toolRegistry.listTools()) {
     // Create a path for each tool
     // ChatGPT Enterprise expects REST-style paths
     const pathName = `/tools/${tool.name}`;
+
+    // Cart tools return the cart version as an ETag; those that change the
+    // cart accept it back as If-Match (see server.ts)
+    const isCartTool = toolRegistry.get(tool.name)?.agent === 'cart';
+    const acceptsIfMatch = isCartTool && 'expectedVersion' in (tool.inputSchema.properties || {});
+    const consequential = !!toolRegistry.get(tool.name)?.consequential;
+    const takesOrderId = toolRegistry.get(tool.name)?.agent === 'orders' && 'orderId' in (tool.inputSchema.properties || {});
+    // REST callers confirm through x-openai-isConsequential, not confirm tokens
+    const { confirmToken, ...bodyProperties } = tool.inputSchema.properties || {};
     
     paths[pathName] = {
       post: {
@@ -80,17 +89,57 @@ export function generateOpenAPISchema(serverUrl: string): OpenAPISchema {
         // Mark as deprecated: false to ensure it's considered active
         deprecated: false,
         
+        ...((acceptsIfMatch || consequential) && {
+          parameters: [
+            ...(acceptsIfMatch ? [{
+              name: 'If-Match',
+              in: 'header',
+              required: false,
+              description: 'Cart ETag from a previous response; the change fails with 412 if the cart has changed since',
+              schema: { type: 'string' },
+            }] : []),
+            ...(consequential ? [{
+              name: 'Idempotency-Key',
+              in: 'header',
+              required: false,
+              description: 'Client-chosen key (e.g. a UUID); retrying with the same key returns the first ' +
+                'response instead of repeating the action. Keys expire after IDEMPOTENCY_KEY_TTL_MINUTES',
+              schema: { type: 'string', maxLength: 255 },
+            }] : []),
+          ],
+        }),
+
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: convertJsonSchemaToOpenAPI(tool.inputSchema),
+              schema: convertJsonSchemaToOpenAPI({ ...tool.inputSchema, properties: bodyProperties }),
             },
           },
         },
         responses: {
           '200': {
             description: 'Successful response',
+            ...((isCartTool || consequential) && {
+              headers: {
+                ...(isCartTool && {
+                  ETag: {
+                    description: 'Current cart version (absent when the cart was checked out)',
+                    schema: { type: 'string' },
+                  },
+                }),
+                ...(consequential && {
+                  'Idempotency-Key': {
+                    description: 'Key the result is stored under (generated when the request had none)',
+                    schema: { type: 'string' },
+                  },
+                  'Idempotent-Replayed': {
+                    description: '"true" when this is the stored response to an earlier request with the same key',
+                    schema: { type: 'string', enum: ['true', 'false'] },
+                  },
+                }),
+              },
+            }),
             content: {
               'application/json': {
                 schema: {
@@ -106,6 +155,34 @@ export function generateOpenAPISchema(serverUrl: string): OpenAPISchema {
                         },
                       },
                     },
+                    // Same schema the MCP tool advertises as outputSchema
+                    ...(tool.outputSchema && {
+                      structuredContent: convertJsonSchemaToOpenAPI(tool.outputSchema),
+                    }),
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid arguments - includes field-level validation issues',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    error: { type: 'string' },
+                    message: { type: 'string' },
+                    issues: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          field: { type: 'string' },
+                          message: { type: 'string' },
+                        },
+                      },
+                    },
                   },
                 },
               },
@@ -114,6 +191,68 @@ export function generateOpenAPISchema(serverUrl: string): OpenAPISchema {
           '401': {
             description: 'Unauthorized - Invalid or missing OAuth2 token',
           },
+          // Tools that reserve or consume stock, or take a cart version
+          ...(acceptsIfMatch && {
+            '409': {
+              description: 'Conflict - not enough stock left to fulfil the request, ' +
+                'or expectedVersion is no longer the current cart version',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      error: { type: 'string' },
+                      message: { type: 'string' },
+                      productId: { type: 'string' },
+                      requested: { type: 'integer' },
+                      available: { type: 'integer' },
+                      expectedVersion: { type: 'integer' },
+                      currentVersion: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            '412': {
+              description: 'Precondition failed - the cart changed since the If-Match version; re-read and retry',
+            },
+          }),
+          ...(tool.name === 'get_checkout_status' && {
+            '404': {
+              description: 'Checkout authorization not found (or belongs to another user)',
+            },
+          }),
+          ...(takesOrderId && {
+            '404': {
+              description: 'Order not found (or belongs to another user)',
+            },
+          }),
+          ...(tool.name === 'cancel_order' && {
+            '409': {
+              description: 'Conflict - the order has progressed too far to be cancelled',
+            },
+          }),
+          ...(consequential && {
+            '422': {
+              description: (tool.name === 'apply_coupon'
+                ? 'Coupon rejected - the reason says why (unknown, expired, minimum spend, not eligible, limit reached), ' +
+                  'or the idempotency key was already used for a different request'
+                : 'Idempotency key already used for a different request'),
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      error: { type: 'string' },
+                      code: { type: 'string' },
+                      message: { type: 'string' },
+                      idempotencyKey: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          }),
           '500': {
             description: 'Internal server error',
           },
@@ -127,7 +266,7 @@ export function generateOpenAPISchema(serverUrl: string): OpenAPISchema {
         
         // Add x-openai-isConsequential for actions that modify data
         // This tells ChatGPT to ask for confirmation before executing
-        'x-openai-isConsequential': ['add_to_cart', 'checkout', 'add_payment_method'].includes(tool.name),
+        'x-openai-isConsequential': consequential,
       },
     };
   }
@@ -202,7 +341,7 @@ export function generateActionsManifest(serverUrl: string) {
     name_for_human: 'Safeway Shopping Assistant',
     name_for_model: 'safeway_shopping',
     description_for_human: 'AI-powered shopping assistant for searching products, managing cart, and checkout',
-    description_for_model: 'A shopping assistant that helps users search for products, add items to cart, view cart contents, checkout, add payment methods, and find deals. Use this when users want to shop for groceries or manage their shopping experience.',
+    description_for_model: 'A shopping assistant that helps users search for products, add, update or remove cart items, view cart contents, checkout, track or cancel orders, add payment methods, and find deals. Use this when users want to shop for groceries or manage their shopping experience.',
     auth: {
       type: 'oauth',
       client_url: process.env.OAUTH2_AUTHORIZATION_ENDPOINT || 
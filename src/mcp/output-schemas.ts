@@ -0,0 +1,290 @@
+/**
+ * JSON Schemas for structured tool results
+ *
+ * Tools advertise these as outputSchema and return matching
+ * structuredContent. The OpenAPI generator reuses the same schemas for
+ * the 200 responses of the REST tool endpoints.
+ */
+
+export const productSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Product code' },
+    name: { type: 'string', description: 'Display name' },
+    brand: { type: 'string' },
+    description: { type: 'string' },
+    size: { type: 'number', description: 'Package size, in unit' },
+    unit: { type: 'string', description: 'Size unit (e.g. gal, oz, lb, ct)' },
+    sku: { type: 'string' },
+    upc: { type: 'string' },
+    imageUrl: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    dietary: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['organic', 'vegan', 'vegetarian', 'gluten-free', 'dairy-free', 'nut-free', 'kosher'],
+      },
+    },
+    price: { type: 'number', description: 'Price in dollars' },
+    unitPrice: { type: 'number', description: 'Price per unitPriceUnit, in dollars' },
+    unitPriceUnit: { type: 'string', description: 'oz, fl oz or each' },
+    category: { type: 'string' },
+    inStock: { type: 'boolean' },
+    availableQuantity: { type: 'integer', description: 'Units available to add to a cart, when stock is tracked' },
+  },
+  required: ['id', 'price'],
+};
+
+export const facetCountSchema = {
+  type: 'object',
+  properties: {
+    value: { type: 'string' },
+    count: { type: 'integer' },
+  },
+  required: ['value', 'count'],
+};
+
+export const cartItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Product code/SKU' },
+    name: { type: 'string' },
+    price: { type: 'number', description: 'Unit price in dollars' },
+    quantity: { type: 'integer' },
+    totalPrice: { type: 'number', description: 'price x quantity' },
+  },
+  required: ['id', 'price', 'quantity', 'totalPrice'],
+};
+
+export const moneySchema = {
+  type: 'object',
+  properties: {
+    amount: { type: 'integer', description: 'Amount in minor units (cents)' },
+    currency: { type: 'string', description: 'ISO 4217 currency code' },
+  },
+  required: ['amount', 'currency'],
+};
+
+export const pricedLineSchema = {
+  type: 'object',
+  properties: {
+    productId: { type: 'string' },
+    name: { type: 'string' },
+    category: { type: 'string' },
+    quantity: { type: 'integer' },
+    unitPrice: moneySchema,
+    subtotal: moneySchema,
+    discounts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Promotion or coupon id' },
+          description: { type: 'string' },
+          explanation: { type: 'string', description: 'How the discount was applied' },
+          productId: { type: 'string' },
+          amount: moneySchema,
+        },
+      },
+    },
+    discountTotal: moneySchema,
+    taxRate: { type: 'number', description: 'Tax rate in percent' },
+    tax: moneySchema,
+    total: moneySchema,
+  },
+};
+
+export const feeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', enum: ['bag', 'delivery'] },
+    description: { type: 'string' },
+    amount: moneySchema,
+  },
+};
+
+export const cartPricingSchema = {
+  type: 'object',
+  description: 'Price breakdown; all amounts in cents',
+  properties: {
+    currency: { type: 'string' },
+    lines: { type: 'array', items: pricedLineSchema },
+    subtotal: moneySchema,
+    discountTotal: moneySchema,
+    coupons: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+          description: { type: 'string' },
+          applied: { type: 'boolean' },
+          amount: moneySchema,
+          reason: { type: 'string', description: 'Why the coupon is not discounting the cart' },
+        },
+      },
+    },
+    taxTotal: moneySchema,
+    fees: { type: 'array', items: feeSchema },
+    feeTotal: moneySchema,
+    grandTotal: moneySchema,
+  },
+  required: ['currency', 'lines', 'subtotal', 'discountTotal', 'coupons', 'taxTotal', 'fees', 'feeTotal', 'grandTotal'],
+};
+
+const orderStatuses = ['pending_authorization', 'placed', 'picking', 'ready', 'delivered', 'cancelled'];
+
+export const orderSchema = {
+  type: 'object',
+  description: 'Order snapshot taken at checkout; amounts in cents',
+  properties: {
+    orderId: { type: 'string' },
+    status: { type: 'string', enum: orderStatuses },
+    items: { type: 'array', items: pricedLineSchema },
+    coupons: { type: 'array', items: { type: 'string' }, description: 'Coupon codes that discounted the order' },
+    currency: { type: 'string' },
+    subtotal: moneySchema,
+    discountTotal: moneySchema,
+    taxTotal: moneySchema,
+    fees: { type: 'array', items: feeSchema },
+    feeTotal: moneySchema,
+    grandTotal: moneySchema,
+    paymentMethodId: { type: 'string' },
+    createdAt: { type: 'string', description: 'ISO 8601' },
+    updatedAt: { type: 'string', description: 'ISO 8601' },
+    history: {
+      type: 'array',
+      description: 'Status changes, oldest first',
+      items: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: orderStatuses },
+          at: { type: 'string', description: 'ISO 8601' },
+          reason: { type: 'string' },
+        },
+        required: ['status', 'at'],
+      },
+    },
+  },
+  required: ['orderId', 'status', 'items', 'grandTotal', 'createdAt'],
+};
+
+export const dealSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    category: { type: 'string' },
+    productIds: { type: 'array', items: { type: 'string' } },
+    type: { type: 'string', enum: ['percent_off', 'fixed_off', 'bogo', 'multi_buy'] },
+    validFrom: { type: 'string', description: 'ISO 8601 start date' },
+    validUntil: { type: 'string', description: 'ISO 8601 end date' },
+  },
+  required: ['id', 'title'],
+};
+
+export const productListOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' },
+    products: { type: 'array', items: productSchema },
+    total: { type: 'integer', description: 'Number of matching products across all pages' },
+    facets: {
+      type: 'object',
+      properties: {
+        categories: { type: 'array', items: facetCountSchema },
+        brands: { type: 'array', items: facetCountSchema },
+      },
+    },
+    nextCursor: { type: 'string', description: 'Pass as cursor to get the next page; absent on the last page' },
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['products', 'total'],
+};
+
+export const cartOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    items: { type: 'array', items: cartItemSchema },
+    totalItems: { type: 'integer' },
+    totalValue: { type: 'number', description: 'Cart total in dollars' },
+    coupons: { type: 'array', items: { type: 'string' }, description: 'Coupon codes applied to the cart' },
+    version: { type: 'integer', description: 'Cart version; pass as expectedVersion to guard the next change' },
+    pricing: cartPricingSchema,
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['items', 'totalItems', 'totalValue'],
+};
+
+export const checkoutOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    status: {
+      type: 'string',
+      description: 'pending (awaiting the user\'s approval), approved, denied or expired; ' +
+        'completed when no approval step is configured',
+    },
+    authorizationId: { type: 'string', description: 'Pass to get_checkout_status while pending' },
+    orderId: { type: 'string' },
+    expiresAt: { type: 'string', description: 'ISO 8601 time the approval request expires' },
+    pollIntervalSeconds: { type: 'integer', description: 'Wait at least this long between status checks' },
+    reason: { type: 'string', description: 'Why the authorization was denied, if known' },
+    total: { type: 'number', description: 'Charged total in dollars' },
+    pricing: cartPricingSchema,
+    order: orderSchema,
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['status'],
+};
+
+/** checkoutOutputSchema where get_checkout_status isn't available (agents outside the process) */
+export const remoteCheckoutOutputSchema = {
+  ...checkoutOutputSchema,
+  properties: {
+    ...checkoutOutputSchema.properties,
+    authorizationId: { type: 'string', description: 'Id of the approval request, while pending' },
+  },
+};
+
+export const orderOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    ...orderSchema.properties,
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: orderSchema.required,
+};
+
+export const orderListOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    status: { type: 'string', enum: orderStatuses, description: 'Status filter, if any' },
+    orders: { type: 'array', items: orderSchema },
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['orders'],
+};
+
+export const paymentMethodOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    status: { type: 'string', description: 'Result status (e.g. added, pending, failed)' },
+    type: { type: 'string', enum: ['credit_card', 'debit_card', 'bank_account', 'paypal'] },
+    paymentMethodId: { type: 'string' },
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['status', 'type'],
+};
+
+export const dealsOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    category: { type: 'string' },
+    deals: { type: 'array', items: dealSchema },
+    message: { type: 'string', description: 'Agent reply, if any' },
+  },
+  required: ['deals'],
+};
+
@@ -0,0 +1,89 @@
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+
+import { LocalAgentClient } from './local-agent-client.js';
+import { PromptArgumentsError, UnknownPromptError, getPrompt, listPrompts } from './prompts.js';
+import type { AgentCaller } from './tool-registry.js';
+import { mcpTools } from './tools.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+
+// Agent stand-in that records the payloads it gets and has no data
+function recordingAgent(): AgentCaller & { calls: Array<{ agentName: string; data: any }> } {
+  const agent = {
+    calls: [] as Array<{ agentName: string; data: any }>,
+    async callAgent(agentName: string, data: any) {
+      agent.calls.push({ agentName, data });
+      return { data: {} };
+    },
+  };
+  return agent;
+}
+
+function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('getPrompt', () => {
+  const client = new LocalAgentClient();
+
+  afterEach(async () => {
+    await cartCache.clearAllCarts();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('searches the catalog for the dietary need within search_products limits', async () => {
+    const agent = recordingAgent();
+
+    await getPrompt('plan_meals', { days: '3', dietary: 'Vegan' }, agent);
+
+    const search = agent.calls.find(call => call.agentName === 'catalog')!.data;
+    const limit = (mcpTools.find(tool => tool.name === 'search_products')!.inputSchema.properties!.limit as any);
+    expect(search).toEqual(expect.objectContaining({ action: 'search', dietary: 'vegan', inStock: true }));
+    expect(search.limit).toBeLessThanOrEqual(limit.maximum);
+  });
+
+  it('lists only products that meet the dietary need', async () => {
+    const text = promptText(await getPrompt('plan_meals', { days: '2', dietary: 'vegan' }, client));
+
+    expect(text).toContain('## Catalog (in stock, vegan)');
+    expect(text).toContain('- apple:');
+    expect(text).not.toContain('- milk:');
+    expect(text).toMatch(/for 2 days for 2 people, all vegan/);
+  });
+
+  it('includes the cart and deals in the weekly grocery run', async () => {
+    await client.callAgent('cart', { action: 'add', productCode: 'milk', quantity: 2 });
+
+    const result = await getPrompt('weekly_grocery_run', { budget: '$150' }, client);
+    const text = promptText(result);
+
+    expect(result.description).toBe('Weekly grocery run for 2, budget $150.00');
+    expect(text).toContain('## Current cart\n- 2 x');
+    expect(text).toContain('## Active deals\n- ');
+    expect(text).toContain('## Catalog (in stock)');
+  });
+
+  it('points at the tools when an agent has nothing to offer', async () => {
+    const text = promptText(await getPrompt('restock_usual_items', {}, recordingAgent()));
+
+    expect(text).toContain('I have no past orders yet');
+    expect(text).toContain('## Current cart\nEmpty.');
+  });
+
+  it('rejects missing and out-of-range arguments', async () => {
+    await expect(getPrompt('plan_meals', {}, client)).rejects.toThrow('days is required');
+    await expect(getPrompt('plan_meals', { days: '15' }, client)).rejects.toThrow('days must be a whole number from 1 to 14');
+    await expect(getPrompt('plan_meals', { days: '2', dietary: 'paleo' }, client)).rejects.toBeInstanceOf(PromptArgumentsError);
+    await expect(getPrompt('bake_bread', {}, client)).rejects.toBeInstanceOf(UnknownPromptError);
+  });
+
+  it('lists the prompts without their renderers', () => {
+    const prompts = listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['weekly_grocery_run', 'restock_usual_items', 'plan_meals']);
+    expect(prompts.every(prompt => !('render' in prompt) && !('completions' in prompt))).toBe(true);
+  });
+});
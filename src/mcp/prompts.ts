@@ -0,0 +1,287 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+import { DIETARY_ATTRIBUTES, formatProductSize } from '../lib/product-catalog.js';
+import { formatMoney } from '../lib/pricing/money.js';
+import { loadAgentPayload } from './tool-results.js';
+import type { AgentCaller } from './tool-registry.js';
+import type { CompletionSource } from './completions.js';
+import type { AuthResult } from './auth-verifier.js';
+
+/**
+ * MCP prompt templates for common shopping workflows
+ *
+ * Clients such as Claude Desktop offer these as slash commands. prompts/get
+ * renders a template into a user message that carries the live context the
+ * workflow needs (catalog, cart, active deals, past orders), read through
+ * the same agents as the tools, plus instructions on which tools to use.
+ * Context that an agent can't provide is left out rather than failing the
+ * prompt.
+ */
+
+// Products listed in a prompt (one search_products page at most); larger
+// catalogs are cut off (cheapest first)
+const CATALOG_CONTEXT_LIMIT = 50;
+
+// Past orders considered for "usual items"
+const ORDER_HISTORY_LIMIT = 20;
+
+interface PromptContext {
+  client: AgentCaller;
+  auth?: AuthResult;
+}
+
+/**
+ * Full prompt declaration: the public MCP prompt plus how it is rendered
+ */
+export interface PromptDefinition extends Prompt {
+  /** Where completion/complete gets suggestions for arguments */
+  completions?: Record<string, CompletionSource>;
+  /** Render the prompt; arguments are the raw strings sent by the client */
+  render: (args: Record<string, string>, context: PromptContext) => Promise<GetPromptResult>;
+}
+
+/**
+ * Thrown when a prompt name is not defined
+ */
+export class UnknownPromptError extends Error {
+  constructor(public readonly promptName: string) {
+    super(`Unknown prompt: ${promptName}`);
+    this.name = 'UnknownPromptError';
+  }
+}
+
+/**
+ * Thrown when prompt arguments are missing or invalid
+ */
+export class PromptArgumentsError extends Error {
+  constructor(public readonly promptName: string, message: string) {
+    super(`Invalid arguments for prompt ${promptName}: ${message}`);
+    this.name = 'PromptArgumentsError';
+  }
+}
+
+// Prompt arguments arrive as strings; read one as a number within bounds
+function readNumber(
+  promptName: string,
+  args: Record<string, string>,
+  name: string,
+  { min, max, integer = false, defaultValue }: { min: number; max: number; integer?: boolean; defaultValue?: number }
+): number {
+  const raw = args[name]?.trim().replace(/^\$/, '');
+  if (!raw) {
+    if (defaultValue === undefined) {
+      throw new PromptArgumentsError(promptName, `${name} is required`);
+    }
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) {
+    throw new PromptArgumentsError(promptName,
+      `${name} must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function readDietary(promptName: string, args: Record<string, string>): string | undefined {
+  const dietary = args.dietary?.trim().toLowerCase();
+  if (!dietary) return undefined;
+  if (!(DIETARY_ATTRIBUTES as readonly string[]).includes(dietary)) {
+    throw new PromptArgumentsError(promptName, `dietary must be one of ${DIETARY_ATTRIBUTES.join(', ')}`);
+  }
+  return dietary;
+}
+
+function formatProductLine(product: any): string {
+  return `- ${product.id}: ${product.name}, ${formatProductSize(product)}, $${Number(product.price).toFixed(2)}` +
+    ` (${product.category})${product.inStock === false ? ', out of stock' : ''}`;
+}
+
+async function catalogSection(context: PromptContext, dietary?: string): Promise<string> {
+  const payload = await loadAgentPayload(context, 'catalog', {
+    action: 'search',
+    inStock: true,
+    sort: 'price_asc',
+    ...(dietary && { dietary }),
+    limit: CATALOG_CONTEXT_LIMIT,
+  }, 'prompts');
+  if (!payload) {
+    return '## Catalog\nNot available; use search_products to find products.';
+  }
+
+  // Agents that ignore the dietary filter return every product
+  const products: any[] = (payload.products || [])
+    .filter((product: any) => !dietary || (product.dietary || []).includes(dietary));
+  const heading = `## Catalog (in stock${dietary ? `, ${dietary}` : ''})`;
+  if (products.length === 0) {
+    return `${heading}\nNo matching products in stock.`;
+  }
+  return `${heading}\n${products.map(formatProductLine).join('\n')}` +
+    (payload.nextCursor ? `\nOnly the ${CATALOG_CONTEXT_LIMIT} cheapest products are listed; use search_products for more.` : '');
+}
+
+async function cartSection(context: PromptContext): Promise<string> {
+  const payload = await loadAgentPayload(context, 'cart', { action: 'view' }, 'prompts');
+  if (!payload) {
+    return '## Current cart\nNot available; use view_cart to see it.';
+  }
+
+  const items: any[] = payload.cart?.items || [];
+  if (items.length === 0) {
+    return '## Current cart\nEmpty.';
+  }
+  return '## Current cart\n' +
+    items.map(item => `- ${item.quantity} x ${item.name || item.id} (${item.id})`).join('\n') +
+    (payload.pricing?.grandTotal ? `\nTotal with tax and fees: ${formatMoney(payload.pricing.grandTotal)}` : '');
+}
+
+async function dealsSection(context: PromptContext): Promise<string> {
+  const payload = await loadAgentPayload(context, 'deals', { action: 'get' }, 'prompts');
+  if (!payload) {
+    return '## Active deals\nNot available; use get_deals to see them.';
+  }
+
+  const deals: any[] = payload.deals || [];
+  return deals.length
+    ? `## Active deals\n${deals.map(deal => `- ${deal.title}: ${deal.description}`).join('\n')}`
+    : '## Active deals\nNone right now.';
+}
+
+// Products bought before, most frequently bought first
+async function usualItemsSection(context: PromptContext): Promise<{ text: string; found: boolean }> {
+  const payload = await loadAgentPayload(context, 'orders', { action: 'list', limit: ORDER_HISTORY_LIMIT }, 'prompts');
+  const orders: any[] = (payload?.orders || []).filter((order: any) => order.status !== 'cancelled');
+  if (orders.length === 0) {
+    return { text: '## Usual items\nNo past orders found.', found: false };
+  }
+
+  const usual = new Map<string, { name: string; orders: number; quantities: number[] }>();
+  for (const order of orders) {
+    for (const item of order.items || []) {
+      const entry = usual.get(item.productId) || { name: item.name || item.productId, orders: 0, quantities: [] as number[] };
+      entry.orders += 1;
+      entry.quantities.push(item.quantity);
+      usual.set(item.productId, entry);
+    }
+  }
+
+  const lines = await Promise.all([...usual.entries()]
+    .sort(([, a], [, b]) => b.orders - a.orders)
+    .map(async ([productId, entry]) => {
+      const usualQuantity = Math.round(entry.quantities.reduce((total, quantity) => total + quantity, 0) / entry.quantities.length);
+      const product = (await loadAgentPayload(context, 'catalog', { action: 'get', productId }, 'prompts'))?.product;
+      const availability = product
+        ? `now $${Number(product.price).toFixed(2)}${product.inStock === false ? ', out of stock' : ''}`
+        : 'no longer in the catalog';
+      return `- ${productId}: ${entry.name}, in ${entry.orders} of ${orders.length} orders, usually ${usualQuantity} (${availability})`;
+    }));
+  return { text: `## Usual items (from your last ${orders.length} order${orders.length === 1 ? '' : 's'})\n${lines.join('\n')}`, found: true };
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text,
+        },
+      },
+    ],
+  };
+}
+
+export const mcpPrompts: PromptDefinition[] = [
+  {
+    name: 'weekly_grocery_run',
+    title: 'Weekly grocery run',
+    description: 'Fill the cart for a week of groceries within a budget, using current prices and deals',
+    arguments: [
+      { name: 'budget', description: 'Budget in dollars, including tax and fees (e.g. 150)', required: true },
+      { name: 'householdSize', description: 'Number of people to shop for (default 2)' },
+    ],
+    render: async (args, context) => {
+      const budget = readNumber('weekly_grocery_run', args, 'budget', { min: 1, max: 10000 });
+      const householdSize = readNumber('weekly_grocery_run', args, 'householdSize', { min: 1, max: 20, integer: true, defaultValue: 2 });
+      const sections = await Promise.all([cartSection(context), dealsSection(context), catalogSection(context)]);
+
+      return userMessage(`Weekly grocery run for ${householdSize}, budget $${budget.toFixed(2)}`,
+        `Plan my weekly grocery run for a household of ${householdSize} with a budget of $${budget.toFixed(2)}.\n\n` +
+        'Build a balanced week of groceries from the catalog below, preferring items on deal. Add them with ' +
+        'add_to_cart using the product codes listed, keeping what is already in my cart unless it no longer fits. ' +
+        'Then use view_cart to check that the total, including tax and fees, stays within the budget, and adjust ' +
+        'quantities if it doesn\'t. Don\'t check out: show me the cart and what you left out, and wait for my go-ahead.\n\n' +
+        sections.join('\n\n'));
+    },
+  },
+  {
+    name: 'restock_usual_items',
+    title: 'Restock my usual items',
+    description: 'Add the items you buy most often to the cart, based on your past orders',
+    arguments: [],
+    render: async (_args, context) => {
+      const [usual, cart] = await Promise.all([usualItemsSection(context), cartSection(context)]);
+
+      const instructions = usual.found
+        ? 'Restock my usual items. Add the items below to my cart with add_to_cart, using their usual quantities. ' +
+          'Skip anything already in my cart, out of stock or no longer in the catalog (suggest a similar product ' +
+          'from search_products instead). Then show me the cart with view_cart.'
+        : 'Restock my usual items. I have no past orders yet, so ask me what I usually buy and find those products ' +
+          'with search_products before adding them to my cart.';
+      return userMessage('Restock usual items', `${instructions}\n\n${usual.text}\n\n${cart}`);
+    },
+  },
+  {
+    name: 'plan_meals',
+    title: 'Plan meals',
+    description: 'Plan meals for a number of days from what is in stock and on deal, with a shopping list',
+    arguments: [
+      { name: 'days', description: 'Number of days to plan (1-14)', required: true },
+      { name: 'householdSize', description: 'Number of people (default 2)' },
+      { name: 'dietary', description: `Optional dietary need: ${DIETARY_ATTRIBUTES.join(', ')}` },
+    ],
+    completions: { dietary: DIETARY_ATTRIBUTES },
+    render: async (args, context) => {
+      const days = readNumber('plan_meals', args, 'days', { min: 1, max: 14, integer: true });
+      const householdSize = readNumber('plan_meals', args, 'householdSize', { min: 1, max: 20, integer: true, defaultValue: 2 });
+      const dietary = readDietary('plan_meals', args);
+      const sections = await Promise.all([catalogSection(context, dietary), dealsSection(context), cartSection(context)]);
+
+      return userMessage(`Meal plan for ${days} day${days === 1 ? '' : 's'}`,
+        `Plan breakfast, lunch and dinner for ${days} day${days === 1 ? '' : 's'} for ${householdSize} ` +
+        `${householdSize === 1 ? 'person' : 'people'}${dietary ? `, all ${dietary}` : ''}.\n\n` +
+        'Base the meals on the products below, making use of the deals and of what is already in my cart. ' +
+        'Give me the plan day by day, then a shopping list of product codes and quantities that aren\'t in my cart yet ' +
+        'with its estimated cost. Ask me before adding the shopping list to the cart with add_to_cart.\n\n' +
+        sections.join('\n\n'));
+    },
+  },
+];
+
+/**
+ * Public prompt list in the shape returned by prompts/list
+ */
+export function listPrompts(): Prompt[] {
+  return mcpPrompts.map(({ render: _render, completions: _completions, ...prompt }) => prompt);
+}
+
+/**
+ * Render a prompt for the caller
+ *
+ * @throws UnknownPromptError if the prompt is not defined
+ * @throws PromptArgumentsError if an argument is missing or invalid
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  client: AgentCaller,
+  auth?: AuthResult
+): Promise<GetPromptResult> {
+  const prompt = mcpPrompts.find(definition => definition.name === name);
+  if (!prompt) {
+    throw new UnknownPromptError(name);
+  }
+  return prompt.render(args, { client, auth });
+}
@@ -0,0 +1,135 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { LocalAgentClient } from './local-agent-client.js';
+import type { AuthResult } from './auth-verifier.js';
+import {
+  CART_RESOURCE_URI,
+  ResourceNotFoundError,
+  ResourceNotSubscribableError,
+  ResourceSubscriptions,
+  orderResourceUri,
+  readResource,
+} from './resources.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+import { orderStore } from '../lib/orders/order-store.js';
+import { priceCart } from '../lib/pricing/pricing-engine.js';
+
+const alice: AuthResult = { success: true, userId: 'alice' };
+const bob: AuthResult = { success: true, userId: 'bob' };
+
+async function readJson(uri: string, client: LocalAgentClient, auth?: AuthResult): Promise<any> {
+  const result = await readResource(uri, client, auth);
+  expect(result.contents[0]).toEqual(expect.objectContaining({ uri, mimeType: 'application/json' }));
+  return JSON.parse(result.contents[0].text as string);
+}
+
+function createOrder(userId: string): string {
+  const pricing = priceCart([{ id: 'milk', price: 4.19, quantity: 1 }], { discounts: [] });
+  return orderStore.createOrder({ userId, pricing, cartVersion: 1 }).orderId;
+}
+
+describe('readResource', () => {
+  const client = new LocalAgentClient();
+
+  afterEach(async () => {
+    await cartCache.clearAllCarts();
+    orderStore.clearAllOrders();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('reads the caller\'s cart with its pricing', async () => {
+    await client.callAgent('cart', { action: 'add', productCode: 'milk', quantity: 2 }, alice);
+
+    const cart = await readJson(CART_RESOURCE_URI, client, alice);
+
+    expect(cart.cart.items).toEqual([expect.objectContaining({ id: 'milk', quantity: 2 })]);
+    expect(cart.pricing.grandTotal).toEqual(expect.objectContaining({ currency: 'USD' }));
+    expect((await readJson(CART_RESOURCE_URI, client, bob)).cart.items).toEqual([]);
+  });
+
+  it('reads products and categories from the catalog', async () => {
+    expect(await readJson('catalog://products/milk', client)).toEqual(expect.objectContaining({ id: 'milk' }));
+
+    const produce = await readJson('catalog://categories/Produce', client);
+    expect(produce.category).toBe('Produce');
+    expect(produce.products.map((product: any) => product.id)).toEqual(['apple', 'banana', 'carrots']);
+  });
+
+  it('reads only the caller\'s orders', async () => {
+    const orderId = createOrder('alice');
+    const uri = orderResourceUri(orderId);
+
+    expect(await readJson(uri, client, alice)).toEqual(expect.objectContaining({ orderId, status: 'pending_authorization' }));
+    await expect(readResource(uri, client, bob)).rejects.toBeInstanceOf(ResourceNotFoundError);
+  });
+
+  it('reports unknown resources as not found', async () => {
+    for (const uri of ['catalog://products/caviar', 'catalog://categories/Toys', 'orders://', 'cart://saved', 'catalog://products/%E0']) {
+      await expect(readResource(uri, client), uri).rejects.toBeInstanceOf(ResourceNotFoundError);
+    }
+  });
+});
+
+describe('ResourceSubscriptions', () => {
+  const client = new LocalAgentClient();
+  let notified: string[];
+  let subscriptions: ResourceSubscriptions;
+
+  beforeEach(() => {
+    notified = [];
+    subscriptions = new ResourceSubscriptions(async uri => {
+      notified.push(uri);
+    });
+  });
+
+  afterEach(async () => {
+    subscriptions.close();
+    await cartCache.clearAllCarts();
+    orderStore.clearAllOrders();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('notifies when the subscriber\'s own cart changes', async () => {
+    await subscriptions.subscribe(CART_RESOURCE_URI, client, alice);
+
+    await client.callAgent('cart', { action: 'add', productCode: 'milk', quantity: 1 }, bob);
+    expect(notified).toEqual([]);
+
+    await client.callAgent('cart', { action: 'add', productCode: 'milk', quantity: 1 }, alice);
+    expect(notified).toEqual([CART_RESOURCE_URI]);
+  });
+
+  it('notifies when a subscribed order changes status', async () => {
+    const orderId = createOrder('alice');
+    const uri = orderResourceUri(orderId);
+    await subscriptions.subscribe(uri, client, alice);
+
+    orderStore.updateStatus('alice', orderId, 'placed');
+    createOrder('alice');
+
+    expect(notified).toEqual([uri]);
+  });
+
+  it('stops notifying once unsubscribed', async () => {
+    await subscriptions.subscribe(CART_RESOURCE_URI, client, alice);
+    subscriptions.unsubscribe(CART_RESOURCE_URI);
+
+    await client.callAgent('cart', { action: 'add', productCode: 'milk', quantity: 1 }, alice);
+
+    expect(notified).toEqual([]);
+  });
+
+  it('refuses resources that never change or aren\'t the caller\'s', async () => {
+    const orderId = createOrder('alice');
+
+    await expect(subscriptions.subscribe('catalog://products/milk', client, alice)).rejects.toBeInstanceOf(ResourceNotSubscribableError);
+    await expect(subscriptions.subscribe(orderResourceUri(orderId), client, bob)).rejects.toBeInstanceOf(ResourceNotFoundError);
+    await expect(subscriptions.subscribe('cart://saved', client, alice)).rejects.toBeInstanceOf(ResourceNotFoundError);
+  });
+});
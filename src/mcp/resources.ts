@@ -0,0 +1,284 @@
+import { ErrorCode, McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { cartCache } from '../lib/cache/cart-cache.js';
+import type { CartUpdatedEvent } from '../lib/cache/cart-cache.js';
+import { orderStore, OrderNotFoundError } from '../lib/orders/order-store.js';
+import type { Order } from '../lib/orders/order-store.js';
+import { getLocalUserId } from './local-agent-client.js';
+import { readAgentResult } from './tool-results.js';
+import type { AgentCaller } from './tool-registry.js';
+import type { AuthResult } from './auth-verifier.js';
+import type { CompletionSource } from './completions.js';
+
+/**
+ * MCP resources shared by the HTTP and stdio servers
+ *
+ *   cart://current               the caller's cart with its price breakdown
+ *   catalog://products/{id}      a product by product code
+ *   catalog://categories/{name}  the products in a category
+ *   orders://{id}                one of the caller's orders
+ *
+ * Resources are read through the same agents as the tools, as JSON.
+ * cart://current and orders://{id} can be subscribed to: the session gets
+ * notifications/resources/updated whenever the cart (CartCache) or the
+ * order (order store) changes. Those changes are only seen for carts and
+ * orders held in this process, so the servers only offer subscriptions
+ * with MCP_AGENT_BACKEND=local.
+ */
+
+export const CART_RESOURCE_URI = 'cart://current';
+
+// JSON-RPC error code for unknown resources (MCP spec)
+export const RESOURCE_NOT_FOUND = -32002;
+
+const JSON_MIME_TYPE = 'application/json';
+
+export const mcpResources: Resource[] = [
+  {
+    uri: CART_RESOURCE_URI,
+    name: 'cart',
+    title: 'Current cart',
+    description: 'Your cart with its price breakdown (subtotal, discounts, tax, fees, total). ' +
+      'Subscribe to be notified when it changes',
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+export const mcpResourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'catalog://products/{id}',
+    name: 'product',
+    title: 'Product',
+    description: 'A catalog product by product code (e.g. catalog://products/milk)',
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'catalog://categories/{name}',
+    name: 'category',
+    title: 'Product category',
+    description: 'All products in a category (e.g. catalog://categories/Produce)',
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'orders://{id}',
+    name: 'order',
+    title: 'Order',
+    description: 'One of your orders with its status history. Subscribe to follow its status',
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+// Suggestions for template variables (see completions.ts), by template
+export const resourceTemplateCompletions: Record<string, Record<string, CompletionSource>> = {
+  'catalog://products/{id}': { id: 'products' },
+  'catalog://categories/{name}': { name: 'categories' },
+  'orders://{id}': { id: 'orders' },
+};
+
+type ParsedResourceUri =
+  | { kind: 'cart' }
+  | { kind: 'product'; productId: string }
+  | { kind: 'category'; category: string }
+  | { kind: 'order'; orderId: string };
+
+/**
+ * Thrown for URIs that don't name a resource (or name another user's order)
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+/**
+ * Thrown when subscribing to a resource that never sends updates
+ */
+export class ResourceNotSubscribableError extends Error {
+  constructor(public readonly uri: string) {
+    super(`Resource ${uri} does not support subscriptions; subscribe to ${CART_RESOURCE_URI} or orders://{id}`);
+    this.name = 'ResourceNotSubscribableError';
+  }
+}
+
+export function orderResourceUri(orderId: string): string {
+  return `orders://${encodeURIComponent(orderId)}`;
+}
+
+function parseResourceUri(uri: string): ParsedResourceUri | null {
+  if (uri === CART_RESOURCE_URI) {
+    return { kind: 'cart' };
+  }
+
+  const match = /^(?:catalog:\/\/(products|categories)|orders:\/)\/([^/?#]+)$/.exec(uri);
+  if (!match) return null;
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+  switch (match[1]) {
+    case 'products':
+      return { kind: 'product', productId: value };
+    case 'categories':
+      return { kind: 'category', category: value };
+    default:
+      return { kind: 'order', orderId: value };
+  }
+}
+
+/**
+ * Protocol error for a failed resources/read or resources/subscribe
+ */
+export function toResourceMcpError(error: unknown): unknown {
+  if (error instanceof ResourceNotFoundError) {
+    return new McpError(RESOURCE_NOT_FOUND, error.message, { uri: error.uri });
+  }
+  if (error instanceof ResourceNotSubscribableError) {
+    return new McpError(ErrorCode.InvalidParams, error.message, { uri: error.uri });
+  }
+  return error;
+}
+
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Read a resource on behalf of the caller
+ *
+ * @throws ResourceNotFoundError if the URI doesn't name an existing resource
+ */
+export async function readResource(uri: string, client: AgentCaller, auth?: AuthResult): Promise<ReadResourceResult> {
+  const resource = parseResourceUri(uri);
+  if (!resource) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  switch (resource.kind) {
+    case 'cart': {
+      const { payload } = readAgentResult(await client.callAgent('cart', { action: 'view' }, auth));
+      return jsonContents(uri, payload);
+    }
+
+    case 'product': {
+      const { payload } = readAgentResult(await client.callAgent('catalog', {
+        action: 'get',
+        productId: resource.productId,
+      }, auth));
+      if (!payload.product) {
+        throw new ResourceNotFoundError(uri);
+      }
+      return jsonContents(uri, payload.product);
+    }
+
+    case 'category': {
+      const { payload } = readAgentResult(await client.callAgent('catalog', {
+        action: 'category',
+        category: resource.category,
+      }, auth));
+      if (!Array.isArray(payload.products) || payload.products.length === 0) {
+        throw new ResourceNotFoundError(uri);
+      }
+      return jsonContents(uri, { category: resource.category, products: payload.products });
+    }
+
+    case 'order': {
+      let result: any;
+      try {
+        result = await client.callAgent('orders', { action: 'get', orderId: resource.orderId }, auth);
+      } catch (error) {
+        if (error instanceof OrderNotFoundError) {
+          throw new ResourceNotFoundError(uri);
+        }
+        throw error;
+      }
+      const { payload } = readAgentResult(result);
+      return jsonContents(uri, payload.order || payload);
+    }
+  }
+}
+
+// Sessions with subscriptions; one listener per store fans changes out to them
+const activeSubscriptions = new Set<ResourceSubscriptions>();
+let listening = false;
+
+function listenForChanges(): void {
+  if (listening) return;
+  listening = true;
+
+  cartCache.on('cart.updated', ({ userId }: CartUpdatedEvent) => {
+    activeSubscriptions.forEach(subscriptions => subscriptions.changed(CART_RESOURCE_URI, userId));
+  });
+  orderStore.on('order.updated', (order: Order) => {
+    activeSubscriptions.forEach(subscriptions => subscriptions.changed(orderResourceUri(order.orderId), order.userId));
+  });
+}
+
+/**
+ * Resource subscriptions of one MCP session
+ */
+export class ResourceSubscriptions {
+  // Subscribed URI -> user whose cart or order it is
+  private subscriptions = new Map<string, string>();
+
+  constructor(private readonly notify: (uri: string) => Promise<void>) {}
+
+  /**
+   * @throws ResourceNotFoundError if the resource doesn't exist for the caller
+   * @throws ResourceNotSubscribableError for resources other than the cart and orders
+   */
+  async subscribe(uri: string, client: AgentCaller, auth?: AuthResult): Promise<void> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      throw new ResourceNotFoundError(uri);
+    }
+    if (resource.kind !== 'cart' && resource.kind !== 'order') {
+      throw new ResourceNotSubscribableError(uri);
+    }
+    if (resource.kind === 'order') {
+      // Only the caller's own orders
+      await readResource(uri, client, auth);
+    }
+
+    listenForChanges();
+    this.subscriptions.set(uri, getLocalUserId(auth));
+    activeSubscriptions.add(this);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      activeSubscriptions.delete(this);
+    }
+  }
+
+  /**
+   * A resource of `userId` changed; notifies the session if it subscribed
+   */
+  changed(uri: string, userId: string): void {
+    if (this.subscriptions.get(uri) !== userId) return;
+
+    this.notify(uri).catch(error => {
+      console.error(`[resources] Update notification for ${uri} failed:`, error.message);
+    });
+  }
+
+  /**
+   * Drop every subscription (when the session closes)
+   */
+  close(): void {
+    this.subscriptions.clear();
+    activeSubscriptions.delete(this);
+  }
+}
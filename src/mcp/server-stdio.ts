@@ -10,24 +10,56 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { MCPAgentClient } from './client.js';
-import { mcpTools } from './tools.js';
+import { LocalAgentClient } from './local-agent-client.js';
+import { initializeCatalog, stopCatalogWatch } from '../lib/catalog/catalog-loader.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+import { toolRegistry, AgentCaller } from './tool-registry.js';
+import { ToolArgumentsError } from './tool-validation.js';
+import { ConfirmationRequiredError, getElicit } from './tool-confirmation.js';
+import {
+  ResourceSubscriptions,
+  mcpResourceTemplates,
+  mcpResources,
+  readResource,
+  toResourceMcpError,
+} from './resources.js';
+import { getPrompt, listPrompts, PromptArgumentsError, UnknownPromptError } from './prompts.js';
+import { complete, CompleteRequestWithToolsSchema, UnknownCompletionReferenceError } from './completions.js';
 
 // Configuration from environment
 const NEXTJS_URL = process.env.NEXTJS_URL || 'http://localhost:3000';
 const MCP_API_KEY = process.env.MCP_API_KEY;
+const MCP_AGENT_BACKEND = process.env.MCP_AGENT_BACKEND || 'http'; // 'http' (Next.js API) or 'local' (in-process)
 
-if (!MCP_API_KEY) {
+if (MCP_AGENT_BACKEND !== 'local' && !MCP_API_KEY) {
   console.error('ERROR: MCP_API_KEY environment variable is required');
   console.error('Please set MCP_API_KEY in your .env.local file');
   process.exit(1);
 }
 
-// Initialize HTTP client
-const agentClient = new MCPAgentClient(NEXTJS_URL, MCP_API_KEY);
+// Initialize agent backend
+const agentClient: AgentCaller = MCP_AGENT_BACKEND === 'local'
+  ? new LocalAgentClient()
+  : new MCPAgentClient(NEXTJS_URL, MCP_API_KEY);
+
+// The Next.js agents have no actions for these tools (orders, coupons, cart edits)
+if (MCP_AGENT_BACKEND !== 'local') {
+  const localOnly = toolRegistry.unregisterLocalOnly();
+  console.error(`[MCP Server STDIO] Tools needing MCP_AGENT_BACKEND=local left out: ${localOnly.join(', ')}`);
+}
 
 // Create MCP server
 const server = new Server(
@@ -38,107 +70,49 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      // Resource updates are only seen for the in-process agents (see resources.ts)
+      resources: MCP_AGENT_BACKEND === 'local' ? { subscribe: true } : {},
+      prompts: {},
+      completions: {},
     },
   }
 );
 
+const subscriptions = new ResourceSubscriptions(uri => server.sendResourceUpdated({ uri }));
+
 // Handle list_tools request
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   console.error('[MCP Server STDIO] Listing available tools');
   return {
-    tools: mcpTools.map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-    })),
+    tools: toolRegistry.listTools(),
   };
 });
 
 // Handle call_tool request
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args = {} } = request.params;
 
   console.error(`[MCP Server STDIO] Tool called: ${name}`, JSON.stringify(args, null, 2));
 
   try {
-    let result;
-
-    // Route tool calls to appropriate agents via HTTP
-    switch (name) {
-      case 'search_products':
-        result = await agentClient.callAgent('catalog', {
-          action: 'search',
-          query: args.query,
-          category: args.category,
-          limit: args.limit,
-        });
-        break;
-
-      case 'add_to_cart':
-        result = await agentClient.callAgent('cart', {
-          action: 'add',
-          productCode: args.productCode,
-          quantity: args.quantity,
-        });
-        break;
-
-      case 'view_cart':
-        result = await agentClient.callAgent('cart', {
-          action: 'view',
-        });
-        break;
-
-      case 'checkout':
-        result = await agentClient.callAgent('cart', {
-          action: 'checkout',
-          cartSummary: args.cartSummary,
-        });
-        break;
-
-      case 'add_payment_method':
-        result = await agentClient.callAgent('payment', {
-          action: 'add',
-          type: args.type,
-        });
-        break;
-
-      case 'get_deals':
-        result = await agentClient.callAgent('deals', {
-          action: 'get',
-          category: args.category,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
+    // State-changing tools are confirmed with the user first; the process
+    // serves a single client, so it is one session
+    const result = await toolRegistry.call(name, args, agentClient, undefined, {
+      confirm: true,
+      elicit: getElicit(server, extra),
+      sessionId: 'stdio',
+    });
 
     console.error(`[MCP Server STDIO] Tool ${name} completed successfully`);
 
-    // Extract the final AI message content from the result
-    let responseText = '';
-    if (result && result.messages && Array.isArray(result.messages)) {
-      // Get the last AI message
-      const lastMessage = result.messages[result.messages.length - 1];
-      if (lastMessage && lastMessage.kwargs && lastMessage.kwargs.content) {
-        responseText = lastMessage.kwargs.content;
-      } else {
-        // Fallback to full result
-        responseText = JSON.stringify(result, null, 2);
-      }
-    } else {
-      responseText = JSON.stringify(result, null, 2);
+    return result;
+  } catch (error: any) {
+    // Invalid arguments are a protocol error, not a tool failure
+    if (error instanceof ToolArgumentsError) {
+      console.error(`[MCP Server STDIO] Tool ${name} rejected:`, error.message);
+      throw new McpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: responseText,
-        },
-      ],
-    };
-  } catch (error: any) {
     console.error(`[MCP Server STDIO] Tool ${name} failed:`, error);
 
     return {
@@ -149,20 +123,102 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         },
       ],
       isError: true,
+      // The token to send back once the user agrees (MCP_CONFIRMATION_FALLBACK=token)
+      ...(error instanceof ConfirmationRequiredError && error.confirmToken && {
+        _meta: { confirmToken: error.confirmToken },
+      }),
     };
   }
 });
 
+// Resources: the cart, catalog and orders (see resources.ts)
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: mcpResources }));
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: mcpResourceTemplates,
+}));
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  try {
+    return await readResource(request.params.uri, agentClient);
+  } catch (error: any) {
+    console.error(`[MCP Server STDIO] Resource ${request.params.uri} failed:`, error.message);
+    throw toResourceMcpError(error);
+  }
+});
+
+if (MCP_AGENT_BACKEND === 'local') {
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      await subscriptions.subscribe(request.params.uri, agentClient);
+    } catch (error) {
+      throw toResourceMcpError(error);
+    }
+    console.error(`[MCP Server STDIO] Subscribed to ${request.params.uri}`);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+}
+
+// Prompts: shopping workflows with live context (see prompts.ts)
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts() }));
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args = {} } = request.params;
+  try {
+    return await getPrompt(name, args, agentClient);
+  } catch (error: any) {
+    if (error instanceof UnknownPromptError || error instanceof PromptArgumentsError) {
+      console.error(`[MCP Server STDIO] Prompt ${name} rejected:`, error.message);
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+});
+
+// Argument completion for prompts, resource templates and tools (see completions.ts)
+server.setRequestHandler(CompleteRequestWithToolsSchema, async (request) => {
+  try {
+    return await complete(request.params, agentClient);
+  } catch (error: any) {
+    if (error instanceof UnknownCompletionReferenceError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+});
+
 // Start server with STDIO transport
 async function main() {
   console.error('[MCP Server STDIO] Starting MCP server with stdio transport');
-  console.error('[MCP Server STDIO] Next.js URL:', NEXTJS_URL);
-  console.error('[MCP Server STDIO] Available tools:', mcpTools.map(t => t.name).join(', '));
+  console.error('[MCP Server STDIO] Agent backend:', MCP_AGENT_BACKEND);
+  if (MCP_AGENT_BACKEND !== 'local') {
+    console.error('[MCP Server STDIO] Next.js URL:', NEXTJS_URL);
+  }
+  console.error('[MCP Server STDIO] Available tools:', toolRegistry.getNames().join(', '));
   
+  await initializeCatalog();
+  if (MCP_AGENT_BACKEND === 'local') {
+    await cartCache.open();
+    cartCache.startSweeper();
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
   console.error('[MCP Server STDIO] Server started and ready for Claude Desktop');
+
+  // Stop watching the catalog file and flush carts when the client disconnects
+  server.onclose = () => {
+    subscriptions.close();
+    stopCatalogWatch();
+    cartCache.close().catch((error) => console.error('[MCP Server STDIO] Cart store close failed:', error));
+    agentClient.close?.().catch((error) => console.error('[MCP Server STDIO] Agent backend close failed:', error));
+  };
 }
 
 main().catch((error) => {
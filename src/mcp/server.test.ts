@@ -0,0 +1,274 @@
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { generateKeyPairSync } from 'crypto';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+import net from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const API_KEY = 'test-api-key';
+
+// A port nothing listens on right now
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+/**
+ * Run server.ts in a child process (it starts listening on import) and wait
+ * until /health answers
+ */
+async function startServer(env: Record<string, string>): Promise<{ url: string; child: ChildProcess }> {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/mcp/server.ts'], {
+    env: {
+      ...process.env,
+      MCP_SERVER_HOST: '127.0.0.1',
+      MCP_SERVER_PORT: String(port),
+      MCP_AGENT_BACKEND: 'local',
+      CIBA_PROVIDER: 'mock',
+      CIBA_MOCK_DECISION: 'manual',
+      ...env,
+    },
+    stdio: 'ignore',
+  });
+  const url = `http://127.0.0.1:${port}`;
+
+  const deadline = Date.now() + 20_000;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`server.ts exited with ${child.exitCode}`);
+    }
+    try {
+      if ((await fetch(`${url}/health`)).ok) return { url, child };
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  child.kill();
+  throw new Error('server.ts did not start listening in time');
+}
+
+async function structuredContent(response: Response): Promise<Record<string, any>> {
+  return ((await response.json()) as any).structuredContent;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'server-test', version: '1.0.0' } },
+};
+
+/** POST a JSON-RPC message to /mcp and read the reply from its SSE stream */
+async function postMcp(url: string, message: Record<string, any>, headers: Record<string, string> = {}): Promise<{ response: Response; reply?: any }> {
+  const response = await fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(message),
+  });
+  const text = await response.text();
+  const data = text.split('\n').find(line => line.startsWith('data: '));
+  return { response, reply: data ? JSON.parse(data.slice('data: '.length)) : text && JSON.parse(text) };
+}
+
+async function stopServer(child: ChildProcess | undefined): Promise<void> {
+  if (!child || child.exitCode !== null) return;
+  const exited = new Promise(resolve => child.once('exit', resolve));
+  child.kill('SIGTERM');
+  await exited;
+}
+
+describe('REST tools in api-key mode', () => {
+  let server: { url: string; child: ChildProcess } | undefined;
+
+  // POST /tools/<name> with the API key
+  function callTool(name: string, args: Record<string, any>, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${server!.url}/tools/${name}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-MCP-API-Key': API_KEY, ...headers },
+      body: JSON.stringify(args),
+    });
+  }
+
+  beforeAll(async () => {
+    server = await startServer({ MCP_AUTH_MODE: 'api-key', MCP_API_KEY: API_KEY });
+  }, 30_000);
+
+  afterAll(async () => {
+    await stopServer(server?.child);
+  });
+
+  it('runs checkout once for a repeated Idempotency-Key', async () => {
+    expect((await callTool('add_to_cart', { productCode: 'cheese', quantity: 5 })).status).toBe(200);
+
+    const first = await callTool('checkout', {}, { 'Idempotency-Key': 'checkout-1' });
+    const retry = await callTool('checkout', {}, { 'Idempotency-Key': 'checkout-1' });
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect(first.headers.get('Idempotent-Replayed')).toBe('false');
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    const placed = await structuredContent(first);
+    expect((await structuredContent(retry)).orderId).toBe(placed.orderId);
+
+    const { orders } = await structuredContent(await callTool('list_orders', {}));
+    expect(orders.map((order: any) => order.orderId)).toEqual([placed.orderId]);
+  });
+});
+
+describe('Streamable HTTP transport', () => {
+  let server: { url: string; child: ChildProcess } | undefined;
+
+  beforeAll(async () => {
+    server = await startServer({ MCP_AUTH_MODE: 'none' });
+  }, 30_000);
+
+  afterAll(async () => {
+    await stopServer(server?.child);
+  });
+
+  it('opens a session on initialize and serves requests on it', async () => {
+    const { response, reply } = await postMcp(server!.url, INITIALIZE);
+    const sessionId = response.headers.get('mcp-session-id');
+
+    expect(response.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(reply.result.serverInfo.name).toBeTruthy();
+
+    const tools = await postMcp(server!.url, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId! });
+    expect(tools.reply.result.tools.map((tool: any) => tool.name)).toContain('search_products');
+
+    const health = (await (await fetch(`${server!.url}/health`)).json()) as any;
+    expect(health.sessions.streamableHttp).toBeGreaterThan(0);
+  });
+
+  it('rejects requests without a usable session', async () => {
+    const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+    const noSession = await postMcp(server!.url, listTools);
+    expect(noSession.response.status).toBe(400);
+    expect(noSession.reply.error.message).toBe('Bad Request: No valid session ID provided');
+
+    expect((await postMcp(server!.url, listTools, { 'Mcp-Session-Id': 'no-such-session' })).response.status).toBe(404);
+    expect((await fetch(`${server!.url}/mcp`, { method: 'GET' })).status).toBe(400);
+    expect((await fetch(`${server!.url}/mcp`, { method: 'PUT' })).status).toBe(405);
+
+    const malformed = await fetch(`${server!.url}/mcp`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    expect(malformed.status).toBe(400);
+    expect(((await malformed.json()) as any).error.code).toBe(-32700);
+  });
+
+  it('ends a session on DELETE', async () => {
+    const sessionId = (await postMcp(server!.url, INITIALIZE)).response.headers.get('mcp-session-id')!;
+
+    expect((await fetch(`${server!.url}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } })).status).toBe(200);
+    expect((await fetch(`${server!.url}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } })).status).toBe(404);
+  });
+});
+
+describe('resource subscriptions', () => {
+  const servers: ChildProcess[] = [];
+
+  afterAll(async () => {
+    await Promise.all(servers.map(stopServer));
+  });
+
+  it('are only offered with the local agent backend', async () => {
+    const local = await startServer({ MCP_AUTH_MODE: 'none' });
+    servers.push(local.child);
+    const remote = await startServer({ MCP_AUTH_MODE: 'none', MCP_AGENT_BACKEND: 'http' });
+    servers.push(remote.child);
+
+    expect((await postMcp(local.url, INITIALIZE)).reply.result.capabilities.resources).toEqual({ subscribe: true });
+    expect((await postMcp(remote.url, INITIALIZE)).reply.result.capabilities.resources).toEqual({});
+  }, 60_000);
+});
+
+describe('MCP sessions in oauth2 mode', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test', alg: 'RS256', use: 'sig' }] }));
+  });
+  let server: { url: string; child: ChildProcess } | undefined;
+
+  // Access token for an OAuth2 client signed with the key jwks serves
+  function bearer(clientId: string): Record<string, string> {
+    return { Authorization: `Bearer ${jwt.sign({ client_id: clientId }, privateKey, { algorithm: 'RS256', keyid: 'test' })}` };
+  }
+
+  async function openSession(headers: Record<string, string>): Promise<string> {
+    const { response } = await postMcp(server!.url, INITIALIZE, headers);
+    expect(response.status).toBe(200);
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+  beforeAll(async () => {
+    const port = await freePort();
+    await new Promise<void>(resolve => jwks.listen(port, '127.0.0.1', resolve));
+    server = await startServer({ MCP_AUTH_MODE: 'oauth2', OAUTH2_JWKS_URI: `http://127.0.0.1:${port}/jwks` });
+  }, 30_000);
+
+  afterAll(async () => {
+    await stopServer(server?.child);
+    await new Promise(resolve => jwks.close(resolve));
+  });
+
+  it('serves a session only to the client that opened it', async () => {
+    const alice = bearer('alice');
+    const sessionId = await openSession(alice);
+
+    const own = await postMcp(server!.url, listTools, { ...alice, 'Mcp-Session-Id': sessionId });
+    expect(own.response.status).toBe(200);
+    expect(own.reply.result.tools.length).toBeGreaterThan(0);
+
+    const other = await postMcp(server!.url, listTools, { ...bearer('mallory'), 'Mcp-Session-Id': sessionId });
+    expect(other.response.status).toBe(404);
+    expect(other.reply.error.message).toBe('Session not found');
+
+    for (const method of ['GET', 'DELETE']) {
+      const response = await fetch(`${server!.url}/mcp`, {
+        method,
+        headers: { ...bearer('mallory'), 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      });
+      expect(response.status, method).toBe(404);
+      await response.body?.cancel();
+    }
+
+    const closed = await fetch(`${server!.url}/mcp`, { method: 'DELETE', headers: { ...alice, 'Mcp-Session-Id': sessionId } });
+    expect(closed.status).toBe(200);
+    expect((await postMcp(server!.url, listTools, { ...alice, 'Mcp-Session-Id': sessionId })).response.status).toBe(404);
+  });
+
+  it('accepts legacy SSE messages only from the client that opened the stream', async () => {
+    const alice = bearer('alice');
+    const stream = new AbortController();
+    const sse = await fetch(`${server!.url}/sse`, { headers: alice, signal: stream.signal });
+    const reader = sse.body!.getReader();
+    let received = '';
+    while (!received.includes('sessionId=')) {
+      received += new TextDecoder().decode((await reader.read()).value);
+    }
+    const endpoint = received.match(/data: (\S+)/)![1];
+
+    try {
+      const post = (headers: Record<string, string>) => fetch(new URL(endpoint, server!.url), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(INITIALIZE),
+      });
+
+      expect((await post(bearer('mallory'))).status).toBe(404);
+      expect((await post(alice)).status).toBe(202);
+    } finally {
+      stream.abort();
+    }
+  });
+});
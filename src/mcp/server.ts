@@ -7,26 +7,62 @@ config({ path: resolve(process.cwd(), '.env.local') });
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
 import http from 'http';
 
 import { MCPAgentClient } from './client.js';
-import { mcpTools } from './tools.js';
-import { verifyAuth, sendAuthError } from './auth-verifier.js';
+import { getLocalUserId, LocalAgentClient } from './local-agent-client.js';
+import { initializeCatalog, stopCatalogWatch } from '../lib/catalog/catalog-loader.js';
+import { InvalidCursorError } from '../lib/catalog/product-query.js';
+import { toolRegistry, UnknownToolError, AgentCaller } from './tool-registry.js';
+import { ToolArgumentsError } from './tool-validation.js';
+import { ConfirmationRequiredError, getElicit } from './tool-confirmation.js';
+import {
+  ResourceSubscriptions,
+  mcpResourceTemplates,
+  mcpResources,
+  readResource,
+  toResourceMcpError,
+} from './resources.js';
+import { getPrompt, listPrompts, PromptArgumentsError, UnknownPromptError } from './prompts.js';
+import { complete, CompleteRequestWithToolsSchema, UnknownCompletionReferenceError } from './completions.js';
+import { IdempotencyKeyReuseError } from './idempotency-store.js';
+import { InsufficientStockError } from '../lib/cache/inventory-cache.js';
+import { cartCache, CartVersionConflictError } from '../lib/cache/cart-cache.js';
+import { CouponRejectedError } from '../lib/promotions/coupons.js';
+import { InvalidOrderTransitionError, OrderNotFoundError } from '../lib/orders/order-store.js';
+import { AuthorizationNotFoundError } from '../lib/ciba/checkout-authorizations.js';
+import { verifyAuth, sendAuthError, toAuthInfo, fromAuthInfo, AuthResult } from './auth-verifier.js';
 import { getOpenIDConfiguration } from './openid-discovery.js';
 import { generateOpenAPISchema, generateActionsManifest } from './openapi-schema.js';
+import { InMemoryEventStore } from './event-store.js';
 
 /**
- * MCP Server that exposes LangGraph agents via SSE (Server-Sent Events)
- * Production-ready implementation using HTTP/SSE transport
+ * MCP Server that exposes LangGraph agents over HTTP
+ * Production-ready implementation using Streamable HTTP and legacy SSE transports
  * 
  * Architecture:
  * MCP Client (Claude Desktop/ChatGPT/Cursor) -> MCP Server (this file) -> Next.js API -> LangGraph Agents
+ * With MCP_AGENT_BACKEND=local the agents run in-process instead (no external services)
  * 
- * Transport: SSE over HTTP (production-ready, works locally and in Kubernetes)
+ * Transports (production-ready, work locally and in Kubernetes):
+ * - Streamable HTTP: POST/GET/DELETE /mcp with Mcp-Session-Id sessions and Last-Event-ID resumability
+ * - Legacy SSE: GET /sse opens the stream, POST /message?sessionId=... sends messages
  * 
  * MCP Protocol Version: 2025-06-18 (current)
  */
@@ -37,6 +73,7 @@ const MCP_SERVER_PORT = parseInt(process.env.MCP_SERVER_PORT || '3001', 10);
 const MCP_SERVER_HOST = process.env.MCP_SERVER_HOST || '0.0.0.0'; // Accept connections from any IP
 const MCP_AUTH_MODE = process.env.MCP_AUTH_MODE || 'oauth2'; // 'api-key', 'oauth2', 'hybrid', 'none'
 const MCP_PROTOCOL_VERSION = '2025-06-18'; // Current MCP protocol version
+const MCP_AGENT_BACKEND = process.env.MCP_AGENT_BACKEND || 'http'; // 'http' (Next.js API) or 'local' (in-process)
 
 // Validate OAuth2 configuration if using OAuth2 mode
 if (MCP_AUTH_MODE === 'oauth2' || MCP_AUTH_MODE === 'hybrid') {
@@ -65,176 +102,310 @@ if (MCP_AUTH_MODE === 'api-key' || MCP_AUTH_MODE === 'hybrid') {
   }
 }
 
-// Initialize HTTP client (no authentication needed here, it will be passed per request)
-const agentClient = new MCPAgentClient(NEXTJS_URL);
+// Initialize agent backend (no authentication stored here, each call passes the caller's AuthResult)
+const agentClient: AgentCaller = MCP_AGENT_BACKEND === 'local'
+  ? new LocalAgentClient()
+  : new MCPAgentClient(NEXTJS_URL);
+
+// The Next.js agents have no actions for these tools (orders, coupons, cart edits)
+if (MCP_AGENT_BACKEND !== 'local') {
+  const localOnly = toolRegistry.unregisterLocalOnly();
+  console.error(`[MCP Server] Tools needing MCP_AGENT_BACKEND=local left out: ${localOnly.join(', ')}`);
+}
 
 // Track MCP protocol method calls for debugging
-let initializeCalled = false;
 let toolsListCalled = false;
 let toolsListCallCount = 0;
 
-// Create MCP server with proper protocol version and capabilities
-const server = new Server(
-  {
-    name: 'safeway-shopping-assistant',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {
-        // Explicitly declare we support tools/list and tools/call
-        // No listChanged support for now to keep it simple
-      },
-    },
+// Active transports keyed by MCP session ID
+const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+const sseTransports = new Map<string, SSEServerTransport>();
+
+// The caller that opened each session; other callers can't use its ID
+const sessionOwners = new Map<string, string>();
+
+/**
+ * Find an open session for this caller. Sessions opened by someone else are
+ * reported as missing so their IDs can't be probed.
+ */
+function findSession<T>(transports: Map<string, T>, sessionId: string | null | undefined, authResult: AuthResult): T | undefined {
+  if (!sessionId || sessionOwners.get(sessionId) !== getLocalUserId(authResult)) {
+    return undefined;
   }
-);
+  return transports.get(sessionId);
+}
 
-console.error('[MCP Server] Server created with capabilities:', {
-  tools: true,
-  protocolVersion: MCP_PROTOCOL_VERSION,
-});
+/**
+ * Create an MCP server with proper protocol version and capabilities
+ * Each session gets its own server instance since a server owns one transport
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'safeway-shopping-assistant',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {
+          // Explicitly declare we support tools/list and tools/call
+          // No listChanged support for now to keep it simple
+        },
+        // cart://current and orders://{id} send notifications/resources/updated, but only
+        // changes made by the in-process agents are seen (see resources.ts)
+        resources: MCP_AGENT_BACKEND === 'local' ? { subscribe: true } : {},
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  const subscriptions = new ResourceSubscriptions(uri => server.sendResourceUpdated({ uri }));
+  server.onclose = () => subscriptions.close();
 
-// Handle list_tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  const startTime = Date.now();
-  toolsListCalled = true;
-  toolsListCallCount++;
+  // Handle list_tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const startTime = Date.now();
+    toolsListCalled = true;
+    toolsListCallCount++;
   
-  console.error('[MCP Server] ========================================');
-  console.error('[MCP Server] ✅ tools/list CALLED');
-  console.error(`[MCP Server] Call count: ${toolsListCallCount}`);
-  console.error(`[MCP Server] Timestamp: ${new Date().toISOString()}`);
-  console.error('[MCP Server] ========================================');
+    console.error('[MCP Server] ========================================');
+    console.error('[MCP Server] ✅ tools/list CALLED');
+    console.error(`[MCP Server] Call count: ${toolsListCallCount}`);
+    console.error(`[MCP Server] Timestamp: ${new Date().toISOString()}`);
+    console.error('[MCP Server] ========================================');
   
-  // Ensure we return tools in the correct format
-  const toolsList = mcpTools.map(tool => ({
-    name: tool.name,
-    description: tool.description,
-    inputSchema: tool.inputSchema,
-  }));
+    // Ensure we return tools in the correct format
+    const toolsList = toolRegistry.listTools();
   
-  console.error(`[MCP Server] Returning ${toolsList.length} tools:`);
-  toolsList.forEach((tool, i) => {
-    console.error(`  ${i + 1}. ${tool.name} - ${tool.description}`);
-  });
-  console.error(`[MCP Server] Response format check:`);
-  console.error(`  - Type: ${typeof toolsList}`);
-  console.error(`  - Is Array: ${Array.isArray(toolsList)}`);
-  console.error(`  - Length: ${toolsList.length}`);
-  console.error(`[MCP Server] tools/list completed in ${Date.now() - startTime}ms`);
-  console.error('[MCP Server] ========================================');
+    console.error(`[MCP Server] Returning ${toolsList.length} tools:`);
+    toolsList.forEach((tool, i) => {
+      console.error(`  ${i + 1}. ${tool.name} - ${tool.description}`);
+    });
+    console.error(`[MCP Server] Response format check:`);
+    console.error(`  - Type: ${typeof toolsList}`);
+    console.error(`  - Is Array: ${Array.isArray(toolsList)}`);
+    console.error(`  - Length: ${toolsList.length}`);
+    console.error(`[MCP Server] tools/list completed in ${Date.now() - startTime}ms`);
+    console.error('[MCP Server] ========================================');
   
-  return { 
-    tools: toolsList,
-    // Optional: include nextCursor if implementing pagination (not needed for <50 tools)
-  };
-});
+    return { 
+      tools: toolsList,
+      // Optional: include nextCursor if implementing pagination (not needed for <50 tools)
+    };
+  });
 
-// Handle call_tool request
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args = {} } = request.params;
+  // Handle call_tool request
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args = {} } = request.params;
 
-  console.error(`[MCP Server] Tool called: ${name}`, JSON.stringify(args, null, 2));
+    console.error(`[MCP Server] Tool called: ${name}`, JSON.stringify(args, null, 2));
 
-  try {
-    let result;
-
-    // Route tool calls to appropriate agents via HTTP
-    switch (name) {
-      case 'search_products':
-        result = await agentClient.callAgent('catalog', {
-          action: 'search',
-          query: args.query,
-          category: args.category,
-          limit: args.limit,
-        });
-        break;
-
-      case 'add_to_cart':
-        result = await agentClient.callAgent('cart', {
-          action: 'add',
-          productCode: args.productCode,
-          quantity: args.quantity,
-        });
-        break;
-
-      case 'view_cart':
-        result = await agentClient.callAgent('cart', {
-          action: 'view',
-        });
-        break;
-
-      case 'checkout':
-        result = await agentClient.callAgent('cart', {
-          action: 'checkout',
-          cartSummary: args.cartSummary,
-        });
-        break;
-
-      case 'add_payment_method':
-        result = await agentClient.callAgent('payment', {
-          action: 'add',
-          type: args.type,
-        });
-        break;
-
-      case 'get_deals':
-        result = await agentClient.callAgent('deals', {
-          action: 'get',
-          category: args.category,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
+    try {
+      // Auth was verified on the HTTP request that carried this message;
+      // state-changing tools are confirmed with the user first
+      const result = await toolRegistry.call(name, args, agentClient, fromAuthInfo(extra.authInfo), {
+        confirm: true,
+        elicit: getElicit(server, extra),
+        sessionId: extra.sessionId,
+      });
+
+      console.error(`[MCP Server] Tool ${name} completed successfully`);
 
-    console.error(`[MCP Server] Tool ${name} completed successfully`);
-
-    // Extract the final AI message content from the result
-    let responseText = '';
-    if (result && result.messages && Array.isArray(result.messages)) {
-      // Get the last AI message
-      const lastMessage = result.messages[result.messages.length - 1];
-      if (lastMessage && lastMessage.kwargs && lastMessage.kwargs.content) {
-        responseText = lastMessage.kwargs.content;
-      } else {
-        // Fallback to full result
-        responseText = JSON.stringify(result, null, 2);
+      return result;
+    } catch (error: any) {
+      // Invalid arguments are a protocol error, not a tool failure
+      if (error instanceof ToolArgumentsError) {
+        console.error(`[MCP Server] Tool ${name} rejected:`, error.message);
+        throw new McpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
       }
-    } else {
-      responseText = JSON.stringify(result, null, 2);
+
+      console.error(`[MCP Server] Tool ${name} failed:`, error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+        // The token to send back once the user agrees (MCP_CONFIRMATION_FALLBACK=token)
+        ...(error instanceof ConfirmationRequiredError && error.confirmToken && {
+          _meta: { confirmToken: error.confirmToken },
+        }),
+      };
+    }
+  });
+
+  // Resources: the cart, catalog and orders (see resources.ts)
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: mcpResources }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: mcpResourceTemplates,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    try {
+      return await readResource(request.params.uri, agentClient, fromAuthInfo(extra.authInfo));
+    } catch (error: any) {
+      console.error(`[MCP Server] Resource ${request.params.uri} failed:`, error.message);
+      throw toResourceMcpError(error);
     }
+  });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: responseText,
-        },
-      ],
-    };
-  } catch (error: any) {
-    console.error(`[MCP Server] Tool ${name} failed:`, error);
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error.message}`,
-        },
-      ],
-      isError: true,
-    };
+  if (MCP_AGENT_BACKEND === 'local') {
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      try {
+        await subscriptions.subscribe(request.params.uri, agentClient, fromAuthInfo(extra.authInfo));
+      } catch (error) {
+        throw toResourceMcpError(error);
+      }
+      console.error(`[MCP Server] Subscribed to ${request.params.uri}`);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
   }
+
+  // Prompts: shopping workflows with live context (see prompts.ts)
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts() }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args = {} } = request.params;
+    try {
+      return await getPrompt(name, args, agentClient, fromAuthInfo(extra.authInfo));
+    } catch (error: any) {
+      if (error instanceof UnknownPromptError || error instanceof PromptArgumentsError) {
+        console.error(`[MCP Server] Prompt ${name} rejected:`, error.message);
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  // Argument completion for prompts, resource templates and tools (see completions.ts)
+  server.setRequestHandler(CompleteRequestWithToolsSchema, async (request, extra) => {
+    try {
+      return await complete(request.params, agentClient, fromAuthInfo(extra.authInfo));
+    } catch (error: any) {
+      if (error instanceof UnknownCompletionReferenceError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  return server;
+}
+
+console.error('[MCP Server] Server created with capabilities:', {
+  tools: true,
+  resources: { subscribe: MCP_AGENT_BACKEND === 'local' },
+  prompts: true,
+  completions: true,
+  protocolVersion: MCP_PROTOCOL_VERSION,
 });
 
-// Start MCP server with SSE transport
+/**
+ * Read and parse a JSON request body
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Tool arguments from a REST request body, or null unless it is a JSON object
+ */
+function parseToolArguments(body: string): Record<string, any> | null {
+  let args: unknown;
+  try {
+    args = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  return args !== null && typeof args === 'object' && !Array.isArray(args) ? args as Record<string, any> : null;
+}
+
+/**
+ * Send a JSON-RPC error response outside of a transport
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Cart version from an If-Match header ("3" or W/"3")
+ * Returns undefined when absent or "*", null when malformed
+ */
+function parseIfMatch(header: string | string[] | undefined): number | undefined | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || value.trim() === '*') {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * ETag of a cart version, as sent back in If-Match
+ */
+function cartETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Whether a tool takes an expectedVersion argument (If-Match maps onto it)
+ */
+function acceptsExpectedVersion(toolName: string): boolean {
+  const properties = toolRegistry.get(toolName)?.inputSchema.properties;
+  return !!properties && 'expectedVersion' in properties;
+}
+
+/**
+ * Close every open MCP session so long-lived streams don't block shutdown
+ */
+function closeAllSessions(): void {
+  for (const transport of [...streamableTransports.values(), ...sseTransports.values()]) {
+    transport.close().catch((error) => {
+      console.error('[MCP Server] Failed to close transport:', error);
+    });
+  }
+  streamableTransports.clear();
+  sseTransports.clear();
+  sessionOwners.clear();
+}
+
+// Start MCP server with Streamable HTTP and SSE transports
 async function main() {
   console.error('[MCP Server] Starting Safeway Shopping Assistant MCP Server...');
-  console.error(`[MCP Server] Transport: SSE (Server-Sent Events)`);
+  console.error(`[MCP Server] Transports: Streamable HTTP (/mcp), legacy SSE (/sse + /message)`);
   console.error(`[MCP Server] Server URL: http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}`);
-  console.error(`[MCP Server] Next.js API URL: ${NEXTJS_URL}`);
+  console.error(`[MCP Server] Agent backend: ${MCP_AGENT_BACKEND}`);
+  if (MCP_AGENT_BACKEND !== 'local') {
+    console.error(`[MCP Server] Next.js API URL: ${NEXTJS_URL}`);
+  }
   console.error(`[MCP Server] Authentication Mode: ${MCP_AUTH_MODE}`);
   
   if (MCP_AUTH_MODE === 'oauth2' || MCP_AUTH_MODE === 'hybrid') {
@@ -247,6 +418,19 @@ async function main() {
     }
   }
   
+  await initializeCatalog();
+
+  // Evict abandoned carts held by the in-process cart agent
+  if (MCP_AGENT_BACKEND === 'local') {
+    // Stored carts keep their stock reserved across restarts
+    await cartCache.open();
+    cartCache.on('cart.abandoned', ({ cart, idleMs }) => {
+      console.error(`[MCP Server] Cart of ${cart.userId} abandoned after ${Math.round(idleMs / 60000)} min ` +
+        `(${cart.totalItems} items)`);
+    });
+    cartCache.startSweeper();
+  }
+
   // Periodic status check to monitor if ChatGPT is calling tools/list
   setInterval(() => {
     console.error('[MCP Server] ========================================');
@@ -264,12 +448,14 @@ async function main() {
     console.error('[MCP Server] ========================================');
   }, 30000); // Every 30 seconds
 
-  // Create HTTP server for SSE transport
+  // Create HTTP server for the MCP transports
   const httpServer = http.createServer(async (req, res) => {
     // CORS headers for cross-origin requests
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers',
+      'Content-Type, Authorization, X-User-Token, X-MCP-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, If-Match, Idempotency-Key');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, ETag, Idempotency-Key, Idempotent-Replayed');
 
     // Handle preflight requests
     if (req.method === 'OPTIONS') {
@@ -280,13 +466,24 @@ async function main() {
 
     // Health check endpoint
     if (req.url === '/health' || req.url === '/') {
+      const carts = MCP_AGENT_BACKEND === 'local'
+        ? {
+            active: await cartCache.getCartCount().catch(() => null),
+            abandoned: cartCache.getAbandonedCartCount(),
+          }
+        : undefined;
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
         status: 'healthy',
         service: 'safeway-shopping-assistant-mcp',
         version: '1.0.0',
-        transport: 'sse',
-        tools: mcpTools.map(t => t.name),
+        transports: ['streamable-http', 'sse'],
+        sessions: {
+          streamableHttp: streamableTransports.size,
+          sse: sseTransports.size,
+        },
+        ...(carts && { carts }),
+        tools: toolRegistry.getNames(),
       }));
       return;
     }
@@ -386,43 +583,154 @@ async function main() {
       return;
     }
 
-    // MCP SSE endpoint
-    if (req.url === '/sse' && req.method === 'POST') {
-      console.error('[MCP Server] New SSE connection attempt');
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
 
-      // Verify authentication
+    // MCP Streamable HTTP endpoint (POST/GET/DELETE /mcp)
+    if (pathname === '/mcp') {
       const authResult = await verifyAuth(req);
-      
+
       if (!authResult.success) {
         console.error('[MCP Server] Authentication failed:', authResult.error);
         sendAuthError(res, authResult.error || 'Authentication required');
         return;
       }
 
-      console.error('[MCP Server] Authentication successful');
-      
-      // Store auth tokens for this connection
-      if (authResult.accessToken) {
-        agentClient.setAccessToken(authResult.accessToken);
+      // Every message on this request is handled with this request's auth
+      const authedReq = Object.assign(req, { auth: toAuthInfo(authResult) });
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      try {
+        if (req.method === 'POST') {
+          const body = await readJsonBody(req);
+
+          if (sessionId) {
+            const transport = findSession(streamableTransports, sessionId, authResult);
+            if (!transport) {
+              sendJsonRpcError(res, 404, -32001, 'Session not found');
+              return;
+            }
+            await transport.handleRequest(authedReq, res, body);
+            return;
+          }
+
+          if (!isInitializeRequest(body)) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+            return;
+          }
+
+          // New session: create a transport and a dedicated server for it
+          const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            eventStore: new InMemoryEventStore(),
+            onsessioninitialized: (newSessionId) => {
+              console.error(`[MCP Server] Streamable HTTP session initialized: ${newSessionId}`);
+              streamableTransports.set(newSessionId, transport);
+              sessionOwners.set(newSessionId, getLocalUserId(authResult));
+            },
+          });
+
+          transport.onclose = () => {
+            if (transport.sessionId) {
+              console.error(`[MCP Server] Streamable HTTP session closed: ${transport.sessionId}`);
+              streamableTransports.delete(transport.sessionId);
+              sessionOwners.delete(transport.sessionId);
+            }
+          };
+
+          await createMcpServer().connect(transport);
+          await transport.handleRequest(authedReq, res, body);
+          return;
+        }
+
+        if (req.method === 'GET' || req.method === 'DELETE') {
+          if (!sessionId) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+            return;
+          }
+
+          const transport = findSession(streamableTransports, sessionId, authResult);
+          if (!transport) {
+            sendJsonRpcError(res, 404, -32001, 'Session not found');
+            return;
+          }
+
+          // GET opens (or resumes via Last-Event-ID) the server-to-client stream,
+          // DELETE terminates the session
+          await transport.handleRequest(authedReq, res);
+          return;
+        }
+
+        res.writeHead(405, { 'Content-Type': 'application/json', 'Allow': 'GET, POST, DELETE' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+      } catch (error: any) {
+        console.error('[MCP Server] Streamable HTTP request failed:', error);
+        if (res.headersSent) {
+          return;
+        }
+        if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, 'Parse error');
+        } else {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
       }
+      return;
+    }
+
+    // Legacy MCP SSE endpoint (GET, with POST kept for older clients)
+    if (pathname === '/sse' && (req.method === 'GET' || req.method === 'POST')) {
+      console.error('[MCP Server] New SSE connection attempt');
+
+      // Verify authentication
+      const authResult = await verifyAuth(req);
       
-      if (authResult.userToken) {
-        agentClient.setUserToken(authResult.userToken);
+      if (!authResult.success) {
+        console.error('[MCP Server] Authentication failed:', authResult.error);
+        sendAuthError(res, authResult.error || 'Authentication required');
+        return;
       }
 
-      console.error('[MCP Server] SSE connection established');
+      console.error('[MCP Server] Authentication successful');
 
       const transport = new SSEServerTransport('/message', res);
-      await server.connect(transport);
+      sseTransports.set(transport.sessionId, transport);
+      sessionOwners.set(transport.sessionId, getLocalUserId(authResult));
+      await createMcpServer().connect(transport);
+
+      console.error(`[MCP Server] SSE connection established: ${transport.sessionId}`);
 
       // Handle connection close
-      req.on('close', () => {
-        console.error('[MCP Server] SSE connection closed');
+      res.on('close', () => {
+        console.error(`[MCP Server] SSE connection closed: ${transport.sessionId}`);
+        sseTransports.delete(transport.sessionId);
+        sessionOwners.delete(transport.sessionId);
       });
 
       return;
     }
 
+    // Legacy MCP SSE message endpoint
+    if (pathname === '/message' && req.method === 'POST') {
+      const authResult = await verifyAuth(req);
+
+      if (!authResult.success) {
+        console.error('[MCP Server] Authentication failed:', authResult.error);
+        sendAuthError(res, authResult.error || 'Authentication required');
+        return;
+      }
+
+      const sessionId = new URL(req.url || '/', 'http://localhost').searchParams.get('sessionId');
+      const transport = findSession(sseTransports, sessionId, authResult);
+
+      if (!transport) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Session not found' }));
+        return;
+      }
+
+      await transport.handlePostMessage(Object.assign(req, { auth: toAuthInfo(authResult) }), res);
+      return;
+    }
+
     // REST-style tool execution endpoints for ChatGPT Enterprise
     // These match the paths defined in the OpenAPI schema
     if (req.url?.startsWith('/tools/') && req.method === 'POST') {
@@ -447,99 +755,148 @@ async function main() {
       });
 
       req.on('end', async () => {
+        const isCartTool = toolRegistry.get(toolName)?.agent === 'cart';
+        const ifMatch = isCartTool ? parseIfMatch(req.headers['if-match']) : undefined;
+
         try {
-          const args = JSON.parse(requestBody);
+          const args = parseToolArguments(requestBody);
+          if (!args) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Invalid request body', message: 'Expected a JSON object of tool arguments' }));
+            return;
+          }
           console.error(`[MCP Server] Executing tool: ${toolName}`, args);
 
-          // Store auth tokens for this request
-          if (authResult.accessToken) {
-            agentClient.setAccessToken(authResult.accessToken);
+          // If-Match carries the cart version the client last saw
+          if (ifMatch === null) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Invalid If-Match header', message: 'Expected a cart ETag such as "3"' }));
+            return;
           }
-          
-          if (authResult.userToken) {
-            agentClient.setUserToken(authResult.userToken);
+          if (ifMatch !== undefined && acceptsExpectedVersion(toolName)) {
+            args.expectedVersion = ifMatch;
           }
 
-          // Execute the tool (reuse the same logic from the MCP handler)
-          let result;
-          switch (toolName) {
-            case 'search_products':
-              result = await agentClient.callAgent('catalog', {
-                action: 'search',
-                query: args.query,
-                category: args.category,
-                limit: args.limit,
-              });
-              break;
-
-            case 'add_to_cart':
-              result = await agentClient.callAgent('cart', {
-                action: 'add',
-                productCode: args.productCode,
-                quantity: args.quantity,
-              });
-              break;
-
-            case 'view_cart':
-              result = await agentClient.callAgent('cart', {
-                action: 'view',
-              });
-              break;
-
-            case 'checkout':
-              result = await agentClient.callAgent('cart', {
-                action: 'checkout',
-                cartSummary: args.cartSummary,
-              });
-              break;
-
-            case 'add_payment_method':
-              result = await agentClient.callAgent('payment', {
-                action: 'add',
-                type: args.type,
-              });
-              break;
-
-            case 'get_deals':
-              result = await agentClient.callAgent('deals', {
-                action: 'get',
-                category: args.category,
-              });
-              break;
-
-            default:
-              res.writeHead(404, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ error: 'Unknown tool: ' + toolName }));
-              return;
+          // Idempotency-Key works like the tools' idempotencyKey argument
+          const idempotencyKeyHeader = req.headers['idempotency-key'];
+          if (typeof idempotencyKeyHeader === 'string' && toolRegistry.get(toolName)?.consequential) {
+            args.idempotencyKey = idempotencyKeyHeader;
           }
 
-          // Format response in MCP format
-          let responseText = '';
-          if (result && result.messages && Array.isArray(result.messages)) {
-            const lastMessage = result.messages[result.messages.length - 1];
-            if (lastMessage && lastMessage.kwargs && lastMessage.kwargs.content) {
-              responseText = lastMessage.kwargs.content;
-            } else {
-              responseText = JSON.stringify(result, null, 2);
-            }
-          } else {
-            responseText = JSON.stringify(result, null, 2);
-          }
-
-          const response = {
-            content: [
-              {
-                type: 'text',
-                text: responseText,
-              },
-            ],
-          };
+          // Execute the tool through the shared registry with this request's auth; without
+          // a user or client id (auth modes none and api-key) the caller is the local user
+          const response = await toolRegistry.call(toolName, args, agentClient, authResult, {
+            defaultScope: getLocalUserId(authResult),
+          });
 
           console.error(`[MCP Server] Tool ${toolName} completed successfully`);
-          res.writeHead(200, { 'Content-Type': 'application/json' });
+          const version = (response.structuredContent as any)?.version;
+          const idempotencyKey = response._meta?.idempotencyKey;
+          res.writeHead(200, {
+            'Content-Type': 'application/json',
+            ...(isCartTool && typeof version === 'number' && { ETag: cartETag(version) }),
+            ...(typeof idempotencyKey === 'string' && {
+              'Idempotency-Key': idempotencyKey,
+              'Idempotent-Replayed': String(!!response._meta?.idempotentReplayed),
+            }),
+          });
           res.end(JSON.stringify(response, null, 2));
 
         } catch (error: any) {
+          if (error instanceof UnknownToolError) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: error.message }));
+            return;
+          }
+
+          if (error instanceof ToolArgumentsError) {
+            console.error(`[MCP Server] Tool ${toolName} rejected:`, error.message);
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Invalid arguments',
+              message: error.message,
+              issues: error.issues,
+            }));
+            return;
+          }
+
+          if (error instanceof InvalidCursorError) {
+            // Stale or tampered search_products cursor
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Invalid cursor', message: error.message }));
+            return;
+          }
+
+          if (error instanceof CartVersionConflictError) {
+            // 412 answers a failed If-Match; 409 a stale expectedVersion in the body
+            res.writeHead(ifMatch !== undefined ? 412 : 409, {
+              'Content-Type': 'application/json',
+              ETag: cartETag(error.currentVersion),
+            });
+            res.end(JSON.stringify({
+              error: 'Cart version conflict',
+              message: error.message,
+              expectedVersion: error.expectedVersion,
+              currentVersion: error.currentVersion,
+            }));
+            return;
+          }
+
+          if (error instanceof IdempotencyKeyReuseError) {
+            res.writeHead(422, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Idempotency key reused',
+              message: error.message,
+              idempotencyKey: error.idempotencyKey,
+            }));
+            return;
+          }
+
+          if (error instanceof AuthorizationNotFoundError) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Authorization not found',
+              authorizationId: error.authorizationId,
+              message: error.message,
+            }));
+            return;
+          }
+
+          if (error instanceof OrderNotFoundError) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Order not found', orderId: error.orderId, message: error.message }));
+            return;
+          }
+
+          if (error instanceof InvalidOrderTransitionError) {
+            res.writeHead(409, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Invalid order status change',
+              message: error.message,
+              orderId: error.orderId,
+              status: error.from,
+            }));
+            return;
+          }
+
+          if (error instanceof CouponRejectedError) {
+            res.writeHead(422, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Coupon rejected', code: error.code, message: error.message }));
+            return;
+          }
+
+          if (error instanceof InsufficientStockError) {
+            res.writeHead(409, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Insufficient stock',
+              message: error.message,
+              productId: error.productId,
+              requested: error.requested,
+              available: error.available,
+            }));
+            return;
+          }
+
           console.error(`[MCP Server] Tool execution failed:`, error);
           res.writeHead(500, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({
@@ -560,17 +917,18 @@ async function main() {
   // Start listening
   httpServer.listen(MCP_SERVER_PORT, MCP_SERVER_HOST, () => {
     console.error(`[MCP Server] Listening on http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}`);
-    console.error('[MCP Server] SSE endpoint: POST http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}/sse');
+    console.error(`[MCP Server] Streamable HTTP endpoint: http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}/mcp`);
+    console.error(`[MCP Server] Legacy SSE endpoint: GET http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}/sse`);
     console.error('[MCP Server] Health check: GET http://${MCP_SERVER_HOST}:${MCP_SERVER_PORT}/health');
     console.error('[MCP Server] Ready to receive MCP requests from clients');
-    console.error('[MCP Server] Available tools:', mcpTools.map(t => t.name).join(', '));
+    console.error('[MCP Server] Available tools:', toolRegistry.getNames().join(', '));
     console.error('');
     console.error('[MCP Server] Configuration for clients:');
     console.error(JSON.stringify({
       mcpServers: {
         'safeway-shopping-assistant': {
-          url: `http://localhost:${MCP_SERVER_PORT}/sse`,
-          transport: 'sse'
+          url: `http://localhost:${MCP_SERVER_PORT}/mcp`,
+          transport: 'streamable-http'
         }
       }
     }, null, 2));
@@ -579,7 +937,11 @@ async function main() {
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.error('\n[MCP Server] Shutting down gracefully...');
-    httpServer.close(() => {
+    closeAllSessions();
+    stopCatalogWatch();
+    httpServer.close(async () => {
+      await cartCache.close().catch((error) => console.error('[MCP Server] Cart store close failed:', error));
+      await agentClient.close?.().catch((error) => console.error('[MCP Server] Agent backend close failed:', error));
       console.error('[MCP Server] Server closed');
       process.exit(0);
     });
@@ -587,7 +949,11 @@ async function main() {
 
   process.on('SIGTERM', () => {
     console.error('\n[MCP Server] Received SIGTERM, shutting down gracefully...');
-    httpServer.close(() => {
+    closeAllSessions();
+    stopCatalogWatch();
+    httpServer.close(async () => {
+      await cartCache.close().catch((error) => console.error('[MCP Server] Cart store close failed:', error));
+      await agentClient.close?.().catch((error) => console.error('[MCP Server] Agent backend close failed:', error));
       console.error('[MCP Server] Server closed');
       process.exit(0);
     });
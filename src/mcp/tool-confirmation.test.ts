@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConfirmTokenStore } from './tool-confirmation.js';
+import { fingerprintRequest } from './idempotency-store.js';
+
+const checkout = fingerprintRequest({ tool: 'checkout', args: {}, message: 'Place the order for $29.95?' });
+
+describe('ConfirmTokenStore', () => {
+  it('issues 128-bit tokens that fit the confirmToken argument', () => {
+    const store = new ConfirmTokenStore();
+    const token = store.issue('alice', checkout);
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(store.issue('alice', checkout)).not.toBe(token);
+  });
+
+  it('confirms only the caller and request it was issued for, once', () => {
+    const store = new ConfirmTokenStore();
+    const token = store.issue('alice', checkout);
+    const changedTotal = fingerprintRequest({ tool: 'checkout', args: {}, message: 'Place the order for $31.20?' });
+
+    expect(store.consume('bob', token, checkout)).toBe(false);
+    expect(store.consume('alice', token, changedTotal)).toBe(false);
+    expect(store.consume('alice', token, checkout)).toBe(true);
+    expect(store.consume('alice', token, checkout)).toBe(false);
+  });
+});
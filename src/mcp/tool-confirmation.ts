@@ -0,0 +1,159 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ElicitRequest,
+  ElicitResult,
+  ElicitResultSchema,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * User confirmation for tools that spend money or can't be undone
+ *
+ * On MCP transports, tools that declare a confirmationMessage ask the user
+ * before they run. Clients that advertise the elicitation capability get
+ * an elicitation/create request with the question (e.g. the order total).
+ * For other clients MCP_CONFIRMATION_FALLBACK decides:
+ *   token   (default) the call fails with the question and a single-use
+ *           confirmToken (128 random bits); calling again with it runs the
+ *           tool. The token is bound to the caller, the arguments and the
+ *           question, so it stops working if e.g. the order total changes
+ *           in between.
+ *   refuse  the call fails; the tool is unavailable to that client
+ *   none    the tool runs without confirmation
+ *
+ * REST callers are not asked here: the OpenAPI schema marks these tools
+ * x-openai-isConsequential so ChatGPT confirms them itself.
+ */
+
+const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Users may take a while to answer an elicitation
+const ELICITATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type ConfirmationFallback = 'token' | 'refuse' | 'none';
+
+export type ConfirmationAnswer = ElicitResult['action'];
+
+/**
+ * Ask the user a yes/no question through the client
+ */
+export type Elicit = (message: string) => Promise<ConfirmationAnswer>;
+
+/**
+ * The tool needs the user's confirmation first; the message is the question
+ * and, with the token fallback, how to confirm
+ */
+export class ConfirmationRequiredError extends Error {
+  constructor(message: string, public readonly confirmToken?: string) {
+    super(message);
+    this.name = 'ConfirmationRequiredError';
+  }
+}
+
+/**
+ * The user declined (or dismissed) the confirmation
+ */
+export class ConfirmationDeclinedError extends Error {
+  constructor(public readonly toolName: string, public readonly answer: ConfirmationAnswer) {
+    super(answer === 'cancel'
+      ? `The user dismissed the confirmation; ${toolName} was not run`
+      : `The user declined; ${toolName} was not run`);
+    this.name = 'ConfirmationDeclinedError';
+  }
+}
+
+export function getConfirmationFallback(): ConfirmationFallback {
+  const fallback = (process.env.MCP_CONFIRMATION_FALLBACK || 'token').toLowerCase();
+  if (fallback !== 'token' && fallback !== 'refuse' && fallback !== 'none') {
+    throw new Error(`Unknown MCP_CONFIRMATION_FALLBACK: ${fallback} (expected token, refuse or none)`);
+  }
+  return fallback;
+}
+
+const confirmationSchema: ElicitRequest['params']['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    confirm: {
+      type: 'boolean',
+      title: 'Confirm',
+      description: 'Go ahead?',
+      default: true,
+    },
+  },
+  required: ['confirm'],
+};
+
+/**
+ * Elicit for the client behind a tool call, or undefined if the client
+ * doesn't support elicitation. The request is sent with the tool call's
+ * extra.sendRequest so it travels on that call's stream.
+ */
+export function getElicit(
+  server: Server,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Elicit | undefined {
+  if (!server.getClientCapabilities()?.elicitation) {
+    return undefined;
+  }
+
+  return async (message) => {
+    const result = await extra.sendRequest(
+      { method: 'elicitation/create', params: { message, requestedSchema: confirmationSchema } },
+      ElicitResultSchema,
+      { timeout: ELICITATION_TIMEOUT_MS },
+    );
+    // Accepting the form with the box unticked is a no
+    if (result.action === 'accept' && result.content?.confirm === false) {
+      return 'decline';
+    }
+    return result.action;
+  };
+}
+
+function hashRequest(fingerprint: string): string {
+  return createHash('sha256').update(fingerprint).digest('hex');
+}
+
+/**
+ * Single-use confirm tokens for clients without elicitation
+ */
+export class ConfirmTokenStore {
+  private tokens = new Map<string, { scope: string; requestHash: string; expiresAt: number }>();
+
+  /**
+   * New token for one caller (scope) and one request (fingerprint of the
+   * tool, arguments and question)
+   */
+  issue(scope: string, fingerprint: string): string {
+    this.purgeExpired();
+    const token = randomBytes(16).toString('hex');
+    this.tokens.set(token, { scope, requestHash: hashRequest(fingerprint), expiresAt: Date.now() + CONFIRM_TOKEN_TTL_MS });
+    return token;
+  }
+
+  /**
+   * Use up a token; false if it is unknown, expired or was issued for a
+   * different caller or request
+   */
+  consume(scope: string, token: string, fingerprint: string): boolean {
+    this.purgeExpired();
+    const entry = this.tokens.get(token);
+    if (!entry || entry.scope !== scope || entry.requestHash !== hashRequest(fingerprint)) {
+      return false;
+    }
+    this.tokens.delete(token);
+    return true;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { ToolRegistry } from './tool-registry.js';
+import type { AgentCaller } from './tool-registry.js';
+import { ToolArgumentsError } from './tool-validation.js';
+import { mcpTools } from './tools.js';
+
+// Agent stand-in that numbers the payment methods it adds
+function countingAgent(): AgentCaller & { calls: number } {
+  const agent = {
+    calls: 0,
+    async callAgent() {
+      agent.calls++;
+      return { data: { status: 'added', type: 'credit_card', paymentMethodId: `pm_${agent.calls}` } };
+    },
+  };
+  return agent;
+}
+
+describe('ToolRegistry.unregisterLocalOnly', () => {
+  it('keeps only the tools the Next.js agents implement', () => {
+    const registry = new ToolRegistry(mcpTools);
+
+    expect(registry.unregisterLocalOnly()).toEqual(expect.arrayContaining(['apply_coupon', 'get_order', 'cancel_order']));
+    expect(registry.getNames()).toEqual([
+      'search_products',
+      'add_to_cart',
+      'view_cart',
+      'checkout',
+      'add_payment_method',
+      'get_deals',
+    ]);
+    expect(registry.unregisterLocalOnly()).toEqual([]);
+  });
+
+  it('leaves no listed tool pointing at a dropped one', () => {
+    const registry = new ToolRegistry(mcpTools);
+    const dropped = registry.unregisterLocalOnly();
+
+    for (const tool of registry.listTools()) {
+      const named = dropped.filter(name => new RegExp(`\\b${name}\\b`).test(JSON.stringify(tool)));
+      expect(named, `${tool.name} mentions`).toEqual([]);
+    }
+  });
+});
+
+describe('ToolRegistry idempotency scope', () => {
+  const args = { type: 'credit_card', idempotencyKey: 'retry-1' };
+
+  it('keeps the keys of unauthenticated sessions apart', async () => {
+    const registry = new ToolRegistry(mcpTools);
+    const agent = countingAgent();
+
+    const first = await registry.call('add_payment_method', args, agent, undefined, { sessionId: 'a' });
+    const retry = await registry.call('add_payment_method', args, agent, undefined, { sessionId: 'a' });
+    const other = await registry.call('add_payment_method', args, agent, undefined, { sessionId: 'b' });
+
+    expect(retry._meta?.idempotentReplayed).toBe(true);
+    expect(retry.structuredContent).toEqual(first.structuredContent);
+    expect(other._meta?.idempotentReplayed).toBe(false);
+    expect(agent.calls).toBe(2);
+  });
+
+  it('rejects keys from callers with neither auth nor a session', async () => {
+    const registry = new ToolRegistry(mcpTools);
+    const agent = countingAgent();
+
+    await expect(registry.call('add_payment_method', args, agent)).rejects.toBeInstanceOf(ToolArgumentsError);
+    expect(agent.calls).toBe(0);
+
+    const { idempotencyKey, ...withoutKey } = args;
+    await registry.call('add_payment_method', withoutKey, agent);
+    const again = await registry.call('add_payment_method', withoutKey, agent);
+    expect(again._meta?.idempotentReplayed).toBe(false);
+    expect(agent.calls).toBe(2);
+  });
+});
@@ -0,0 +1,377 @@
+import { randomUUID } from 'crypto';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { mcpTools } from './tools.js';
+import { ToolArgumentsError, jsonSchemaToZod, validateToolArguments } from './tool-validation.js';
+import { IdempotencyStore, fingerprintRequest } from './idempotency-store.js';
+import {
+  ConfirmTokenStore,
+  ConfirmationDeclinedError,
+  ConfirmationRequiredError,
+  getConfirmationFallback,
+} from './tool-confirmation.js';
+import type { Elicit } from './tool-confirmation.js';
+import type { CompletionSource } from './completions.js';
+import type { AuthResult } from './auth-verifier.js';
+
+/**
+ * Tool registry shared by the SSE, REST and stdio servers
+ *
+ * Every tool is declared once with its schema, the agent it routes to,
+ * how its arguments map onto the agent payload and how the agent result
+ * is turned into an MCP tool result. Arguments are validated against the
+ * tool's input schema before they reach the agent. Plugins can register extra tools at
+ * runtime and they become available on every transport.
+ *
+ * Consequential tools (those that change the cart, orders or payment
+ * methods) take an optional idempotencyKey. One is generated when the
+ * caller doesn't send one; either way it is forwarded to the agent and
+ * returned in the result's _meta, and a repeated key replays the stored
+ * result (see idempotency-store.ts). Keys and confirm tokens belong to the
+ * caller: its user or client id, else its transport session. A caller with
+ * neither can't send a key, and its results are never replayed.
+ *
+ * Tools with a confirmationMessage (checkout, new payment methods, order
+ * cancellation) ask the user first when called over MCP, by elicitation or
+ * a confirmToken round trip (see tool-confirmation.ts).
+ */
+
+/**
+ * Anything that can forward a payload to a named agent (e.g. MCPAgentClient)
+ * on behalf of the authenticated caller
+ */
+export interface AgentCaller {
+  callAgent(agentName: string, data: any, auth?: AuthResult): Promise<any>;
+  /** Release background work and connections (on shutdown) */
+  close?(): Promise<void>;
+}
+
+/**
+ * Full tool declaration: the public MCP tool plus its routing
+ */
+export interface ToolDefinition extends Tool {
+  /** Agent that executes this tool (e.g. 'catalog', 'cart') */
+  agent: string;
+  /** Only the in-process agents implement it (MCP_AGENT_BACKEND=local), not the Next.js app */
+  localOnly?: boolean;
+  /** Replaces these fields once the localOnly tools are dropped (text that names one of them) */
+  withoutLocalOnly?: Partial<Pick<Tool, 'description' | 'outputSchema'>>;
+  /** Changes state (cart, orders, payments): idempotent by key, and clients should confirm it */
+  consequential?: boolean;
+  /**
+   * Question the user must confirm before the tool runs on MCP transports
+   * (e.g. the order total); null when there is nothing to confirm
+   */
+  confirmationMessage?: (
+    args: Record<string, any>,
+    callAgent: (agentName: string, data: any) => Promise<any>
+  ) => Promise<string | null>;
+  /** Where completion/complete gets suggestions for arguments (enum arguments need none) */
+  completions?: Record<string, CompletionSource>;
+  /** Argument schema (derived from inputSchema when omitted) */
+  argsSchema?: z.ZodTypeAny;
+  /** Build the agent payload from the tool arguments */
+  mapArguments: (args: Record<string, any>) => Record<string, any>;
+  /** Convert the agent result into a tool result (defaults to formatAgentResult) */
+  formatResult?: (result: any, args: Record<string, any>) => CallToolResult;
+}
+
+/**
+ * How a transport handles confirmations
+ */
+export interface ToolCallOptions {
+  /** Confirm tools that have a confirmationMessage before running them */
+  confirm?: boolean;
+  /** Ask through the client (MCP elicitation); MCP_CONFIRMATION_FALLBACK applies without it */
+  elicit?: Elicit;
+  /**
+   * Transport session of the call (e.g. the MCP session id); scopes the
+   * idempotency keys and confirm tokens of callers without a user or client id
+   */
+  sessionId?: string;
+  /**
+   * Scope for callers with neither an id nor a session, e.g. REST requests
+   * in the none and api-key auth modes, which all act as LOCAL_USER_ID
+   */
+  defaultScope?: string;
+}
+
+/**
+ * Thrown when a tool name is not registered
+ */
+export class UnknownToolError extends Error {
+  constructor(public readonly toolName: string) {
+    super(`Unknown tool: ${toolName}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+/**
+ * Default result formatter: use the final AI message content from the
+ * LangGraph result, falling back to the full JSON result
+ */
+export function formatAgentResult(result: any): CallToolResult {
+  let responseText = '';
+  if (result && result.messages && Array.isArray(result.messages)) {
+    // Get the last AI message
+    const lastMessage = result.messages[result.messages.length - 1];
+    if (lastMessage && lastMessage.kwargs && lastMessage.kwargs.content) {
+      responseText = lastMessage.kwargs.content;
+    } else {
+      // Fallback to full result
+      responseText = JSON.stringify(result, null, 2);
+    }
+  } else {
+    responseText = JSON.stringify(result, null, 2);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: responseText,
+      },
+    ],
+  };
+}
+
+const idempotencyKeyProperty = {
+  type: 'string',
+  description: 'Optional client-chosen key (e.g. a UUID) that makes retries safe: ' +
+    'repeating a call with the same key returns the first result instead of running it again',
+  minLength: 1,
+  maxLength: 255,
+};
+
+const confirmTokenProperty = {
+  type: 'string',
+  description: 'Token from a previous call that asked for confirmation; send it once the user has agreed',
+  minLength: 1,
+  maxLength: 64,
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private argsSchemas = new Map<string, z.ZodTypeAny>();
+  private idempotency = new IdempotencyStore();
+  private confirmTokens = new ConfirmTokenStore();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Register a tool (throws if the name is already taken)
+   */
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+
+    const extraProperties: Record<string, object> = {
+      ...(definition.consequential && { idempotencyKey: idempotencyKeyProperty }),
+      ...(definition.confirmationMessage && { confirmToken: confirmTokenProperty }),
+    };
+    const tool: ToolDefinition = Object.keys(extraProperties).length
+      ? {
+          ...definition,
+          inputSchema: {
+            ...definition.inputSchema,
+            properties: { ...definition.inputSchema.properties, ...extraProperties },
+          },
+        }
+      : definition;
+    let argsSchema = tool.argsSchema || jsonSchemaToZod(tool.inputSchema);
+    if (Object.keys(extraProperties).length && tool.argsSchema instanceof z.ZodObject) {
+      argsSchema = tool.argsSchema.extend(Object.fromEntries(Object.entries(extraProperties)
+        .map(([key, property]) => [key, jsonSchemaToZod(property).optional()])));
+    }
+
+    this.tools.set(tool.name, tool);
+    this.argsSchemas.set(tool.name, argsSchema);
+  }
+
+  /**
+   * Remove a tool, returns false if it was not registered
+   */
+  unregister(name: string): boolean {
+    this.argsSchemas.delete(name);
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Remove the tools only the in-process agents implement (when the agents
+   * run elsewhere), switching the others to their withoutLocalOnly text;
+   * returns the removed names
+   */
+  unregisterLocalOnly(): string[] {
+    const names = this.getAll().filter(tool => tool.localOnly).map(tool => tool.name);
+    names.forEach(name => this.unregister(name));
+    this.getAll().filter(tool => tool.withoutLocalOnly).forEach(tool => {
+      this.tools.set(tool.name, { ...tool, ...tool.withoutLocalOnly, withoutLocalOnly: undefined });
+    });
+    return names;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  getAll(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  getNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Public tool list in the shape returned by tools/list
+   */
+  listTools(): Tool[] {
+    return this.getAll().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+    }));
+  }
+
+  /**
+   * Route a tool call to its agent and format the result
+   *
+   * @param auth - Auth context of the caller; omit to use the client's defaults
+   * @param options - Confirmation handling of the transport; omit to skip confirmation
+   * @throws UnknownToolError if the tool is not registered
+   * @throws ToolArgumentsError if the arguments fail validation
+   * @throws ConfirmationRequiredError if the user has to confirm first
+   * @throws ConfirmationDeclinedError if the user said no
+   */
+  async call(
+    name: string,
+    args: Record<string, any>,
+    client: AgentCaller,
+    auth?: AuthResult,
+    options: ToolCallOptions = {}
+  ): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+
+    const { confirmToken, ...validArgs } = validateToolArguments(name, this.argsSchemas.get(name)!, args);
+    const scope = auth?.userId || auth?.clientId ||
+      (options.sessionId ? `session:${options.sessionId}` : options.defaultScope || null);
+    if (!tool.consequential) {
+      await this.confirm(tool, validArgs, confirmToken, scope, client, auth, options);
+      return this.execute(tool, validArgs, client, auth);
+    }
+
+    // A key from an unidentified caller could replay someone else's result
+    if (!scope && validArgs.idempotencyKey !== undefined) {
+      throw new ToolArgumentsError(name, [{
+        field: 'idempotencyKey',
+        message: 'Idempotency keys need an authenticated caller or an MCP session',
+      }]);
+    }
+
+    // Same key and caller: replay the stored result instead of running (or asking) again
+    const { idempotencyKey = randomUUID(), ...requestArgs } = validArgs;
+    const run = async () => {
+      await this.confirm(tool, requestArgs, confirmToken, scope, client, auth, options);
+      return this.execute(tool, { ...requestArgs, idempotencyKey }, client, auth);
+    };
+    const { result, replayed } = scope
+      ? await this.idempotency.execute(scope, idempotencyKey, fingerprintRequest({ tool: name, args: requestArgs }), run)
+      : { result: await run(), replayed: false };
+    return { ...result, _meta: { ...result._meta, idempotencyKey, idempotentReplayed: replayed } };
+  }
+
+  /**
+   * Get the user's go-ahead for a tool with a confirmationMessage; returns
+   * when confirmed, throws otherwise
+   */
+  private async confirm(
+    tool: ToolDefinition,
+    args: Record<string, any>,
+    confirmToken: string | undefined,
+    scope: string | null,
+    client: AgentCaller,
+    auth: AuthResult | undefined,
+    options: ToolCallOptions
+  ): Promise<void> {
+    if (!tool.confirmationMessage || !options.confirm) return;
+
+    const fallback = options.elicit ? 'elicit' : getConfirmationFallback();
+    if (fallback === 'none') return;
+
+    const message = await tool.confirmationMessage(args, (agentName, data) => client.callAgent(agentName, data, auth));
+    if (!message) return;
+
+    if (options.elicit) {
+      const answer = await options.elicit(message);
+      if (answer !== 'accept') {
+        throw new ConfirmationDeclinedError(tool.name, answer);
+      }
+      console.error(`[Tool Registry] ${tool.name} confirmed by the user`);
+      return;
+    }
+
+    if (fallback === 'refuse') {
+      throw new ConfirmationRequiredError(
+        `${tool.name} needs the user's confirmation ("${message}"), but this client can't ask for it ` +
+        '(no elicitation support). Use a client that supports elicitation.'
+      );
+    }
+
+    // A token nobody can be tied to could be redeemed by another caller
+    if (!scope) {
+      throw new ConfirmationRequiredError(
+        `${tool.name} needs the user's confirmation ("${message}"), but the caller has no identity or session ` +
+        'to tie a confirmation token to. Authenticate, or use a client that supports elicitation.'
+      );
+    }
+
+    // The token only confirms this exact request and question
+    const fingerprint = fingerprintRequest({ tool: tool.name, args, message });
+    if (confirmToken && this.confirmTokens.consume(scope, confirmToken, fingerprint)) {
+      console.error(`[Tool Registry] ${tool.name} confirmed with a confirm token`);
+      return;
+    }
+
+    const token = this.confirmTokens.issue(scope, fingerprint);
+    throw new ConfirmationRequiredError(
+      (confirmToken ? 'That confirmation token is no longer valid (it expired, was used, or the request changed). ' : '') +
+      `Confirmation required: ${message} Ask the user; if they agree, call ${tool.name} again with the same ` +
+      `arguments and confirmToken "${token}".`,
+      token,
+    );
+  }
+
+  private async execute(
+    tool: ToolDefinition,
+    args: Record<string, any>,
+    client: AgentCaller,
+    auth?: AuthResult
+  ): Promise<CallToolResult> {
+    const startTime = Date.now();
+    try {
+      const payload = tool.mapArguments(args);
+      const result = await client.callAgent(tool.agent, args.idempotencyKey
+        ? { ...payload, idempotencyKey: args.idempotencyKey }
+        : payload, auth);
+      console.error(`[Tool Registry] ${tool.name} -> ${tool.agent} completed in ${Date.now() - startTime}ms`);
+      return (tool.formatResult || formatAgentResult)(result, args);
+    } catch (error: any) {
+      console.error(`[Tool Registry] ${tool.name} -> ${tool.agent} failed after ${Date.now() - startTime}ms:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const toolRegistry = new ToolRegistry(mcpTools);
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LocalAgentClient } from './local-agent-client.js';
+import {
+  formatCartResult,
+  formatCheckoutResult,
+  formatPaymentMethodResult,
+  formatProductResults,
+  loadAgentPayload,
+  readAgentResult,
+} from './tool-results.js';
+import { ToolRegistry } from './tool-registry.js';
+import type { AgentCaller } from './tool-registry.js';
+import { jsonSchemaToZod } from './tool-validation.js';
+import { mcpTools } from './tools.js';
+import type { AuthResult } from './auth-verifier.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+import { orderStore } from '../lib/orders/order-store.js';
+
+// Agent stand-in answering every call with `reply` (or throwing it)
+function agentReplying(reply: unknown): AgentCaller & { calls: any[] } {
+  const agent = {
+    calls: [] as any[],
+    async callAgent(agentName: string, data: any, auth?: AuthResult) {
+      agent.calls.push({ agentName, data, auth });
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  };
+  return agent;
+}
+
+// A LangGraph reply whose last message is `content`
+function langGraphReply(content: string): Record<string, any> {
+  return { messages: [{ kwargs: { content: 'thinking' } }, { kwargs: { content } }] };
+}
+
+describe('readAgentResult', () => {
+  it('reads the data of the in-process agents', () => {
+    expect(readAgentResult({ data: { cart: { items: [] } } })).toEqual({ payload: { cart: { items: [] } } });
+  });
+
+  it('parses a JSON object from the last LangGraph message', () => {
+    expect(readAgentResult(langGraphReply('{"status":"added"}'))).toEqual({ payload: { status: 'added' } });
+  });
+
+  it('keeps a plain-text LangGraph reply as the message', () => {
+    expect(readAgentResult(langGraphReply('Added 2 milk.'))).toEqual({ payload: {}, message: 'Added 2 milk.' });
+    expect(readAgentResult(langGraphReply('[1, 2]'))).toEqual({ payload: {}, message: '[1, 2]' });
+  });
+
+  it('treats anything else as the payload itself', () => {
+    expect(readAgentResult({ orders: [] })).toEqual({ payload: { orders: [] } });
+    expect(readAgentResult(null)).toEqual({ payload: {} });
+  });
+});
+
+describe('loadAgentPayload', () => {
+  const alice: AuthResult = { success: true, userId: 'alice' };
+
+  it('asks the agent on behalf of the caller and returns its payload', async () => {
+    const agent = agentReplying({ data: { deals: [] } });
+
+    expect(await loadAgentPayload({ client: agent, auth: alice }, 'deals', { action: 'get' }, 'prompts')).toEqual({ deals: [] });
+    expect(agent.calls).toEqual([{ agentName: 'deals', data: { action: 'get' }, auth: alice }]);
+  });
+
+  it('returns null when the agent fails', async () => {
+    const agent = agentReplying(new Error('Unknown orders action: list'));
+
+    expect(await loadAgentPayload({ client: agent }, 'orders', { action: 'list' }, 'completions')).toBeNull();
+  });
+});
+
+describe('structured tool results', () => {
+  const alice: AuthResult = { success: true, userId: 'alice' };
+  let client: LocalAgentClient;
+  let registry: ToolRegistry;
+
+  // Call a tool and check its structuredContent, as sent over the wire, against its outputSchema
+  async function callChecked(name: string, args: Record<string, any>): Promise<Record<string, any>> {
+    const result = await registry.call(name, args, client, alice);
+    const outputSchema = mcpTools.find(tool => tool.name === name)!.outputSchema!;
+    const structured = JSON.parse(JSON.stringify(result.structuredContent));
+
+    const parsed = jsonSchemaToZod(outputSchema).safeParse(structured);
+    expect(parsed.error?.issues, name).toBeUndefined();
+    expect(result.content[0]).toEqual({ type: 'text', text: expect.any(String) });
+    return structured;
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('CIBA_PROVIDER', 'mock');
+    vi.stubEnv('CIBA_MOCK_DECISION', 'manual');
+    client = new LocalAgentClient();
+    registry = new ToolRegistry(mcpTools);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cartCache.clearAllCarts();
+    orderStore.clearAllOrders();
+    vi.unstubAllEnvs();
+  });
+
+  it('match the output schema of every tool that has one', async () => {
+    expect((await callChecked('search_products', { query: 'milk', limit: 2 })).products.length).toBeGreaterThan(0);
+    await callChecked('add_to_cart', { productCode: 'cheese', quantity: 2 });
+    await callChecked('update_cart_quantity', { productCode: 'cheese', quantity: 3 });
+    expect((await callChecked('view_cart', {})).pricing).toBeDefined();
+    await callChecked('add_payment_method', { type: 'credit_card' });
+    await callChecked('get_deals', {});
+
+    const { orderId, authorizationId } = await callChecked('checkout', {});
+    await callChecked('get_checkout_status', { authorizationId });
+    await callChecked('get_order', { orderId });
+    expect((await callChecked('list_orders', {})).orders).toHaveLength(1);
+  });
+
+  it('read results from the Next.js agents into the same shapes', () => {
+    const langGraph = (content: string) => ({ messages: [{ kwargs: { content } }] });
+
+    expect(formatProductResults(langGraph('{"results":[{"id":"milk","price":4.19}]}'), { query: 'milk' }).structuredContent)
+      .toEqual({ query: 'milk', results: [{ id: 'milk', price: 4.19 }], products: [{ id: 'milk', price: 4.19 }], total: 1 });
+    expect(formatCartResult(langGraph('Your cart is empty.')).structuredContent)
+      .toEqual({ items: [], totalItems: 0, totalValue: 0, message: 'Your cart is empty.' });
+    expect(formatCheckoutResult(langGraph('Order submitted.')).structuredContent)
+      .toEqual({ status: 'submitted', message: 'Order submitted.' });
+    expect(formatPaymentMethodResult({ data: { status: 'added' } }, { type: 'paypal' }).content)
+      .toEqual([{ type: 'text', text: 'Payment method (paypal) added.' }]);
+  });
+
+  it('describe products, pages and stock in the text', () => {
+    const result = formatProductResults({
+      data: {
+        products: [
+          { id: 'milk', name: 'Whole Milk', brand: 'Lucerne', size: 1, unit: 'gal', price: 4.19, category: 'Dairy', availableQuantity: 3 },
+          { id: 'cola', price: 1.5, inStock: false },
+        ],
+        total: 7,
+        nextCursor: 'abc',
+      },
+    }, { query: 'm' });
+
+    expect(result.content[0]).toEqual({
+      type: 'text',
+      text: 'Showing 2 of 7 products for "m":\n' +
+        '- Lucerne Whole Milk, 1 gal (milk): $4.19, Dairy, only 3 left\n' +
+        '- cola (cola): $1.50, out of stock\n' +
+        'More results available (pass nextCursor as cursor).',
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { formatMoney } from '../lib/pricing/money.js';
+import type { AgentCaller } from './tool-registry.js';
+import type { AuthResult } from './auth-verifier.js';
+
+/**
+ * Result formatters that turn agent results into structured tool results
+ *
+ * Each formatter returns structuredContent matching the tool's outputSchema
+ * (see output-schemas.ts) plus a human-readable text summary. Agents may
+ * return structured data as `data`, as a JSON last message, or as the raw
+ * result object; a plain-text reply is kept in `message`.
+ */
+
+// Product lines mention remaining stock below this many units
+const LOW_STOCK_THRESHOLD = 10;
+
+/**
+ * Content of the last LangGraph message, if the result has one
+ */
+export function getAgentMessage(result: any): string | undefined {
+  if (result && Array.isArray(result.messages)) {
+    const lastMessage = result.messages[result.messages.length - 1];
+    const content = lastMessage?.kwargs?.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split an agent result into its structured payload (empty if the agent
+ * only replied in text) and its text reply
+ */
+export function readAgentResult(result: any): { payload: Record<string, any>; message?: string } {
+  if (!result || typeof result !== 'object') {
+    return { payload: {} };
+  }
+
+  let payload: Record<string, any> = {};
+  let message: string | undefined;
+
+  if (result.data && typeof result.data === 'object') {
+    payload = result.data;
+  } else if (Array.isArray(result.messages)) {
+    message = getAgentMessage(result);
+    if (message) {
+      try {
+        const parsed = JSON.parse(message);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          payload = parsed;
+          message = undefined;
+        }
+      } catch {
+        // Plain-text reply
+      }
+    }
+  } else {
+    payload = result;
+  }
+
+  if (typeof payload.message === 'string') {
+    message = payload.message;
+  }
+
+  return { payload, message };
+}
+
+/**
+ * Ask an agent for context (completions, prompts) on behalf of the caller;
+ * returns its payload, or null (logged under `logPrefix`) if it can't answer
+ */
+export async function loadAgentPayload(
+  context: { client: AgentCaller; auth?: AuthResult },
+  agentName: string,
+  data: Record<string, any>,
+  logPrefix: string
+): Promise<Record<string, any> | null> {
+  try {
+    return readAgentResult(await context.client.callAgent(agentName, data, context.auth)).payload;
+  } catch (error: any) {
+    console.error(`[${logPrefix}] ${agentName}.${data.action} unavailable:`, error.message);
+    return null;
+  }
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+// Summary lines for a pricing breakdown (see pricing-engine.ts)
+function formatPricingLines(pricing: any): string[] {
+  return [
+    `Subtotal: ${formatMoney(pricing.subtotal)}`,
+    ...(pricing.discountTotal.amount > 0 ? [`Discounts: -${formatMoney(pricing.discountTotal)}`] : []),
+    ...(pricing.coupons || [])
+      .filter((coupon: any) => !coupon.applied)
+      .map((coupon: any) => `Coupon ${coupon.code} not applied: ${coupon.reason}`),
+    `Tax: ${formatMoney(pricing.taxTotal)}`,
+    ...pricing.fees.map((fee: any) => `${fee.description}: ${formatMoney(fee.amount)}`),
+    `Total: ${formatMoney(pricing.grandTotal)}`,
+  ];
+}
+
+function structuredResult(structuredContent: Record<string, any>, text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+/**
+ * search_products
+ */
+export function formatProductResults(result: any, args: Record<string, any>): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+  const products: any[] = Array.isArray(payload.products) ? payload.products
+    : Array.isArray(payload.results) ? payload.results
+    : [];
+  const query = payload.query ?? args.query;
+  const searchLabel = query ? ` for "${query}"` : '';
+
+  const structured = {
+    ...payload,
+    ...(query && { query }),
+    products,
+    total: payload.total ?? products.length,
+    ...(message && { message }),
+  };
+
+  if (products.length === 0) {
+    return structuredResult(structured, message || `No products found${searchLabel}.`);
+  }
+
+  const lines = products.map(p =>
+    `- ${p.brand ? `${p.brand} ` : ''}${p.name || p.id}` +
+    (p.size && p.unit ? `, ${p.size} ${p.unit}` : '') +
+    ` (${p.id}): ${formatPrice(Number(p.price))}` +
+    (typeof p.unitPrice === 'number' ? ` (${formatPrice(p.unitPrice)}/${p.unitPriceUnit})` : '') +
+    (p.category ? `, ${p.category}` : '') +
+    (p.inStock === false ? ', out of stock'
+      : p.availableQuantity < LOW_STOCK_THRESHOLD ? `, only ${p.availableQuantity} left` : '')
+  );
+  const showing = structured.total > products.length
+    ? `Showing ${products.length} of ${structured.total} products${searchLabel}`
+    : `Found ${products.length} product${products.length === 1 ? '' : 's'}${searchLabel}`;
+  const more = structured.nextCursor ? '\nMore results available (pass nextCursor as cursor).' : '';
+  return structuredResult(structured, `${showing}:\n${lines.join('\n')}${more}`);
+}
+
+/**
+ * Cart tools: add_to_cart, view_cart, remove_from_cart, update_cart_quantity,
+ * clear_cart and the coupon tools
+ */
+export function formatCartResult(result: any): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+  const cart = payload.cart && typeof payload.cart === 'object' ? payload.cart : payload;
+  const items: any[] = Array.isArray(cart.items) ? cart.items : [];
+
+  const structured = {
+    ...cart,
+    items,
+    totalItems: cart.totalItems ?? items.reduce((total, item) => total + item.quantity, 0),
+    totalValue: cart.totalValue ?? items.reduce((total, item) => total + item.totalPrice, 0),
+    ...(payload.pricing && { pricing: payload.pricing }),
+    ...(message && { message }),
+  };
+
+  if (items.length === 0) {
+    return structuredResult(structured, message || 'Your cart is empty.');
+  }
+
+  // Discounts applied to each line, from the pricing breakdown
+  const pricedLines = new Map<string, any>(
+    (structured.pricing?.lines || []).map((line: any) => [line.productId, line]));
+  const lines = items.map(item =>
+    `- ${item.quantity} x ${item.name || item.id} @ ${formatPrice(item.price)} = ${formatPrice(item.totalPrice)}` +
+    (pricedLines.get(item.id)?.discounts || []).map((discount: any) =>
+      `\n    ${discount.description}` + (discount.explanation ? ` (${discount.explanation})` : '') +
+      `: -${formatMoney(discount.amount)}`).join('')
+  );
+  const summary = `Cart (${structured.totalItems} item${structured.totalItems === 1 ? '' : 's'}):\n` +
+    `${lines.join('\n')}\n` +
+    (structured.pricing ? formatPricingLines(structured.pricing).join('\n') : `Total: ${formatPrice(structured.totalValue)}`) +
+    (typeof structured.version === 'number' ? `\nCart version: ${structured.version}` : '');
+  return structuredResult(structured, message ? `${message}\n\n${summary}` : summary);
+}
+
+// What happens next for a CIBA checkout status
+function describeCheckoutStatus(structured: Record<string, any>): string | undefined {
+  const total = typeof structured.total === 'number' ? ` for ${formatPrice(structured.total)}` : '';
+  switch (structured.status) {
+    case 'pending':
+      return `Checkout${total} is waiting for approval. Ask the user to approve the payment request on their device ` +
+        `(authorization ${structured.authorizationId}, expires ${structured.expiresAt}), ` +
+        `then call get_checkout_status, no more than once every ${structured.pollIntervalSeconds} seconds.`;
+    case 'approved':
+      return `Payment approved: order ${structured.orderId}${total} has been placed.`;
+    case 'denied':
+      return `Payment was denied${structured.reason ? ` (${structured.reason})` : ''}; ` +
+        `order ${structured.orderId} was cancelled and the items are back in the cart.`;
+    case 'expired':
+      return `The payment request expired before it was approved; order ${structured.orderId} was cancelled ` +
+        'and the items are back in the cart.';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * checkout and get_checkout_status
+ */
+export function formatCheckoutResult(result: any): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+
+  const structured: Record<string, any> = {
+    ...payload,
+    status: payload.status || (message ? 'submitted' : 'unknown'),
+    ...(message && { message }),
+  };
+
+  const authorizationSummary = describeCheckoutStatus(structured);
+  if (!message && authorizationSummary) {
+    return structuredResult(structured, authorizationSummary +
+      (structured.pricing ? `\n${formatPricingLines(structured.pricing).join('\n')}` : ''));
+  }
+
+  return structuredResult(structured, message ||
+    `Checkout ${structured.status}` +
+    (structured.orderId ? ` (order ${structured.orderId})` : '') +
+    (typeof structured.total === 'number' ? `, total ${formatPrice(structured.total)}` : '') + '.' +
+    (structured.order ? ` Order status: ${formatOrderStatus(structured.order.status)}.` : '') +
+    (structured.pricing ? `\n${formatPricingLines(structured.pricing).join('\n')}` : ''));
+}
+
+function formatOrderStatus(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+// One-line order summary, e.g. "ord_123 (placed) - 3 items, $12.34, 2026-10-19"
+function formatOrderSummary(order: any): string {
+  const itemCount = (order.items || []).reduce((total: number, item: any) => total + item.quantity, 0);
+  return `${order.orderId} (${formatOrderStatus(order.status)}) - ${itemCount} item${itemCount === 1 ? '' : 's'}, ` +
+    `${formatMoney(order.grandTotal)}, ${String(order.createdAt).slice(0, 10)}`;
+}
+
+/**
+ * get_order and cancel_order
+ */
+export function formatOrderResult(result: any): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+  const order = payload.order && typeof payload.order === 'object' ? payload.order : payload;
+
+  // Without an order there is nothing matching orderOutputSchema to return
+  if (!order.orderId) {
+    return {
+      content: [{ type: 'text', text: message || 'Order not found.' }],
+      isError: true,
+    };
+  }
+
+  const structured = {
+    ...order,
+    ...(message && { message }),
+  };
+
+  const lines = (order.items || []).map((item: any) =>
+    `- ${item.quantity} x ${item.name || item.productId} = ${formatMoney(item.subtotal)}` +
+    (item.discountTotal?.amount > 0 ? ` (-${formatMoney(item.discountTotal)})` : ''));
+  const latest = order.history?.[order.history.length - 1];
+  const summary = `Order ${order.orderId}: ${formatOrderStatus(order.status)}` +
+    (latest?.reason ? ` (${latest.reason})` : '') + '\n' +
+    `${lines.join('\n')}\n` +
+    formatPricingLines({ ...order, coupons: [] }).join('\n') +
+    (order.coupons?.length ? `\nCoupons: ${order.coupons.join(', ')}` : '') +
+    `\nPlaced: ${order.createdAt}`;
+  return structuredResult(structured, message ? `${message}\n\n${summary}` : summary);
+}
+
+/**
+ * list_orders
+ */
+export function formatOrderListResult(result: any, args: Record<string, any>): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+  const orders: any[] = Array.isArray(payload.orders) ? payload.orders : [];
+  const status = payload.status ?? args.status;
+
+  const structured = {
+    ...(status && { status }),
+    orders,
+    ...(message && { message }),
+  };
+
+  if (orders.length === 0) {
+    return structuredResult(structured, message ||
+      (status ? `You have no ${formatOrderStatus(status)} orders.` : 'You have no orders yet.'));
+  }
+
+  return structuredResult(structured,
+    `${orders.length} order${orders.length === 1 ? '' : 's'}:\n${orders.map(order => `- ${formatOrderSummary(order)}`).join('\n')}`);
+}
+
+/**
+ * add_payment_method
+ */
+export function formatPaymentMethodResult(result: any, args: Record<string, any>): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+
+  const structured = {
+    ...payload,
+    status: payload.status || (message ? 'submitted' : 'unknown'),
+    type: payload.type || args.type,
+    ...(message && { message }),
+  };
+
+  return structuredResult(structured, message ||
+    `Payment method (${structured.type}) ${structured.status}.`);
+}
+
+/**
+ * Confirmation questions (see confirmationMessage in tool-registry.ts)
+ */
+type CallAgent = (agentName: string, data: any) => Promise<any>;
+
+/**
+ * checkout: the item count and order total
+ */
+export async function describeCheckoutConfirmation(args: Record<string, any>, callAgent: CallAgent): Promise<string | null> {
+  const { payload } = readAgentResult(await callAgent('cart', { action: 'view' }));
+  const items: any[] = payload.cart?.items || payload.items || [];
+  if (payload.cart && items.length === 0) {
+    // Nothing to confirm; checkout itself reports the empty cart
+    return null;
+  }
+
+  const itemCount = items.reduce((total: number, item: any) => total + (item.quantity || 0), 0);
+  const paymentMethod = args.paymentMethodId ? `payment method ${args.paymentMethodId}` : 'your most recently added payment method';
+  return payload.pricing?.grandTotal
+    ? `Place an order for ${itemCount} item${itemCount === 1 ? '' : 's'} totalling ${formatMoney(payload.pricing.grandTotal)}, ` +
+      `charged to ${paymentMethod}?`
+    : `Place an order for the items in your cart, charged to ${paymentMethod}?`;
+}
+
+/**
+ * add_payment_method: the type of payment method
+ */
+export async function describePaymentMethodConfirmation(args: Record<string, any>): Promise<string> {
+  return `Add a new payment method: ${String(args.type).replace(/_/g, ' ')}?`;
+}
+
+/**
+ * cancel_order: the order being cancelled
+ */
+export async function describeCancelOrderConfirmation(args: Record<string, any>, callAgent: CallAgent): Promise<string> {
+  const { payload } = readAgentResult(await callAgent('orders', { action: 'get', orderId: args.orderId }));
+  return payload.order?.orderId
+    ? `Cancel order ${formatOrderSummary(payload.order)}?`
+    : `Cancel order ${args.orderId}?`;
+}
+
+/**
+ * get_deals
+ */
+export function formatDealsResult(result: any, args: Record<string, any>): CallToolResult {
+  const { payload, message } = readAgentResult(result);
+  const deals: any[] = Array.isArray(payload.deals) ? payload.deals : [];
+  const category = payload.category ?? args.category;
+
+  const structured = {
+    ...(category && { category }),
+    deals,
+    ...(message && { message }),
+  };
+
+  if (deals.length === 0) {
+    return structuredResult(structured, message || 'No current deals found.');
+  }
+
+  const lines = deals.map(deal =>
+    `- ${deal.title}` + (deal.description ? `: ${deal.description}` : '') +
+    (deal.validUntil ? ` (until ${deal.validUntil.slice(0, 10)})` : '')
+  );
+  return structuredResult(structured, `${deals.length} current deal${deals.length === 1 ? '' : 's'}:\n${lines.join('\n')}`);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { ToolArgumentsError, jsonSchemaToZod, validateToolArguments } from './tool-validation.js';
+
+describe('jsonSchemaToZod', () => {
+  it('accepts only the listed values of a mixed enum', () => {
+    const schema = jsonSchemaToZod({ enum: [1, 'two', true] });
+
+    expect(schema.parse(1)).toBe(1);
+    expect(schema.parse('two')).toBe('two');
+    expect(schema.parse(true)).toBe(true);
+    expect(schema.safeParse(2).success).toBe(false);
+  });
+
+  it('accepts a single-value enum', () => {
+    const schema = jsonSchemaToZod({ enum: [5] });
+
+    expect(schema.parse(5)).toBe(5);
+    expect(schema.safeParse(6).success).toBe(false);
+  });
+
+  it('applies defaults and strips unknown properties', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        productId: { type: 'string', minLength: 1 },
+        quantity: { type: 'integer', minimum: 1, default: 1 },
+      },
+      required: ['productId'],
+    });
+
+    expect(validateToolArguments('add_to_cart', schema, { productId: 'milk', extra: true }))
+      .toEqual({ productId: 'milk', quantity: 1 });
+  });
+
+  it('reports field-level issues', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: { quantity: { type: 'integer', minimum: 1 } },
+      required: ['quantity'],
+    });
+
+    try {
+      validateToolArguments('update_cart_quantity', schema, { quantity: 0 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ToolArgumentsError);
+      expect((error as ToolArgumentsError).issues[0].field).toBe('quantity');
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+/**
+ * Tool argument validation
+ *
+ * Builds zod schemas from the JSON Schema declared in each tool's
+ * inputSchema, so the schema advertised to clients is the one enforced on
+ * the MCP, REST and stdio paths. Declared defaults are applied and unknown
+ * properties are stripped before arguments reach an agent.
+ */
+
+export interface ToolArgumentIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when tool arguments do not match the tool's input schema
+ */
+export class ToolArgumentsError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly issues: ToolArgumentIssue[]
+  ) {
+    super(`Invalid arguments for ${toolName}: ` +
+      issues.map(issue => `${issue.field}: ${issue.message}`).join('; '));
+    this.name = 'ToolArgumentsError';
+  }
+}
+
+/**
+ * Convert the subset of JSON Schema used by our tool definitions to zod
+ *
+ * Supports string, number, integer, boolean, array and object types with
+ * enum, default, required, minimum/maximum, minLength/maxLength and
+ * minItems/maxItems.
+ */
+export function jsonSchemaToZod(schema: Record<string, any>): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    if (schema.enum.every((value: unknown) => typeof value === 'string')) {
+      result = z.enum(schema.enum as [string, ...string[]]);
+    } else {
+      const [first, second, ...rest] = schema.enum.map((value: z.Primitive) => z.literal(value));
+      result = second
+        ? z.union([first, second, ...rest] as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+        : first;
+    }
+  } else {
+    switch (schema.type) {
+      case 'string': {
+        let str = z.string();
+        if (typeof schema.minLength === 'number') str = str.min(schema.minLength);
+        if (typeof schema.maxLength === 'number') str = str.max(schema.maxLength);
+        result = str;
+        break;
+      }
+
+      case 'number':
+      case 'integer': {
+        let num = z.number();
+        if (schema.type === 'integer') num = num.int();
+        if (typeof schema.minimum === 'number') num = num.min(schema.minimum);
+        if (typeof schema.maximum === 'number') num = num.max(schema.maximum);
+        result = num;
+        break;
+      }
+
+      case 'boolean':
+        result = z.boolean();
+        break;
+
+      case 'array': {
+        let arr = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+        if (typeof schema.minItems === 'number') arr = arr.min(schema.minItems);
+        if (typeof schema.maxItems === 'number') arr = arr.max(schema.maxItems);
+        result = arr;
+        break;
+      }
+
+      case 'object': {
+        const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [key, property] of Object.entries<Record<string, any>>(schema.properties || {})) {
+          const propertySchema = jsonSchemaToZod(property);
+          shape[key] = required.includes(key) || property.default !== undefined
+            ? propertySchema
+            : propertySchema.optional();
+        }
+        result = z.object(shape);
+        break;
+      }
+
+      default:
+        result = z.unknown();
+    }
+  }
+
+  if (schema.default !== undefined) {
+    result = result.default(schema.default);
+  }
+
+  return result;
+}
+
+/**
+ * Validate tool arguments, returning them with defaults applied
+ *
+ * @throws ToolArgumentsError with field-level messages
+ */
+export function validateToolArguments(
+  toolName: string,
+  schema: z.ZodTypeAny,
+  args: unknown
+): Record<string, any> {
+  const parsed = schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new ToolArgumentsError(toolName, parsed.error.issues.map(issue => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })));
+  }
+  return parsed.data;
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LocalAgentClient } from './local-agent-client.js';
+import type { AuthResult } from './auth-verifier.js';
+import { formatOrderResult } from './tool-results.js';
+import { ToolRegistry } from './tool-registry.js';
+import { mcpTools } from './tools.js';
+import { cartCache } from '../lib/cache/cart-cache.js';
+import { inventoryCache } from '../lib/cache/inventory-cache.js';
+import { orderStore } from '../lib/orders/order-store.js';
+import { getProductById } from '../lib/product-catalog.js';
+
+const alice: AuthResult = { success: true, userId: 'alice' };
+const bob: AuthResult = { success: true, userId: 'bob' };
+
+function orderIds(structured: Record<string, any> | undefined): string[] {
+  return structured!.orders.map((order: any) => order.orderId);
+}
+
+describe('order tools', () => {
+  let client: LocalAgentClient;
+  let registry: ToolRegistry;
+
+  function callTool(name: string, args: Record<string, any>, auth: AuthResult = alice) {
+    return registry.call(name, args, client, auth);
+  }
+
+  // Check out 2 cheddar; the order waits for approval on the mock CIBA server
+  async function placeOrder(): Promise<string> {
+    await callTool('add_to_cart', { productCode: 'cheese', quantity: 2 });
+    return (await callTool('checkout', {})).structuredContent!.orderId as string;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+    vi.stubEnv('CIBA_PROVIDER', 'mock');
+    vi.stubEnv('CIBA_MOCK_DECISION', 'manual');
+    client = new LocalAgentClient();
+    registry = new ToolRegistry(mcpTools);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cartCache.clearAllCarts();
+    orderStore.clearAllOrders();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('gets an order with its items and totals', async () => {
+    const orderId = await placeOrder();
+
+    const result = await callTool('get_order', { orderId });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual(expect.objectContaining({
+      orderId,
+      status: 'pending_authorization',
+      items: [expect.objectContaining({ productId: 'cheese', quantity: 2 })],
+      grandTotal: expect.objectContaining({ currency: 'USD' }),
+      createdAt: '2025-01-15T10:00:00.000Z',
+    }));
+  });
+
+  it('hides other users\' orders', async () => {
+    const orderId = await placeOrder();
+
+    await expect(callTool('get_order', { orderId }, bob)).rejects.toThrow(`Order ${orderId} not found`);
+    await expect(callTool('get_order', { orderId: 'ord_unknown' })).rejects.toThrow('Order ord_unknown not found');
+  });
+
+  it('reports an agent reply without an order as an error result', () => {
+    // e.g. a plain-text reply from an agent outside the process
+    const result = formatOrderResult({ messages: [{ kwargs: { content: 'I could not find that order.' } }] });
+
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'I could not find that order.' }],
+      isError: true,
+    });
+  });
+
+  it('lists orders newest first, filtered by status', async () => {
+    const first = await placeOrder();
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    const second = await placeOrder();
+    await callTool('cancel_order', { orderId: first });
+
+    const all = await callTool('list_orders', {});
+    const pending = await callTool('list_orders', { status: 'pending_authorization' });
+    const none = await callTool('list_orders', { status: 'delivered' });
+
+    expect(orderIds(all.structuredContent)).toEqual([second, first]);
+    expect(orderIds(pending.structuredContent)).toEqual([second]);
+    expect(none.structuredContent).toEqual({ status: 'delivered', orders: [] });
+    expect(orderIds((await callTool('list_orders', {}, bob)).structuredContent)).toEqual([]);
+  });
+
+  it('cancels an order and returns its stock', async () => {
+    const cheese = getProductById('cheese')!;
+    const available = inventoryCache.getAvailable(cheese);
+    const orderId = await placeOrder();
+    expect(inventoryCache.getAvailable(cheese)).toBe(available - 2);
+
+    const result = await callTool('cancel_order', { orderId, reason: 'Ordered twice' });
+
+    expect(result.structuredContent).toEqual(expect.objectContaining({
+      orderId,
+      status: 'cancelled',
+      history: expect.arrayContaining([expect.objectContaining({ status: 'cancelled', reason: 'Ordered twice' })]),
+    }));
+    expect(inventoryCache.getAvailable(cheese)).toBe(available);
+  });
+
+  it('refuses to cancel an order once picking started', async () => {
+    const orderId = await placeOrder();
+    orderStore.updateStatus('alice', orderId, 'placed');
+    orderStore.updateStatus('alice', orderId, 'picking');
+
+    await expect(callTool('cancel_order', { orderId })).rejects.toThrow(/can no longer be cancelled/);
+    expect(orderStore.getOrder('alice', orderId).status).toBe('picking');
+  });
+});
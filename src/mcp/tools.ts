@@ -1,32 +1,123 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolDefinition } from './tool-registry.js';
+import {
+  cartOutputSchema,
+  checkoutOutputSchema,
+  remoteCheckoutOutputSchema,
+  dealsOutputSchema,
+  orderListOutputSchema,
+  orderOutputSchema,
+  paymentMethodOutputSchema,
+  productListOutputSchema,
+} from './output-schemas.js';
+import {
+  describeCancelOrderConfirmation,
+  describeCheckoutConfirmation,
+  describePaymentMethodConfirmation,
+  formatCartResult,
+  formatCheckoutResult,
+  formatDealsResult,
+  formatOrderListResult,
+  formatOrderResult,
+  formatPaymentMethodResult,
+  formatProductResults,
+} from './tool-results.js';
+import { DIETARY_ATTRIBUTES } from '../lib/product-catalog.js';
+
+// Optimistic concurrency for the tools that change the cart (see cart-cache.ts)
+const expectedVersionProperty = {
+  type: 'integer',
+  description: 'Optional cart version from a previous cart result; the request fails with a conflict if the cart has changed since',
+  minimum: 0
+};
 
 /**
  * MCP tool definitions that map to our LangGraph agents
  * These are exposed to MCP clients (Claude Desktop, etc.)
+ *
+ * Each entry also declares the agent it routes to, how its arguments map
+ * onto the agent payload and how the result becomes structured content
+ * (see tool-registry.ts). Tools with a confirmationMessage are confirmed
+ * with the user before they run over MCP. Tools marked localOnly use agent
+ * actions only the in-process backend implements; the servers drop them
+ * with any other MCP_AGENT_BACKEND.
  */
-export const mcpTools: Tool[] = [
+export const mcpTools: ToolDefinition[] = [
   {
     name: 'search_products',
-    description: 'Search the Safeway product catalog for items. Returns product details including name, price, and availability.',
+    description: 'Search the Safeway product catalog for items. Tolerates typos and common synonyms (e.g. "soda", "2% milk"). ' +
+      'Supports price range, in-stock, category, brand and dietary filters, sorting, and cursor paging; ' +
+      'returns product details including name, price, unit price and availability plus category/brand facet counts.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search term (e.g., "milk", "organic apples")'
+          description: 'Search term (e.g., "milk", "organic apples"). Omit to browse by filters only',
+          minLength: 1
         },
         category: {
           type: 'string',
           description: 'Optional product category filter'
         },
-        limit: {
+        brand: {
+          type: 'string',
+          description: 'Optional brand filter'
+        },
+        dietary: {
+          type: 'string',
+          enum: [...DIETARY_ATTRIBUTES],
+          description: 'Only products with this dietary attribute (e.g. "vegan")'
+        },
+        minPrice: {
           type: 'number',
-          description: 'Maximum number of results',
+          description: 'Minimum price in dollars',
+          minimum: 0
+        },
+        maxPrice: {
+          type: 'number',
+          description: 'Maximum price in dollars (e.g. 5 for "under $5")',
+          minimum: 0
+        },
+        inStock: {
+          type: 'boolean',
+          description: 'Only return products that are in stock'
+        },
+        sort: {
+          type: 'string',
+          enum: ['relevance', 'price_asc', 'price_desc', 'unit_price', 'name'],
+          description: 'Sort order (price_asc for "cheapest first")',
+          default: 'relevance'
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of results per page',
+          minimum: 1,
+          maximum: 50,
           default: 10
+        },
+        cursor: {
+          type: 'string',
+          description: 'Opaque nextCursor from a previous response, to fetch the next page of the same search'
         }
-      },
-      required: ['query']
-    }
+      }
+    },
+    outputSchema: productListOutputSchema,
+    completions: { category: 'categories', brand: 'brands' },
+    agent: 'catalog',
+    mapArguments: (args) => ({
+      action: 'search',
+      query: args.query,
+      category: args.category,
+      brand: args.brand,
+      dietary: args.dietary,
+      minPrice: args.minPrice,
+      maxPrice: args.maxPrice,
+      inStock: args.inStock,
+      sort: args.sort,
+      limit: args.limit,
+      cursor: args.cursor,
+    }),
+    formatResult: formatProductResults
   },
   {
     name: 'add_to_cart',
@@ -36,16 +127,31 @@ export const mcpTools: Tool[] = [
       properties: {
         productCode: {
           type: 'string',
-          description: 'The product code/SKU to add'
+          description: 'The product code/SKU to add',
+          minLength: 1
         },
         quantity: {
-          type: 'number',
+          type: 'integer',
           description: 'Quantity to add',
+          minimum: 1,
+          maximum: 99,
           default: 1
-        }
+        },
+        expectedVersion: expectedVersionProperty
       },
       required: ['productCode']
-    }
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    completions: { productCode: 'products' },
+    agent: 'cart',
+    mapArguments: (args) => ({
+      action: 'add',
+      productCode: args.productCode,
+      quantity: args.quantity,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
   },
   {
     name: 'view_cart',
@@ -53,20 +159,292 @@ export const mcpTools: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {}
-    }
+    },
+    outputSchema: cartOutputSchema,
+    agent: 'cart',
+    mapArguments: () => ({
+      action: 'view',
+    }),
+    formatResult: formatCartResult
+  },
+  {
+    name: 'remove_from_cart',
+    description: 'Remove a product from the shopping cart entirely',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU (or name) of the cart item to remove',
+          minLength: 1
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['productCode']
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    completions: { productCode: 'cart_items' },
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'remove',
+      productCode: args.productCode,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
+  },
+  {
+    name: 'update_cart_quantity',
+    description: 'Set the quantity of a product already in the shopping cart (e.g. "make that 2 milks, not 5"); ' +
+      'a quantity of 0 removes it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU (or name) of the cart item to change',
+          minLength: 1
+        },
+        quantity: {
+          type: 'integer',
+          description: 'New total quantity for the item',
+          minimum: 0,
+          maximum: 99
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['productCode', 'quantity']
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    completions: { productCode: 'cart_items' },
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'update_quantity',
+      productCode: args.productCode,
+      quantity: args.quantity,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
+  },
+  {
+    name: 'clear_cart',
+    description: 'Remove all items and coupons from the shopping cart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        expectedVersion: expectedVersionProperty
+      }
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'clear',
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
+  },
+  {
+    name: 'apply_coupon',
+    description: 'Apply a coupon/promo code to the shopping cart. Rejected codes come back with the reason ' +
+      '(unknown, expired, minimum spend not met, no eligible items, already used)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Coupon code as given to the user (case-insensitive)',
+          minLength: 1
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['code']
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'apply_coupon',
+      code: args.code,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
+  },
+  {
+    name: 'remove_coupon',
+    description: 'Remove a coupon code from the shopping cart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Coupon code to remove',
+          minLength: 1
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['code']
+    },
+    outputSchema: cartOutputSchema,
+    consequential: true,
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'remove_coupon',
+      code: args.code,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCartResult
   },
   {
     name: 'checkout',
-    description: 'Complete checkout with CIBA (Client Initiated Backchannel Authentication) authorization',
+    description: 'Check out the cart with CIBA (Client Initiated Backchannel Authentication) authorization. ' +
+      'Returns immediately with status "pending" and an authorizationId while the user approves the payment ' +
+      'on their own device; poll get_checkout_status with that id to learn the outcome',
     inputSchema: {
       type: 'object',
       properties: {
         cartSummary: {
           type: 'string',
           description: 'Summary of cart contents for authorization'
+        },
+        paymentMethodId: {
+          type: 'string',
+          description: 'Payment method to charge (from add_payment_method); defaults to the most recently added one'
+        },
+        expectedVersion: expectedVersionProperty
+      }
+    },
+    outputSchema: checkoutOutputSchema,
+    withoutLocalOnly: {
+      description: 'Check out the cart with CIBA (Client Initiated Backchannel Authentication) authorization. ' +
+        'The user may be asked to approve the payment on their own device',
+      outputSchema: remoteCheckoutOutputSchema,
+    },
+    consequential: true,
+    confirmationMessage: describeCheckoutConfirmation,
+    agent: 'cart',
+    mapArguments: (args) => ({
+      action: 'checkout',
+      cartSummary: args.cartSummary,
+      paymentMethodId: args.paymentMethodId,
+      expectedVersion: args.expectedVersion,
+    }),
+    formatResult: formatCheckoutResult
+  },
+  {
+    name: 'get_checkout_status',
+    description: 'Check whether the user has approved a pending checkout. Returns pending, approved (the order is placed), ' +
+      'denied or expired (the order is cancelled and the items are returned to the cart)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        authorizationId: {
+          type: 'string',
+          description: 'authorizationId returned by checkout',
+          minLength: 1
+        }
+      },
+      required: ['authorizationId']
+    },
+    outputSchema: checkoutOutputSchema,
+    agent: 'cart',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'checkout_status',
+      authorizationId: args.authorizationId,
+    }),
+    formatResult: formatCheckoutResult
+  },
+  {
+    name: 'get_order',
+    description: 'Get one of the user\'s orders: items, prices and totals as charged, and its current status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        orderId: {
+          type: 'string',
+          description: 'Order id returned by checkout or list_orders',
+          minLength: 1
+        }
+      },
+      required: ['orderId']
+    },
+    outputSchema: orderOutputSchema,
+    completions: { orderId: 'orders' },
+    agent: 'orders',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'get',
+      orderId: args.orderId,
+    }),
+    formatResult: formatOrderResult
+  },
+  {
+    name: 'list_orders',
+    description: 'List the user\'s orders, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['pending_authorization', 'placed', 'picking', 'ready', 'delivered', 'cancelled'],
+          description: 'Only orders with this status'
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of orders to return',
+          minimum: 1,
+          maximum: 50,
+          default: 10
         }
       }
-    }
+    },
+    outputSchema: orderListOutputSchema,
+    agent: 'orders',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'list',
+      status: args.status,
+      limit: args.limit,
+    }),
+    formatResult: formatOrderListResult
+  },
+  {
+    name: 'cancel_order',
+    description: 'Cancel an order that has not started being picked yet',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        orderId: {
+          type: 'string',
+          description: 'Order id to cancel',
+          minLength: 1
+        },
+        reason: {
+          type: 'string',
+          description: 'Optional reason given by the user'
+        }
+      },
+      required: ['orderId']
+    },
+    outputSchema: orderOutputSchema,
+    consequential: true,
+    confirmationMessage: describeCancelOrderConfirmation,
+    completions: { orderId: 'orders' },
+    agent: 'orders',
+    localOnly: true,
+    mapArguments: (args) => ({
+      action: 'cancel',
+      orderId: args.orderId,
+      reason: args.reason,
+    }),
+    formatResult: formatOrderResult
   },
   {
     name: 'add_payment_method',
@@ -81,7 +459,16 @@ export const mcpTools: Tool[] = [
         }
       },
       required: ['type']
-    }
+    },
+    outputSchema: paymentMethodOutputSchema,
+    consequential: true,
+    confirmationMessage: describePaymentMethodConfirmation,
+    agent: 'payment',
+    mapArguments: (args) => ({
+      action: 'add',
+      type: args.type,
+    }),
+    formatResult: formatPaymentMethodResult
   },
   {
     name: 'get_deals',
@@ -94,6 +481,14 @@ export const mcpTools: Tool[] = [
           description: 'Optional category filter for deals'
         }
       }
-    }
+    },
+    outputSchema: dealsOutputSchema,
+    completions: { category: 'categories' },
+    agent: 'deals',
+    mapArguments: (args) => ({
+      action: 'get',
+      category: args.category,
+    }),
+    formatResult: formatDealsResult
   }
 ];